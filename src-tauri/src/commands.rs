@@ -1,13 +1,20 @@
 use crate::app_updater::{self, UpdaterState};
-use crate::dat_parser::{filter_dat_by_regions, parse_dat, ParsedDat};
+use crate::dat_parser::{
+  diff_dats as diff_parsed_dats, filter_dat_by_regions, game_roms, merge_dats,
+  parse_dat_with_regions, preview_filter as preview_parsed_filter,
+  validate_dat as validate_parsed_dat, validate_serial_pattern as validate_parsed_serial_pattern,
+  validate_title_pattern, DatOutputFormat, FilterOptions, ParsedDat, RegionTable,
+};
 use crate::redump_download;
 use crate::settings;
 use crate::types::{
-  AppSettings, AppUpdateStatus, CheckUpdatesResponse, CurrentDatResponse, DatLoadPhase, DatVariant,
-  DownloadExtraResponse, DownloadSystemResponse, FilterPreviewResponse, GetSettingsResponse,
-  ListSystemsResponse, LoadFromPathResponse, LoadedDatPayload, OpenDatResponse, SaveFilterResponse,
+  AppSettings, AppUpdateStatus, CheckUpdatesResponse, CurrentDatResponse, DatGameDetails,
+  DatLoadPhase, DatVariant, DiffDatsResponse, DownloadExtraResponse, DownloadSystemResponse,
+  FilterPreviewResponse, GetGameResponse, GetSettingsResponse, ListDatVersionsResponse,
+  ListSystemsResponse, LoadFromPathResponse, LoadedDatPayload, OpenDatResponse, PatternError,
+  PickDatFileResponse, SaveFilterResponse, ValidateDatResponse,
 };
-use std::path::Path;
+use std::path::{Path, PathBuf};
 use std::sync::Mutex;
 use tauri::{AppHandle, State};
 use tauri_plugin_dialog::{DialogExt, FilePath};
@@ -26,6 +33,17 @@ fn build_loaded_payload(state: &LoadedDat) -> LoadedDatPayload {
     original_filename: state.original_filename.clone(),
     header: state.parsed.header.clone(),
     regions: state.parsed.available_regions.clone(),
+    region_counts: state
+      .parsed
+      .index
+      .regions
+      .iter()
+      .map(|(region, games)| (region.clone(), games.len()))
+      .collect(),
+    languages: state.parsed.available_languages.clone(),
+    tags: state.parsed.available_tags.clone(),
+    categories: state.parsed.available_categories.clone(),
+    serial_prefixes: state.parsed.available_serial_prefixes.clone(),
     total_games: state.parsed.games.len(),
     descriptor: state.parsed.descriptor.clone(),
     normalized_descriptor: state.parsed.normalized_descriptor.clone(),
@@ -33,6 +51,12 @@ fn build_loaded_payload(state: &LoadedDat) -> LoadedDatPayload {
   }
 }
 
+/// Region lookup built from the user's region overrides in the settings.
+fn load_region_table(app: &AppHandle) -> RegionTable {
+  let (settings, _) = settings::load_settings(app);
+  RegionTable::new(&settings.region_overrides)
+}
+
 async fn load_state_from_file(app: &AppHandle, file_path: &str) -> Result<LoadedDat, String> {
   redump_download::emit_dat_progress(
     app,
@@ -45,7 +69,7 @@ async fn load_state_from_file(app: &AppHandle, file_path: &str) -> Result<Loaded
     .map_err(|e| format!("Failed to read DAT file: {e}"))?;
   redump_download::emit_dat_progress(app, DatLoadPhase::Parsing, None, "Parsing DAT…");
   tokio::task::yield_now().await;
-  let parsed = parse_dat(&xml)?;
+  let parsed = parse_dat_with_regions(&xml, &load_region_table(app))?;
   let original_filename = Path::new(file_path)
     .file_name()
     .and_then(|s| s.to_str())
@@ -72,7 +96,7 @@ pub async fn open_dat(
     .dialog()
     .file()
     .set_title("Select Redump DAT file")
-    .add_filter("Redump DAT", &["dat", "xml"])
+    .add_filter("Redump DAT", &["dat", "xml", "txt"])
     .blocking_pick_file();
 
   let Some(FilePath::Path(path)) = file_path else {
@@ -167,6 +191,7 @@ pub fn get_current(state: State<'_, LoadedDatState>) -> CurrentDatResponse {
 pub fn preview_filter(
   state: State<'_, LoadedDatState>,
   regions: Vec<String>,
+  options: Option<FilterOptions>,
 ) -> FilterPreviewResponse {
   let guard = match state.0.lock() {
     Ok(g) => g,
@@ -191,7 +216,13 @@ pub fn preview_filter(
     };
   };
 
-  match filter_dat_by_regions(&loaded.parsed, &regions, Some(&loaded.original_filename)) {
+  let options = options.unwrap_or_default();
+  match preview_parsed_filter(
+    &loaded.parsed,
+    &regions,
+    Some(&loaded.original_filename),
+    &options,
+  ) {
     Ok(result) => FilterPreviewResponse {
       success: true,
       error: None,
@@ -209,14 +240,107 @@ pub fn preview_filter(
   }
 }
 
+#[tauri::command]
+pub fn validate_dat(state: State<'_, LoadedDatState>) -> ValidateDatResponse {
+  let guard = match state.0.lock() {
+    Ok(g) => g,
+    Err(e) => {
+      return ValidateDatResponse {
+        success: false,
+        error: Some(e.to_string()),
+        findings: None,
+      }
+    }
+  };
+
+  match guard.as_ref() {
+    Some(loaded) => ValidateDatResponse {
+      success: true,
+      error: None,
+      findings: Some(validate_parsed_dat(&loaded.parsed)),
+    },
+    None => ValidateDatResponse {
+      success: false,
+      error: Some("No DAT file loaded.".into()),
+      findings: None,
+    },
+  }
+}
+
+/// Checks title patterns with the backend's `regex` crate, which rejects look-around and
+/// backreferences that the renderer's `RegExp` accepts.
+#[tauri::command]
+pub fn validate_title_patterns(patterns: Vec<String>) -> Vec<PatternError> {
+  patterns
+    .into_iter()
+    .filter_map(|pattern| {
+      validate_title_pattern(&pattern).map(|error| PatternError { pattern, error })
+    })
+    .collect()
+}
+
+/// Checks a serial pattern with the backend's `regex` crate; `None` means it compiles.
+#[tauri::command]
+pub fn validate_serial_pattern(pattern: String) -> Option<String> {
+  validate_parsed_serial_pattern(&pattern)
+}
+
+#[tauri::command]
+pub fn get_game(state: State<'_, LoadedDatState>, index: usize) -> GetGameResponse {
+  let guard = match state.0.lock() {
+    Ok(g) => g,
+    Err(e) => {
+      return GetGameResponse {
+        success: false,
+        error: Some(e.to_string()),
+        game: None,
+      }
+    }
+  };
+
+  let Some(loaded) = guard.as_ref() else {
+    return GetGameResponse {
+      success: false,
+      error: Some("No DAT file loaded.".into()),
+      game: None,
+    };
+  };
+
+  match loaded.parsed.games.get(index) {
+    Some(game) => GetGameResponse {
+      success: true,
+      error: None,
+      game: Some(DatGameDetails {
+        index,
+        name: game.name.clone(),
+        description: game.description.clone(),
+        category: game.category.clone(),
+        serials: game.serials.clone(),
+        version: game.version.clone(),
+        regions: game.regions.clone(),
+        languages: game.languages.clone(),
+        roms: game_roms(game).into_owned(),
+        raw_xml: game.raw_xml.clone(),
+      }),
+    },
+    None => GetGameResponse {
+      success: false,
+      error: Some(format!("No game at index {index}.")),
+      game: None,
+    },
+  }
+}
+
 #[tauri::command]
 pub async fn save_filtered(
   app: AppHandle,
   state: State<'_, LoadedDatState>,
   regions: Vec<String>,
+  options: Option<FilterOptions>,
   target_path: Option<String>,
 ) -> Result<SaveFilterResponse, String> {
-  let (xml, filename, header, summary, fallback_dir) = {
+  let options = options.unwrap_or_default();
+  let (content, output_format, filename, header, summary, fallback_dir) = {
     let guard = state.0.lock().map_err(|e| e.to_string())?;
     let Some(loaded) = guard.as_ref() else {
       return Ok(SaveFilterResponse {
@@ -227,11 +351,16 @@ pub async fn save_filtered(
         header: None,
         summary: None,
         filename: None,
+        output_format: None,
       });
     };
 
-    let result = match filter_dat_by_regions(&loaded.parsed, &regions, Some(&loaded.original_filename))
-    {
+    let result = match filter_dat_by_regions(
+      &loaded.parsed,
+      &regions,
+      Some(&loaded.original_filename),
+      &options,
+    ) {
       Ok(r) => r,
       Err(error) => {
         return Ok(SaveFilterResponse {
@@ -242,6 +371,7 @@ pub async fn save_filtered(
           header: None,
           summary: None,
           filename: None,
+          output_format: None,
         });
       }
     };
@@ -251,7 +381,8 @@ pub async fn save_filtered(
       .map(|p| p.to_path_buf());
 
     (
-      result.xml,
+      result.content,
+      result.output_format,
       result.filename,
       result.header,
       result.summary,
@@ -259,65 +390,235 @@ pub async fn save_filtered(
     )
   };
 
-  let default_dir = settings::resolve_save_directory(&app, fallback_dir);
+  match write_output_dat(
+    &app,
+    &content,
+    &filename,
+    fallback_dir,
+    target_path,
+    "Save filtered DAT file",
+    output_format,
+  ) {
+    Ok(Some((saved_path, saved_name))) => Ok(SaveFilterResponse {
+      success: true,
+      canceled: None,
+      error: None,
+      saved_path: Some(saved_path),
+      header: Some(header),
+      summary: Some(summary),
+      filename: Some(saved_name),
+      output_format: Some(output_format),
+    }),
+    Ok(None) => Ok(SaveFilterResponse {
+      success: false,
+      canceled: Some(true),
+      error: None,
+      saved_path: None,
+      header: None,
+      summary: None,
+      filename: None,
+      output_format: None,
+    }),
+    Err(error) => Ok(SaveFilterResponse {
+      success: false,
+      canceled: None,
+      error: Some(format!("Failed to save filtered DAT file: {error}")),
+      saved_path: None,
+      header: None,
+      summary: None,
+      filename: None,
+      output_format: None,
+    }),
+  }
+}
+
+/// Writes `content` to `target_path`, or to a path chosen in a save dialog. Returns the saved
+/// path and file name, or `None` when the dialog was canceled. A `filename` with `/`
+/// separators (from a filename template) is opened in that subfolder of the save directory.
+fn write_output_dat(
+  app: &AppHandle,
+  content: &str,
+  filename: &str,
+  fallback_dir: Option<PathBuf>,
+  target_path: Option<String>,
+  title: &str,
+  format: DatOutputFormat,
+) -> Result<Option<(String, String)>, String> {
+  let base_dir = settings::resolve_save_directory(app, fallback_dir);
+  let relative = Path::new(filename);
+  let subdirectory = relative
+    .parent()
+    .filter(|parent| !parent.as_os_str().is_empty());
+  let filename = relative
+    .file_name()
+    .and_then(|s| s.to_str())
+    .unwrap_or(filename);
 
+  let mut created_dir: Option<(PathBuf, PathBuf)> = None;
   let final_path = if let Some(path) = target_path.filter(|p| !p.trim().is_empty()) {
     path
   } else {
+    let default_dir = match (base_dir, subdirectory) {
+      (Some(base), Some(subdirectory)) => {
+        let (dir, created) = create_save_subdirectory(&base, subdirectory)?;
+        created_dir = created.map(|created| (dir.clone(), created));
+        Some(dir)
+      }
+      (base, _) => base,
+    };
+
+    let filter: Vec<&str> = format
+      .extensions()
+      .iter()
+      .map(|ext| ext.trim_start_matches('.'))
+      .collect();
     let mut dialog = app
       .dialog()
       .file()
-      .set_title("Save filtered DAT file")
-      .add_filter("Redump DAT", &["dat", "xml"])
-      .set_file_name(&filename);
+      .set_title(title)
+      .add_filter(format.file_type_label(), &filter)
+      .set_file_name(filename);
 
-    if let Some(dir) = default_dir {
+    if let Some(dir) = default_dir.as_ref() {
       dialog = dialog.set_directory(dir);
     }
 
     let Some(FilePath::Path(path)) = dialog.blocking_save_file() else {
+      if let Some((dir, created)) = created_dir.as_ref() {
+        remove_created_directories(dir, created);
+      }
+      return Ok(None);
+    };
+    path.to_string_lossy().to_string()
+  };
+
+  let written = std::fs::write(&final_path, content.as_bytes()).map_err(|e| e.to_string());
+  if let Some((dir, created)) = created_dir.as_ref() {
+    // Only empty folders are removed, so this keeps the subfolder when the file was saved in it
+    // and drops it when the dialog picked another folder or the write failed.
+    remove_created_directories(dir, created);
+  }
+  written?;
+
+  let saved_name = Path::new(&final_path)
+    .file_name()
+    .and_then(|s| s.to_str())
+    .unwrap_or(filename)
+    .to_string();
+
+  settings::remember_save_directory(app, &final_path, subdirectory);
+
+  Ok(Some((final_path, saved_name)))
+}
+
+/// Creates `base/subdirectory` and returns it with the topmost folder that did not exist
+/// before, so a save that ends up elsewhere can remove what it created.
+fn create_save_subdirectory(
+  base: &Path,
+  subdirectory: &Path,
+) -> Result<(PathBuf, Option<PathBuf>), String> {
+  let dir = base.join(subdirectory);
+  let created = dir
+    .ancestors()
+    .take_while(|path| *path != base && !path.exists())
+    .last()
+    .map(Path::to_path_buf);
+  std::fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+  Ok((dir, created))
+}
+
+fn remove_created_directories(dir: &Path, created: &Path) {
+  for path in dir.ancestors() {
+    // `remove_dir` refuses non-empty folders, so anything the user added is kept.
+    if std::fs::remove_dir(path).is_err() || path == created {
+      break;
+    }
+  }
+}
+
+#[tauri::command]
+pub async fn save_merged(
+  app: AppHandle,
+  file_paths: Vec<String>,
+  regions: Vec<String>,
+  name: Option<String>,
+  options: Option<FilterOptions>,
+  target_path: Option<String>,
+) -> Result<SaveFilterResponse, String> {
+  let options = options.unwrap_or_default();
+  let fallback_dir = file_paths
+    .first()
+    .and_then(|path| Path::new(path).parent())
+    .map(|p| p.to_path_buf());
+
+  let region_table = load_region_table(&app);
+  let merged = tokio::task::spawn_blocking(move || {
+    let dats = file_paths
+      .iter()
+      .map(|path| read_and_parse_dat(path, &region_table))
+      .collect::<Result<Vec<_>, String>>()?;
+    merge_dats(&dats, &regions, name.as_deref(), &options)
+  })
+  .await
+  .map_err(|e| e.to_string())
+  .and_then(|result| result);
+
+  let result = match merged {
+    Ok(result) => result,
+    Err(error) => {
       return Ok(SaveFilterResponse {
         success: false,
-        canceled: Some(true),
-        error: None,
+        canceled: None,
+        error: Some(error),
         saved_path: None,
         header: None,
         summary: None,
         filename: None,
+        output_format: None,
       });
-    };
-    path.to_string_lossy().to_string()
+    }
   };
 
-  if let Err(error) = std::fs::write(&final_path, xml.as_bytes()) {
-    return Ok(SaveFilterResponse {
+  match write_output_dat(
+    &app,
+    &result.content,
+    &result.filename,
+    fallback_dir,
+    target_path,
+    "Save merged DAT file",
+    result.output_format,
+  ) {
+    Ok(Some((saved_path, saved_name))) => Ok(SaveFilterResponse {
+      success: true,
+      canceled: None,
+      error: None,
+      saved_path: Some(saved_path),
+      header: Some(result.header),
+      summary: Some(result.summary),
+      filename: Some(saved_name),
+      output_format: Some(result.output_format),
+    }),
+    Ok(None) => Ok(SaveFilterResponse {
+      success: false,
+      canceled: Some(true),
+      error: None,
+      saved_path: None,
+      header: None,
+      summary: None,
+      filename: None,
+      output_format: None,
+    }),
+    Err(error) => Ok(SaveFilterResponse {
       success: false,
       canceled: None,
-      error: Some(format!("Failed to save filtered DAT file: {error}")),
+      error: Some(format!("Failed to save merged DAT file: {error}")),
       saved_path: None,
       header: None,
       summary: None,
       filename: None,
-    });
+      output_format: None,
+    }),
   }
-
-  let saved_name = Path::new(&final_path)
-    .file_name()
-    .and_then(|s| s.to_str())
-    .unwrap_or(&filename)
-    .to_string();
-
-  settings::remember_save_directory(&app, &final_path);
-
-  Ok(SaveFilterResponse {
-    success: true,
-    canceled: None,
-    error: None,
-    saved_path: Some(final_path),
-    header: Some(header),
-    summary: Some(summary),
-    filename: Some(saved_name),
-  })
 }
 
 #[tauri::command]
@@ -445,7 +746,7 @@ pub async fn download_system(
       Ok(downloaded) => {
         redump_download::emit_dat_progress(&app, DatLoadPhase::Parsing, None, "Parsing DAT…");
         tokio::task::yield_now().await;
-        match parse_dat(&downloaded.xml) {
+        match parse_dat_with_regions(&downloaded.xml, &load_region_table(&app)) {
           Ok(parsed) => {
             let loaded = LoadedDat {
               source_path: downloaded.source_path,
@@ -572,7 +873,7 @@ pub async fn download_extra(
     });
   }
 
-  settings::remember_save_directory(&app, &final_path);
+  settings::remember_save_directory(&app, &final_path, None);
   let saved_name = Path::new(&final_path)
     .file_name()
     .and_then(|s| s.to_str())
@@ -588,6 +889,95 @@ pub async fn download_extra(
   })
 }
 
+#[tauri::command]
+pub fn list_dat_versions(
+  app: AppHandle,
+  slug: String,
+  serial_version: Option<bool>,
+) -> ListDatVersionsResponse {
+  let slug = slug.trim();
+  if slug.is_empty() {
+    return ListDatVersionsResponse {
+      success: false,
+      error: Some("No system selected.".into()),
+      versions: Vec::new(),
+    };
+  }
+
+  let variant = serial_version
+    .map(DatVariant::from_serial_flag)
+    .unwrap_or_else(|| {
+      let (loaded, _) = settings::load_settings(&app);
+      settings::resolve_dat_variant(&loaded, slug)
+    });
+  ListDatVersionsResponse {
+    success: true,
+    error: None,
+    versions: redump_download::list_cached_dat_versions(&app, slug, variant),
+  }
+}
+
+#[tauri::command]
+pub async fn pick_dat_file(app: AppHandle) -> PickDatFileResponse {
+  let file_path = app
+    .dialog()
+    .file()
+    .set_title("Select DAT file to compare")
+    .add_filter("Redump DAT", &["dat", "xml", "txt"])
+    .blocking_pick_file();
+
+  match file_path {
+    Some(FilePath::Path(path)) => PickDatFileResponse {
+      canceled: false,
+      file_path: Some(path.to_string_lossy().to_string()),
+    },
+    _ => PickDatFileResponse {
+      canceled: true,
+      file_path: None,
+    },
+  }
+}
+
+fn read_and_parse_dat(file_path: &str, regions: &RegionTable) -> Result<ParsedDat, String> {
+  let xml = std::fs::read_to_string(file_path)
+    .map_err(|e| format!("Failed to read DAT file {file_path}: {e}"))?;
+  parse_dat_with_regions(&xml, regions).map_err(|e| format!("{file_path}: {e}"))
+}
+
+#[tauri::command]
+pub async fn diff_dats(app: AppHandle, left_path: String, right_path: String) -> DiffDatsResponse {
+  if left_path.trim().is_empty() || right_path.trim().is_empty() {
+    return DiffDatsResponse {
+      success: false,
+      error: Some("Choose two DAT files to compare.".into()),
+      diff: None,
+    };
+  }
+
+  let region_table = load_region_table(&app);
+  let result = tokio::task::spawn_blocking(move || {
+    let left = read_and_parse_dat(&left_path, &region_table)?;
+    let right = read_and_parse_dat(&right_path, &region_table)?;
+    Ok::<_, String>(diff_parsed_dats(&left, &right))
+  })
+  .await
+  .map_err(|e| e.to_string())
+  .and_then(|result| result);
+
+  match result {
+    Ok(diff) => DiffDatsResponse {
+      success: true,
+      error: None,
+      diff: Some(diff),
+    },
+    Err(error) => DiffDatsResponse {
+      success: false,
+      error: Some(error),
+      diff: None,
+    },
+  }
+}
+
 #[tauri::command]
 pub fn get_app_version(app: AppHandle) -> String {
   app.package_info().version.to_string()
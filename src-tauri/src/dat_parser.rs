@@ -7,15 +7,64 @@
 //
 // Port of src/shared/datParser.ts — preserve original <game> XML blocks on filter output.
 
-use regex::Regex;
+use regex::{Regex, RegexBuilder};
 use serde::{Deserialize, Serialize};
-use std::collections::{HashMap, HashSet};
+use std::borrow::Cow;
+use std::cmp::Ordering;
+use std::collections::{BTreeMap, HashMap, HashSet};
 use std::sync::OnceLock;
 
 const XML_DECLARATION: &str = r#"<?xml version="1.0"?>"#;
 const DATAFILE_DOCTYPE: &str = r#"<!DOCTYPE datafile PUBLIC "-//Logiqx//DTD ROM Management Datafile//EN" "http://www.logiqx.com/Dats/datafile.dtd">"#;
 
+const CLRMAMEPRO_GAME_BLOCKS: [&str; 3] = ["game", "machine", "resource"];
+const CLRMAMEPRO_GAME_ATTRIBUTES: [&str; 4] = ["name", "cloneof", "romof", "sampleof"];
+
 const DEFAULT_REGION: &str = "Unknown";
+const DEFAULT_LANGUAGE: &str = "Unknown";
+const DEFAULT_CATEGORY: &str = "Unknown";
+
+/// Longest file or folder name a filename template may produce, extension included.
+const MAX_FILENAME_SEGMENT_LENGTH: usize = 200;
+
+const LOGIQX_REQUIRED_HEADER_FIELDS: [&str; 4] = ["name", "description", "version", "author"];
+const ROM_REQUIRED_FIELDS: [&str; 4] = ["size", "crc", "md5", "sha1"];
+const WINDOWS_ILLEGAL_CHARACTERS: [char; 9] = ['<', '>', ':', '"', '/', '\\', '|', '?', '*'];
+
+pub const DEFAULT_REGION_PRIORITY: [&str; 4] = ["USA", "World", "Europe", "Japan"];
+
+const BUILT_IN_REGION_GROUPS: [(&str, &[&str]); 4] = [
+    (
+        "PAL",
+        &[
+            "Europe",
+            "Australia",
+            "New Zealand",
+            "United Kingdom",
+            "Ireland",
+            "Germany",
+            "France",
+            "Spain",
+            "Portugal",
+            "Italy",
+            "Netherlands",
+            "Belgium",
+            "Switzerland",
+            "Denmark",
+            "Finland",
+            "Norway",
+            "Sweden",
+            "Poland",
+            "Czech Republic",
+            "Greece",
+            "Russia",
+            "South Africa",
+        ],
+    ),
+    ("NTSC-U", &["USA", "Canada", "Mexico", "Brazil", "Latin America"]),
+    ("NTSC-J", &["Japan", "Asia", "Korea", "Taiwan", "Hong Kong"]),
+    ("Asia-all", &["Asia", "Japan", "Korea", "China", "Taiwan", "Hong Kong"]),
+];
 
 fn region_synonyms() -> &'static HashMap<&'static str, &'static str> {
     static MAP: OnceLock<HashMap<&'static str, &'static str>> = OnceLock::new();
@@ -78,15 +127,114 @@ fn region_synonyms() -> &'static HashMap<&'static str, &'static str> {
     })
 }
 
-fn canonical_regions() -> &'static HashSet<&'static str> {
-    static SET: OnceLock<HashSet<&'static str>> = OnceLock::new();
-    SET.get_or_init(|| {
-        let mut set: HashSet<&'static str> = region_synonyms().values().copied().collect();
-        set.insert(DEFAULT_REGION);
-        set
+/// Two-letter country codes as used in TOSEC names; matched case-sensitively so
+/// language codes such as `(De)` are not mistaken for regions.
+fn iso_region_codes() -> &'static HashMap<&'static str, &'static str> {
+    static MAP: OnceLock<HashMap<&'static str, &'static str>> = OnceLock::new();
+    MAP.get_or_init(|| {
+        HashMap::from([
+            ("AU", "Australia"),
+            ("BE", "Belgium"),
+            ("BR", "Brazil"),
+            ("CA", "Canada"),
+            ("CH", "Switzerland"),
+            ("CN", "China"),
+            ("CZ", "Czech Republic"),
+            ("DE", "Germany"),
+            ("DK", "Denmark"),
+            ("ES", "Spain"),
+            ("EU", "Europe"),
+            ("FI", "Finland"),
+            ("FR", "France"),
+            ("GB", "United Kingdom"),
+            ("GR", "Greece"),
+            ("HK", "Hong Kong"),
+            ("IE", "Ireland"),
+            ("IT", "Italy"),
+            ("JP", "Japan"),
+            ("KR", "Korea"),
+            ("MX", "Mexico"),
+            ("NL", "Netherlands"),
+            ("NO", "Norway"),
+            ("NZ", "New Zealand"),
+            ("PL", "Poland"),
+            ("PT", "Portugal"),
+            ("RU", "Russia"),
+            ("SE", "Sweden"),
+            ("TW", "Taiwan"),
+            ("US", "USA"),
+            ("ZA", "South Africa"),
+        ])
     })
 }
 
+fn default_region_table() -> &'static RegionTable {
+    static TABLE: OnceLock<RegionTable> = OnceLock::new();
+    TABLE.get_or_init(|| RegionTable::new(&RegionOverrides::default()))
+}
+
+/// User additions to the built-in region synonyms, applied when a DAT is parsed.
+#[derive(Debug, Clone, Default, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase", default)]
+pub struct RegionOverrides {
+    /// Region token (matched case-insensitively) mapped to the canonical region it stands for.
+    pub synonyms: BTreeMap<String, String>,
+    /// Extra canonical regions, recognized by name even without a synonym.
+    pub regions: Vec<String>,
+}
+
+/// Named set of regions that can be toggled together and is printed by name in region labels.
+#[derive(Debug, Clone, Default, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase", default)]
+pub struct RegionGroup {
+    pub name: String,
+    pub regions: Vec<String>,
+}
+
+/// Token lookup and canonical set a DAT was parsed with; filtering reuses it.
+#[derive(Debug, Clone)]
+pub struct RegionTable {
+    synonyms: HashMap<String, String>,
+    canonical: HashSet<String>,
+}
+
+impl RegionTable {
+    /// Builds the region lookup from the built-in synonyms plus user overrides. Custom regions and
+    /// synonym targets become canonical; user entries win over built-in ones for the same token.
+    pub fn new(overrides: &RegionOverrides) -> Self {
+        let mut synonyms: HashMap<String, String> = region_synonyms()
+            .iter()
+            .map(|(token, region)| (token.to_string(), region.to_string()))
+            .collect();
+        for region in &overrides.regions {
+            let cleaned = clean_region_token(region);
+            if !cleaned.is_empty() {
+                synonyms.insert(cleaned.to_lowercase(), cleaned);
+            }
+        }
+        for (token, region) in &overrides.synonyms {
+            let cleaned_token = clean_region_token(token);
+            let cleaned_region = clean_region_token(region);
+            if !cleaned_token.is_empty() && !cleaned_region.is_empty() {
+                synonyms.insert(cleaned_token.to_lowercase(), cleaned_region);
+            }
+        }
+
+        let mut canonical: HashSet<String> = synonyms.values().cloned().collect();
+        canonical.insert(DEFAULT_REGION.to_string());
+        Self {
+            synonyms,
+            canonical,
+        }
+    }
+}
+
+impl Default for RegionTable {
+    fn default() -> Self {
+        default_region_table().clone()
+    }
+}
+
 #[derive(Debug, Clone, Serialize, Deserialize)]
 #[serde(rename_all = "camelCase")]
 pub struct DatHeader {
@@ -112,6 +260,23 @@ pub struct DatRom {
     pub attributes: HashMap<String, String>,
 }
 
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct DatTag {
+    pub key: String,
+    pub label: String,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub value: Option<String>,
+}
+
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct DiscSet {
+    pub key: String,
+    pub disc: u64,
+    pub total: usize,
+}
+
 #[derive(Debug, Clone, Serialize, Deserialize)]
 #[serde(rename_all = "camelCase")]
 pub struct DatGame {
@@ -120,23 +285,206 @@ pub struct DatGame {
     pub description: Option<String>,
     #[serde(skip_serializing_if = "Option::is_none")]
     pub category: Option<String>,
+    /// Serials from the `<serial>` element of Serial/Version DATs, e.g. `SLUS-00001`.
+    pub serials: Vec<String>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub version: Option<String>,
     pub roms: Vec<DatRom>,
+    /// Sum of the ROM `size` attributes in bytes; missing or invalid sizes count as 0.
+    pub total_size: u64,
     pub regions: Vec<String>,
-    /// Original `<game>...</game>` element text from the source DAT.
+    pub languages: Vec<String>,
+    pub tags: Vec<DatTag>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub disc_set: Option<DiscSet>,
+    pub element: DatGameElement,
+    /// Original `<game>...</game>` (or `<machine>`) element text from the source DAT.
     pub raw_xml: String,
 }
 
+#[derive(Debug, Clone, Copy, Default, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub enum DatGameElement {
+    #[default]
+    Game,
+    Machine,
+}
+
+impl DatGameElement {
+    pub fn tag_name(self) -> &'static str {
+        match self {
+            DatGameElement::Game => "game",
+            DatGameElement::Machine => "machine",
+        }
+    }
+}
+
 #[derive(Debug, Clone, Serialize, Deserialize)]
 #[serde(rename_all = "camelCase")]
 pub struct ParsedDat {
     pub header: DatHeader,
     pub games: Vec<DatGame>,
+    pub index: DatIndex,
     pub available_regions: Vec<String>,
+    pub available_languages: Vec<String>,
+    pub available_tags: Vec<String>,
+    pub available_categories: Vec<String>,
+    pub available_serial_prefixes: Vec<String>,
     pub descriptor: String,
     pub normalized_descriptor: String,
     #[serde(skip_serializing_if = "Option::is_none")]
     pub version_label: Option<String>,
     pub raw_root_extras: HashMap<String, serde_json::Value>,
+    #[serde(skip)]
+    pub region_table: RegionTable,
+}
+
+#[derive(Debug, Clone, Default, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct DatIndex {
+    /// Game indices per effective region, language, tag key and category.
+    pub regions: HashMap<String, Vec<usize>>,
+    pub languages: HashMap<String, Vec<usize>>,
+    pub tags: HashMap<String, Vec<usize>>,
+    pub categories: HashMap<String, Vec<usize>>,
+    /// Game indices per upper-case serial prefix, such as `SLUS`.
+    pub serial_prefixes: HashMap<String, Vec<usize>>,
+    /// Disc-set units as game indices, in DAT order.
+    pub units: Vec<Vec<usize>>,
+}
+
+#[derive(Debug, Clone, Copy, Default, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub enum RegionMatchMode {
+    #[default]
+    Any,
+    All,
+    Exclusive,
+}
+
+#[derive(Debug, Clone, Copy, Default, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub enum DatExportMode {
+    #[default]
+    Flat,
+    ParentClone,
+}
+
+#[derive(Debug, Clone, Copy, Default, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub enum DatOutputFormat {
+    #[default]
+    Logiqx,
+    #[serde(rename = "clrmamepro")]
+    ClrMamePro,
+    Csv,
+    Json,
+}
+
+impl DatOutputFormat {
+    /// Accepted file extensions; the first is used when the source extension is not accepted.
+    pub fn extensions(self) -> &'static [&'static str] {
+        match self {
+            DatOutputFormat::Logiqx => &[".dat", ".xml"],
+            DatOutputFormat::ClrMamePro => &[".dat"],
+            DatOutputFormat::Csv => &[".csv"],
+            DatOutputFormat::Json => &[".json"],
+        }
+    }
+
+    /// Name shown for the file type filter in save dialogs.
+    pub fn file_type_label(self) -> &'static str {
+        match self {
+            DatOutputFormat::Logiqx | DatOutputFormat::ClrMamePro => "Redump DAT",
+            DatOutputFormat::Csv => "CSV game list",
+            DatOutputFormat::Json => "JSON game list",
+        }
+    }
+
+    fn write(
+        self,
+        header: &DatHeader,
+        games: &[DatGame],
+        parents: &[Option<String>],
+        summary: &FilterSummary,
+    ) -> String {
+        match self {
+            DatOutputFormat::Logiqx => write_logiqx_dat(header, games, parents),
+            DatOutputFormat::ClrMamePro => write_clrmamepro_dat(header, games, parents),
+            DatOutputFormat::Csv => write_game_list_csv(games),
+            DatOutputFormat::Json => write_game_list_json(games, summary),
+        }
+    }
+}
+
+#[derive(Debug, Clone, Default, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase", default)]
+pub struct FilterOptions {
+    pub match_mode: RegionMatchMode,
+    pub excluded_regions: Vec<String>,
+    pub one_game_one_rom: bool,
+    /// Most-preferred region first; `None` falls back to [`DEFAULT_REGION_PRIORITY`].
+    pub region_priority: Option<Vec<String>>,
+    pub languages: Vec<String>,
+    pub categories: Vec<String>,
+    pub include_tags: Vec<String>,
+    pub exclude_tags: Vec<String>,
+    pub latest_revision_only: bool,
+    pub include_titles: Vec<String>,
+    pub exclude_titles: Vec<String>,
+    pub export_mode: DatExportMode,
+    pub output_format: DatOutputFormat,
+    pub header_template: DatHeaderTemplate,
+    /// Relative output path with `{token}` placeholders; `/` separates subfolders.
+    pub filename_template: Option<String>,
+    /// Redump system slug for the `{slug}` filename token.
+    pub system_slug: Option<String>,
+    /// User-defined region groups, used next to the built-in ones when labelling the selection.
+    pub region_groups: Vec<RegionGroup>,
+    /// Keeps games with a serial starting with one of these prefixes, e.g. `SLUS`.
+    pub serial_prefixes: Vec<String>,
+    /// Case-insensitive regular expression at least one serial of a game must match.
+    pub serial_pattern: Option<String>,
+    /// Size bounds in bytes; multi-disc sets are measured as a whole.
+    pub min_size: Option<u64>,
+    pub max_size: Option<u64>,
+}
+
+/// Per-field header templates; blank or missing fields keep the default header value.
+#[derive(Debug, Clone, Default, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase", default)]
+pub struct DatHeaderTemplate {
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub name: Option<String>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub description: Option<String>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub version: Option<String>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub date: Option<String>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub author: Option<String>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub homepage: Option<String>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub url: Option<String>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub comment: Option<String>,
+}
+
+impl DatHeaderTemplate {
+    pub fn fields_mut(&mut self) -> [&mut Option<String>; 8] {
+        [
+            &mut self.name,
+            &mut self.description,
+            &mut self.version,
+            &mut self.date,
+            &mut self.author,
+            &mut self.homepage,
+            &mut self.url,
+            &mut self.comment,
+        ]
+    }
 }
 
 #[derive(Debug, Clone, Serialize, Deserialize)]
@@ -145,7 +493,29 @@ pub struct FilterSummary {
     pub initial_games: usize,
     pub filtered_games: usize,
     pub removed_games: usize,
+    pub collapsed_games: usize,
+    pub superseded_revisions: usize,
+    pub multi_disc_sets: usize,
+    pub multi_disc_games: usize,
+    pub title_included_games: usize,
+    pub title_excluded_games: usize,
+    pub size_excluded_games: usize,
+    /// Total ROM size in bytes of the source and of the filtered games.
+    pub initial_size: u64,
+    pub filtered_size: u64,
+    pub export_mode: DatExportMode,
+    pub clone_games: usize,
     pub selected_regions: Vec<String>,
+    pub excluded_regions: Vec<String>,
+    pub match_mode: RegionMatchMode,
+    pub selected_languages: Vec<String>,
+    pub selected_categories: Vec<String>,
+    pub selected_serial_prefixes: Vec<String>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub serial_pattern: Option<String>,
+    pub included_tags: Vec<String>,
+    pub excluded_tags: Vec<String>,
+    pub tag_exclusion_counts: HashMap<String, usize>,
     pub region_label: String,
     pub descriptor: String,
     pub normalized_descriptor: String,
@@ -153,98 +523,592 @@ pub struct FilterSummary {
     pub version_label: Option<String>,
 }
 
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct FilterPreview {
+    pub filename: String,
+    pub header: DatHeader,
+    pub summary: FilterSummary,
+}
+
 #[derive(Debug, Clone, Serialize, Deserialize)]
 #[serde(rename_all = "camelCase")]
 pub struct FilteredDatResult {
-    pub xml: String,
+    /// The filtered DAT or game list, serialized in `output_format`.
+    pub content: String,
+    pub output_format: DatOutputFormat,
     pub filename: String,
     pub header: DatHeader,
     pub games: Vec<DatGame>,
     pub summary: FilterSummary,
 }
 
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub enum DatDiffKind {
+    Added,
+    Removed,
+    Renamed,
+    Rehashed,
+}
+
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct DatDiffEntry {
+    pub kind: DatDiffKind,
+    pub name: String,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub previous_name: Option<String>,
+    /// Serials of the game in the newer DAT, or in the older one for removed games.
+    pub serials: Vec<String>,
+}
+
+#[derive(Debug, Clone, Default, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct DatDiff {
+    pub added: Vec<DatDiffEntry>,
+    pub removed: Vec<DatDiffEntry>,
+    pub renamed: Vec<DatDiffEntry>,
+    pub rehashed: Vec<DatDiffEntry>,
+    pub unchanged: usize,
+}
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub enum DatValidationSeverity {
+    Error,
+    Warning,
+    Info,
+}
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub enum DatValidationRule {
+    MissingHeaderField,
+    DuplicateName,
+    IllegalName,
+    MissingRegion,
+    MissingRomField,
+    DuplicateHash,
+}
+
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct DatValidationFinding {
+    pub rule: DatValidationRule,
+    pub severity: DatValidationSeverity,
+    pub message: String,
+    /// Index into `ParsedDat::games`; header findings have none.
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub game_index: Option<usize>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub game_name: Option<String>,
+}
+
 pub fn parse_dat(xml: &str) -> Result<ParsedDat, String> {
+    parse_dat_with_regions(xml, default_region_table())
+}
+
+pub fn parse_dat_with_regions(xml: &str, regions: &RegionTable) -> Result<ParsedDat, String> {
+    if is_clrmamepro_dat(xml) {
+        return parse_clrmamepro_dat(xml, regions);
+    }
+
     if !datafile_present(xml) {
         return Err("Invalid DAT: missing <datafile> root node.".to_string());
     }
 
     let header = normalize_header(&extract_header_fields(xml)?)?;
-    let version_label = header
-        .version
-        .clone()
-        .or_else(|| header.date.clone());
 
     let blocks = extract_raw_game_blocks(xml);
     let mut games = Vec::with_capacity(blocks.len());
     for raw in blocks {
-        games.push(normalize_game(raw));
+        games.push(normalize_game(raw, regions));
     }
+    assign_disc_set_totals(&mut games);
 
-    let mut available_region_set: HashSet<String> = HashSet::new();
-    for game in &games {
-        if game.regions.is_empty() {
-            available_region_set.insert(DEFAULT_REGION.to_string());
+    Ok(build_parsed_dat(header, games, regions.clone()))
+}
+
+fn assign_disc_set_totals(games: &mut [DatGame]) {
+    let mut disc_set_sizes: HashMap<String, usize> = HashMap::new();
+    for disc_set in games.iter().filter_map(|game| game.disc_set.as_ref()) {
+        *disc_set_sizes.entry(disc_set.key.clone()).or_insert(0) += 1;
+    }
+    for disc_set in games.iter_mut().filter_map(|game| game.disc_set.as_mut()) {
+        disc_set.total = disc_set_sizes[&disc_set.key];
+    }
+}
+
+#[derive(Debug, Clone, PartialEq, Eq)]
+enum ClrMameProToken {
+    Open,
+    Close,
+    Text(String),
+}
+
+#[derive(Debug, Clone)]
+enum ClrMameProValue {
+    Text(String),
+    Block(Vec<(String, ClrMameProValue)>),
+}
+
+fn is_clrmamepro_dat(input: &str) -> bool {
+    static SNIFF_RE: OnceLock<Regex> = OnceLock::new();
+    SNIFF_RE
+        .get_or_init(|| {
+            Regex::new(r"(?i)^\x{FEFF}?\s*(?:clrmamepro|game|machine|resource)\s*\(").unwrap()
+        })
+        .is_match(input)
+}
+
+/// Parses a ClrMamePro text DAT. Games are rebuilt as Logiqx `<game>` elements so
+/// normalization and filtered output work exactly as for XML sources.
+fn parse_clrmamepro_dat(input: &str, regions: &RegionTable) -> Result<ParsedDat, String> {
+    let tokens = tokenize_clrmamepro(input)?;
+    let mut pos = 0usize;
+    let entries = parse_clrmamepro_block(&tokens, &mut pos, false)?;
+
+    let mut raw_header: HashMap<String, String> = HashMap::new();
+    let mut games = Vec::new();
+    for (key, value) in &entries {
+        let ClrMameProValue::Block(block) = value else {
+            continue;
+        };
+        if key == "clrmamepro" {
+            for (field, value) in block {
+                if let ClrMameProValue::Text(text) = value {
+                    raw_header.insert(field.clone(), text.clone());
+                }
+            }
+        } else if CLRMAMEPRO_GAME_BLOCKS.contains(&key.as_str()) {
+            let element = if key == "machine" {
+                DatGameElement::Machine
+            } else {
+                DatGameElement::Game
+            };
+            games.push(normalize_game(&clrmamepro_game_to_xml(element, block), regions));
+        }
+    }
+    assign_disc_set_totals(&mut games);
+
+    Ok(build_parsed_dat(normalize_header(&raw_header)?, games, regions.clone()))
+}
+
+fn tokenize_clrmamepro(input: &str) -> Result<Vec<ClrMameProToken>, String> {
+    let mut tokens = Vec::new();
+    let mut chars = input.chars().peekable();
+    while let Some(&c) = chars.peek() {
+        if c.is_whitespace() || c == '\u{FEFF}' {
+            chars.next();
+        } else if c == '(' {
+            chars.next();
+            tokens.push(ClrMameProToken::Open);
+        } else if c == ')' {
+            chars.next();
+            tokens.push(ClrMameProToken::Close);
+        } else if c == '"' {
+            chars.next();
+            let mut text = String::new();
+            loop {
+                match chars.next() {
+                    Some('"') => break,
+                    Some(ch) => text.push(ch),
+                    None => {
+                        return Err(
+                            "Invalid ClrMamePro DAT: unterminated quoted string.".to_string(),
+                        )
+                    }
+                }
+            }
+            tokens.push(ClrMameProToken::Text(text));
         } else {
-            for region in &game.regions {
-                available_region_set.insert(region.clone());
+            let mut text = String::new();
+            while let Some(&ch) = chars.peek() {
+                if ch.is_whitespace() || matches!(ch, '(' | ')' | '"') {
+                    break;
+                }
+                text.push(ch);
+                chars.next();
+            }
+            tokens.push(ClrMameProToken::Text(text));
+        }
+    }
+    Ok(tokens)
+}
+
+fn parse_clrmamepro_block(
+    tokens: &[ClrMameProToken],
+    pos: &mut usize,
+    nested: bool,
+) -> Result<Vec<(String, ClrMameProValue)>, String> {
+    let mut entries = Vec::new();
+    while *pos < tokens.len() {
+        let key = match &tokens[*pos] {
+            ClrMameProToken::Close if nested => {
+                *pos += 1;
+                return Ok(entries);
+            }
+            ClrMameProToken::Text(key) => key.clone(),
+            _ => return Err("Invalid ClrMamePro DAT: unexpected parenthesis.".to_string()),
+        };
+        *pos += 1;
+        match tokens.get(*pos) {
+            Some(ClrMameProToken::Open) => {
+                *pos += 1;
+                let block = parse_clrmamepro_block(tokens, pos, true)?;
+                entries.push((key, ClrMameProValue::Block(block)));
+            }
+            Some(ClrMameProToken::Text(value)) => {
+                entries.push((key, ClrMameProValue::Text(value.clone())));
+                *pos += 1;
+            }
+            _ => return Err(format!("Invalid ClrMamePro DAT: missing value for \"{key}\".")),
+        }
+    }
+    if nested {
+        return Err("Invalid ClrMamePro DAT: unterminated block.".to_string());
+    }
+    Ok(entries)
+}
+
+fn clrmamepro_game_to_xml(
+    element: DatGameElement,
+    entries: &[(String, ClrMameProValue)],
+) -> String {
+    let mut attributes = String::new();
+    let mut children: Vec<String> = Vec::new();
+    for (key, value) in entries {
+        match value {
+            ClrMameProValue::Block(block) => {
+                let fields: String = block
+                    .iter()
+                    .filter_map(|(field, value)| match value {
+                        ClrMameProValue::Text(text) => {
+                            Some(format!(" {field}=\"{}\"", escape_xml_text(text)))
+                        }
+                        ClrMameProValue::Block(_) => None,
+                    })
+                    .collect();
+                children.push(format!("\t<{key}{fields}/>"));
+            }
+            ClrMameProValue::Text(text) if CLRMAMEPRO_GAME_ATTRIBUTES.contains(&key.as_str()) => {
+                attributes.push_str(&format!(" {key}=\"{}\"", escape_xml_text(text)));
+            }
+            ClrMameProValue::Text(text) => {
+                children.push(format!("\t<{key}>{}</{key}>", escape_xml_text(text)));
             }
         }
     }
+    let tag = element.tag_name();
+    format!("<{tag}{attributes}>\n{}\n</{tag}>", children.join("\n"))
+}
+
+fn build_parsed_dat(
+    header: DatHeader,
+    games: Vec<DatGame>,
+    region_table: RegionTable,
+) -> ParsedDat {
+    let version_label = header
+        .version
+        .clone()
+        .or_else(|| header.date.clone());
+
+    let index = build_dat_index(&games);
 
     let (original_descriptor, normalized_descriptor) =
         derive_descriptors(&header, games.len());
 
-    let mut available_regions: Vec<String> = available_region_set.into_iter().collect();
-    // Match JS `localeCompare` for ASCII region labels (case-insensitive).
-    available_regions.sort_by(|a, b| a.to_lowercase().cmp(&b.to_lowercase()));
+    // Match JS `localeCompare` for ASCII labels (case-insensitive).
+    let sorted_keys = |entries: &HashMap<String, Vec<usize>>| {
+        let mut keys: Vec<String> = entries.keys().cloned().collect();
+        keys.sort_by(|a, b| a.to_lowercase().cmp(&b.to_lowercase()));
+        keys
+    };
+    let available_regions = sorted_keys(&index.regions);
+    let available_languages = sorted_keys(&index.languages);
+    let available_tags = sorted_keys(&index.tags);
+    let available_categories = sorted_keys(&index.categories);
+    let available_serial_prefixes = sorted_keys(&index.serial_prefixes);
 
-    Ok(ParsedDat {
+    ParsedDat {
         header,
         games,
+        index,
         available_regions,
+        available_languages,
+        available_tags,
+        available_categories,
+        available_serial_prefixes,
         descriptor: original_descriptor,
         normalized_descriptor,
         version_label,
         raw_root_extras: HashMap::new(),
-    })
+        region_table,
+    }
+}
+
+fn build_dat_index(games: &[DatGame]) -> DatIndex {
+    let mut index = DatIndex {
+        units: group_disc_sets(games),
+        ..DatIndex::default()
+    };
+    fn add(entries: &mut HashMap<String, Vec<usize>>, key: &str, game_index: usize) {
+        entries.entry(key.to_string()).or_default().push(game_index);
+    }
+    for (game_index, game) in games.iter().enumerate() {
+        for region in effective_regions(game) {
+            add(&mut index.regions, region, game_index);
+        }
+        for language in effective_languages(game) {
+            add(&mut index.languages, language, game_index);
+        }
+        let tag_keys: HashSet<&str> = game.tags.iter().map(|tag| tag.key.as_str()).collect();
+        for key in tag_keys {
+            add(&mut index.tags, key, game_index);
+        }
+        add(&mut index.categories, effective_category(game), game_index);
+        let prefixes: HashSet<String> =
+            game.serials.iter().filter_map(|serial| serial_prefix(serial)).collect();
+        for prefix in prefixes {
+            add(&mut index.serial_prefixes, &prefix, game_index);
+        }
+    }
+    index
+}
+
+fn lookup_index(entries: &HashMap<String, Vec<usize>>, keys: &[String]) -> HashSet<usize> {
+    keys.iter()
+        .filter_map(|key| entries.get(key))
+        .flatten()
+        .copied()
+        .collect()
+}
+
+fn match_region_index(
+    index: &DatIndex,
+    selection: &[String],
+    match_mode: RegionMatchMode,
+) -> Option<HashSet<usize>> {
+    if selection.is_empty() {
+        return None;
+    }
+    let matches = match match_mode {
+        RegionMatchMode::Any => lookup_index(&index.regions, selection),
+        RegionMatchMode::All => {
+            let sets: Vec<HashSet<usize>> = selection
+                .iter()
+                .map(|region| lookup_index(&index.regions, std::slice::from_ref(region)))
+                .collect();
+            sets[0]
+                .iter()
+                .copied()
+                .filter(|game_index| sets[1..].iter().all(|set| set.contains(game_index)))
+                .collect()
+        }
+        RegionMatchMode::Exclusive => {
+            let others: Vec<String> = index
+                .regions
+                .keys()
+                .filter(|region| !selection.contains(region))
+                .cloned()
+                .collect();
+            let others = lookup_index(&index.regions, &others);
+            lookup_index(&index.regions, selection)
+                .into_iter()
+                .filter(|game_index| !others.contains(game_index))
+                .collect()
+        }
+    };
+    Some(matches)
 }
 
 pub fn filter_dat_by_regions(
     parsed: &ParsedDat,
     selected_regions: &[String],
     base_filename: Option<&str>,
+    options: &FilterOptions,
 ) -> Result<FilteredDatResult, String> {
-    let mut canonical_selections: Vec<String> = Vec::new();
-    let mut seen: HashSet<String> = HashSet::new();
-    for value in selected_regions {
-        let normalized = normalize_region_token(Some(value.as_str()))
-            .unwrap_or_else(|| value.clone());
-        if normalized.is_empty() {
-            continue;
-        }
-        if seen.insert(normalized.clone()) {
-            canonical_selections.push(normalized);
-        }
-    }
+    let selection = select_filtered_dat(parsed, selected_regions, base_filename, options)?;
+    let games: Vec<DatGame> = selection.games.into_iter().cloned().collect();
+    let content = options.output_format.write(
+        &selection.header,
+        &games,
+        &selection.parents,
+        &selection.summary,
+    );
+
+    Ok(FilteredDatResult {
+        content,
+        output_format: options.output_format,
+        filename: selection.filename,
+        header: selection.header,
+        games,
+        summary: selection.summary,
+    })
+}
+
+/// Computes the filtered header, filename and summary without serializing the output.
+pub fn preview_filter(
+    parsed: &ParsedDat,
+    selected_regions: &[String],
+    base_filename: Option<&str>,
+    options: &FilterOptions,
+) -> Result<FilterPreview, String> {
+    let selection = select_filtered_dat(parsed, selected_regions, base_filename, options)?;
+    Ok(FilterPreview {
+        filename: selection.filename,
+        header: selection.header,
+        summary: selection.summary,
+    })
+}
+
+struct FilterSelection<'a> {
+    filename: String,
+    header: DatHeader,
+    games: Vec<&'a DatGame>,
+    parents: Vec<Option<String>>,
+    summary: FilterSummary,
+}
 
-    let normalized_selection: HashSet<String> =
-        canonical_selections.iter().cloned().collect();
-    let selection_active = !normalized_selection.is_empty();
+fn select_filtered_dat<'a>(
+    parsed: &'a ParsedDat,
+    selected_regions: &[String],
+    base_filename: Option<&str>,
+    options: &FilterOptions,
+) -> Result<FilterSelection<'a>, String> {
+    let region_table = &parsed.region_table;
+    let canonical_selections = canonicalize_regions(selected_regions, region_table);
+
+    let excluded_regions: Vec<String> =
+        canonicalize_regions(&options.excluded_regions, region_table)
+            .into_iter()
+            .filter(|region| !canonical_selections.contains(region))
+            .collect();
 
-    let games: Vec<DatGame> = if selection_active {
-        parsed
-            .games
+    let selected_languages = dedupe_non_empty(&options.languages);
+    let selected_categories = dedupe_non_empty(&options.categories);
+    let selected_serial_prefixes: Vec<String> = dedupe_non_empty(
+        &options
+            .serial_prefixes
             .iter()
-            .filter(|game| {
-                game.regions
-                    .iter()
-                    .any(|region| normalized_selection.contains(region))
-            })
-            .cloned()
-            .collect()
+            .map(|prefix| prefix.trim().to_uppercase())
+            .collect::<Vec<_>>(),
+    );
+    let serial_pattern = options
+        .serial_pattern
+        .as_deref()
+        .map(str::trim)
+        .filter(|pattern| !pattern.is_empty());
+    let serial_matcher = serial_pattern.map(compile_serial_pattern).transpose()?;
+
+    let index = &parsed.index;
+    let region_matches =
+        match_region_index(index, &canonical_selections, options.match_mode);
+    let excluded_matches = lookup_index(&index.regions, &excluded_regions);
+    let language_matches = (!selected_languages.is_empty())
+        .then(|| lookup_index(&index.languages, &selected_languages));
+    let category_matches = (!selected_categories.is_empty())
+        .then(|| lookup_index(&index.categories, &selected_categories));
+    let serial_prefix_matches = (!selected_serial_prefixes.is_empty())
+        .then(|| lookup_index(&index.serial_prefixes, &selected_serial_prefixes));
+    let unit_matches = |unit: &[usize], matches: Option<&HashSet<usize>>| {
+        matches.map_or(true, |matches| {
+            unit.iter().any(|game_index| matches.contains(game_index))
+        })
+    };
+
+    let units: Vec<Vec<&DatGame>> = index
+        .units
+        .iter()
+        .map(|unit| unit.iter().map(|&game_index| &parsed.games[game_index]).collect())
+        .collect();
+    let selection_matches: Vec<Vec<&DatGame>> = units
+        .iter()
+        .zip(&index.units)
+        .filter(|(_, unit)| {
+            unit_matches(unit, region_matches.as_ref())
+                && !unit_matches(unit, Some(&excluded_matches))
+                && unit_matches(unit, language_matches.as_ref())
+                && unit_matches(unit, category_matches.as_ref())
+                && unit_matches(unit, serial_prefix_matches.as_ref())
+                && serial_matcher.as_ref().map_or(true, |matcher| {
+                    unit.iter().any(|&game_index| {
+                        parsed.games[game_index]
+                            .serials
+                            .iter()
+                            .any(|serial| matcher.is_match(serial))
+                    })
+                })
+        })
+        .map(|(games, _)| games.clone())
+        .collect();
+
+    let included_tags = dedupe_non_empty(&options.include_tags);
+    let excluded_tags = dedupe_non_empty(&options.exclude_tags);
+    let (tag_matches, tag_exclusion_counts) =
+        filter_by_tags(&selection_matches, &included_tags, &excluded_tags);
+
+    let include_title_matchers = compile_title_patterns(&options.include_titles)?;
+    let exclude_title_matchers = compile_title_patterns(&options.exclude_titles)?;
+    let tag_match_set: HashSet<*const DatGame> =
+        tag_matches.iter().map(|unit| unit[0] as *const DatGame).collect();
+    let title_includes: Vec<Vec<&DatGame>> = units
+        .iter()
+        .filter(|unit| {
+            !tag_match_set.contains(&(unit[0] as *const DatGame))
+                && unit_matches_title(unit, &include_title_matchers)
+        })
+        .cloned()
+        .collect();
+    let title_include_set: HashSet<*const DatGame> =
+        title_includes.iter().map(|unit| unit[0] as *const DatGame).collect();
+    let title_pool: Vec<Vec<&DatGame>> = units
+        .iter()
+        .filter(|unit| {
+            let first = unit[0] as *const DatGame;
+            tag_match_set.contains(&first) || title_include_set.contains(&first)
+        })
+        .cloned()
+        .collect();
+    let title_matches: Vec<Vec<&DatGame>> = title_pool
+        .iter()
+        .filter(|unit| !unit_matches_title(unit, &exclude_title_matchers))
+        .cloned()
+        .collect();
+    let size_matches: Vec<Vec<&DatGame>> = title_matches
+        .iter()
+        .filter(|unit| unit_within_size(unit, options.min_size, options.max_size))
+        .cloned()
+        .collect();
+
+    let revision_matches = if options.latest_revision_only {
+        keep_latest_revisions(&size_matches, region_table)
+    } else {
+        size_matches.clone()
+    };
+
+    let region_priority = match &options.region_priority {
+        Some(priority) => canonicalize_regions(priority, region_table),
+        None => DEFAULT_REGION_PRIORITY.iter().map(|r| r.to_string()).collect(),
+    };
+    let kept_units = if options.one_game_one_rom {
+        collapse_to_one_game_per_title(&revision_matches, &region_priority, region_table)
     } else {
-        parsed.games.clone()
+        revision_matches.clone()
     };
+    let kept_games: HashSet<*const DatGame> = kept_units
+        .iter()
+        .flatten()
+        .map(|game| *game as *const DatGame)
+        .collect();
+    let games: Vec<&DatGame> = parsed
+        .games
+        .iter()
+        .filter(|game| kept_games.contains(&(*game as *const DatGame)))
+        .collect();
+    let multi_disc_units: Vec<&Vec<&DatGame>> =
+        kept_units.iter().filter(|unit| unit.len() > 1).collect();
 
     if games.is_empty() {
         return Err("No games match the selected region filters.".to_string());
@@ -261,1157 +1125,3695 @@ pub fn filter_dat_by_regions(
         parsed.normalized_descriptor.clone()
     };
 
-    let header = build_filtered_header(
+    let region_groups = resolve_region_groups(&parsed.available_regions, &options.region_groups);
+    let region_label = create_region_label(
+        &canonical_selections,
+        options.match_mode,
+        &excluded_regions,
+        &region_groups,
+    );
+    let default_header = build_filtered_header(
         &parsed.header,
         games.len(),
-        &canonical_selections,
+        &region_label,
         &descriptor_original,
         parsed.version_label.as_deref(),
     );
+    let count = games.len().to_string();
+    let version = resolve_header_version(&parsed.header, parsed.version_label.as_deref());
+    let date = fallback_iso_date();
+    let header = apply_header_template(
+        &default_header,
+        &options.header_template,
+        &[
+            ("system", parsed.header.name.as_str()),
+            ("regions", region_label.as_str()),
+            ("count", count.as_str()),
+            ("version", version.as_str()),
+            ("descriptor", descriptor_original.as_str()),
+            ("date", date.as_str()),
+        ],
+    );
 
-    let mut xml = build_filtered_xml(&header, &games);
-    xml = xml.replace("&apos;", "'");
-    xml = Regex::new(r"\r?\n")
-        .unwrap()
-        .replace_all(&xml, "\r\n")
-        .into_owned();
-
-    let filename = derive_filtered_filename(
-        base_filename,
-        header.description.as_deref(),
-        &header.name,
-        &descriptor_normalized,
-        games.len(),
-        parsed.version_label.as_deref(),
-    );
+    let parents = match options.export_mode {
+        DatExportMode::Flat => vec![None; games.len()],
+        DatExportMode::ParentClone => assign_parents(&games, &region_priority, region_table),
+    };
 
     let summary = FilterSummary {
         initial_games: parsed.games.len(),
         filtered_games: games.len(),
         removed_games: parsed.games.len() - games.len(),
-        region_label: create_region_label(&canonical_selections),
+        collapsed_games: count_games(&revision_matches) - games.len(),
+        superseded_revisions: count_games(&size_matches) - count_games(&revision_matches),
+        multi_disc_sets: multi_disc_units.len(),
+        multi_disc_games: multi_disc_units.iter().map(|unit| unit.len()).sum(),
+        title_included_games: count_games(&title_includes),
+        title_excluded_games: count_games(&title_pool) - count_games(&title_matches),
+        size_excluded_games: count_games(&title_matches) - count_games(&size_matches),
+        initial_size: parsed.games.iter().map(|game| game.total_size).sum(),
+        filtered_size: games.iter().map(|game| game.total_size).sum(),
+        export_mode: options.export_mode,
+        clone_games: parents.iter().filter(|parent| parent.is_some()).count(),
+        region_label,
         selected_regions: canonical_selections,
+        excluded_regions,
+        match_mode: options.match_mode,
+        selected_languages,
+        selected_categories,
+        selected_serial_prefixes,
+        serial_pattern: serial_pattern.map(str::to_string),
+        included_tags,
+        excluded_tags,
+        tag_exclusion_counts,
         descriptor: descriptor_original,
         normalized_descriptor: descriptor_normalized,
         version_label: parsed.version_label.clone(),
     };
 
-    Ok(FilteredDatResult {
-        xml,
+    let extensions = options.output_format.extensions();
+    let default_filename = derive_filtered_filename(
+        base_filename,
+        default_header.description.as_deref(),
+        &default_header.name,
+        &summary.normalized_descriptor,
+        games.len(),
+        parsed.version_label.as_deref(),
+        extensions,
+    );
+    let filename = options
+        .filename_template
+        .as_deref()
+        .map(str::trim)
+        .filter(|template| !template.is_empty())
+        .and_then(|template| {
+            let default_stem = default_filename
+                .rfind('.')
+                .map_or(default_filename.as_str(), |dot| &default_filename[..dot]);
+            render_filename_template(
+                template,
+                &[
+                    ("default", default_stem),
+                    ("slug", options.system_slug.as_deref().unwrap_or("")),
+                    ("system", parsed.header.name.as_str()),
+                    ("regions", summary.region_label.as_str()),
+                    ("count", count.as_str()),
+                    ("version", version.as_str()),
+                    ("descriptor", summary.normalized_descriptor.as_str()),
+                    ("date", date.as_str()),
+                ],
+                extensions,
+            )
+        })
+        .unwrap_or(default_filename);
+
+    Ok(FilterSelection {
         filename,
         header,
         games,
+        parents,
         summary,
     })
 }
 
-fn datafile_present(xml: &str) -> bool {
-    static RE: OnceLock<Regex> = OnceLock::new();
-    let re = RE.get_or_init(|| Regex::new(r"<datafile[\s/>]").unwrap());
-    re.is_match(xml)
-}
-
-fn extract_header_fields(xml: &str) -> Result<HashMap<String, String>, String> {
-    static HEADER_RE: OnceLock<Regex> = OnceLock::new();
-    static OPEN_RE: OnceLock<Regex> = OnceLock::new();
+/// Combines several DATs under a synthesized header, keeping the first game of each
+/// ROM hash set, then applies the usual filters.
+pub fn merge_dats(
+    dats: &[ParsedDat],
+    selected_regions: &[String],
+    name: Option<&str>,
+    options: &FilterOptions,
+) -> Result<FilteredDatResult, String> {
+    if dats.is_empty() {
+        return Err("Choose at least one DAT to merge.".to_string());
+    }
 
-    let header_re =
-        HEADER_RE.get_or_init(|| Regex::new(r"(?s)<header\b[^>]*>(.*?)</header>").unwrap());
-    let open_re =
-        OPEN_RE.get_or_init(|| Regex::new(r"<([A-Za-z_][\w.-]*)\b[^>]*>").unwrap());
+    let mut seen_signatures: HashSet<String> = HashSet::new();
+    let mut games: Vec<DatGame> = Vec::new();
+    for (index, dat) in dats.iter().enumerate() {
+        for game in &dat.games {
+            let signature = rom_hash_signature(game);
+            if !signature.is_empty() && !seen_signatures.insert(signature) {
+                continue;
+            }
+            let mut game = game.clone();
+            // Keep disc sets from different systems apart even when their titles match.
+            if let Some(disc_set) = game.disc_set.as_mut() {
+                disc_set.key = format!("{index}:{}", disc_set.key);
+            }
+            games.push(game);
+        }
+    }
 
-    let Some(caps) = header_re.captures(xml) else {
-        return Ok(HashMap::new());
+    let name = name
+        .map(str::trim)
+        .filter(|value| !value.is_empty())
+        .map(str::to_string)
+        .unwrap_or_else(|| {
+            dats.iter()
+                .map(|dat| dat.header.name.as_str())
+                .collect::<Vec<_>>()
+                .join(" + ")
+        });
+    let version = dats
+        .iter()
+        .filter_map(|dat| dat.version_label.clone())
+        .max()
+        .unwrap_or_else(fallback_iso_date);
+    let authors = dedupe_non_empty(
+        &dats
+            .iter()
+            .filter_map(|dat| dat.header.author.clone())
+            .collect::<Vec<_>>(),
+    );
+    let header = DatHeader {
+        description: Some(format!("{name} - Datfile ({}) ({version})", games.len())),
+        name,
+        version: Some(version),
+        date: None,
+        author: if authors.is_empty() {
+            None
+        } else {
+            Some(authors.join(", "))
+        },
+        homepage: None,
+        url: None,
+        extra: HashMap::new(),
     };
-    let body = caps.get(1).map(|m| m.as_str()).unwrap_or("");
 
-    let mut fields = HashMap::new();
-    let mut search_from = 0usize;
-    while let Some(caps) = open_re.captures(&body[search_from..]) {
-        let full = caps.get(0).unwrap();
-        let key = caps.get(1).unwrap().as_str();
-        let content_start = search_from + full.end();
-        let close_tag = format!("</{key}>");
-        if let Some(close_rel) = body[content_start..].find(&close_tag) {
-            let value = decode_basic_entities(body[content_start..content_start + close_rel].trim());
-            fields.insert(key.to_string(), value);
-            search_from = content_start + close_rel + close_tag.len();
-        } else {
-            search_from = content_start;
-        }
-    }
-    Ok(fields)
+    let merged = build_parsed_dat(header, games, dats[0].region_table.clone());
+    filter_dat_by_regions(&merged, selected_regions, None, options)
 }
 
-fn extract_raw_game_blocks(xml: &str) -> Vec<&str> {
-    let mut blocks = Vec::new();
-    let mut from = 0usize;
+/// Matches games by name first (same name, different hashes = rehashed), then pairs the
+/// leftovers by ROM hashes (same hashes, different name = renamed).
+pub fn diff_dats(a: &ParsedDat, b: &ParsedDat) -> DatDiff {
+    let mut diff = DatDiff::default();
+    let previous_signatures: Vec<String> = a.games.iter().map(rom_hash_signature).collect();
+    let mut previous_by_name: HashMap<&str, usize> = HashMap::new();
+    for (index, game) in a.games.iter().enumerate() {
+        previous_by_name.entry(game.name.as_str()).or_insert(index);
+    }
 
-    while let Some(start) = find_open_tag(xml, from, "<game") {
-        let Some(open_end) = xml[start..].find('>') else {
-            break;
-        };
-        let gt = start + open_end;
-        if is_self_closing_tag(&xml[start..=gt]) {
-            blocks.push(&xml[start..=gt]);
-            from = gt + 1;
-            continue;
+    let mut matched = vec![false; a.games.len()];
+    let mut unmatched_next: Vec<(&DatGame, String)> = Vec::new();
+    for game in &b.games {
+        let signature = rom_hash_signature(game);
+        match previous_by_name.get(game.name.as_str()) {
+            Some(&index) if !matched[index] => {
+                matched[index] = true;
+                if previous_signatures[index] == signature {
+                    diff.unchanged += 1;
+                } else {
+                    diff.rehashed.push(DatDiffEntry {
+                        kind: DatDiffKind::Rehashed,
+                        name: game.name.clone(),
+                        previous_name: None,
+                        serials: game.serials.clone(),
+                    });
+                }
+            }
+            _ => unmatched_next.push((game, signature)),
         }
+    }
 
-        let Some(close_rel) = xml[gt + 1..].find("</game>") else {
-            break;
-        };
-        let end = gt + 1 + close_rel + "</game>".len();
-        blocks.push(&xml[start..end]);
-        from = end;
+    let mut previous_by_signature: HashMap<&str, Vec<usize>> = HashMap::new();
+    for (index, signature) in previous_signatures.iter().enumerate() {
+        if !matched[index] && !signature.is_empty() {
+            previous_by_signature
+                .entry(signature.as_str())
+                .or_default()
+                .push(index);
+        }
+    }
+    for bucket in previous_by_signature.values_mut() {
+        bucket.reverse();
     }
 
-    blocks
-}
+    for (game, signature) in unmatched_next {
+        let previous = previous_by_signature
+            .get_mut(signature.as_str())
+            .and_then(|bucket| bucket.pop());
+        match previous {
+            Some(index) => {
+                matched[index] = true;
+                diff.renamed.push(DatDiffEntry {
+                    kind: DatDiffKind::Renamed,
+                    name: game.name.clone(),
+                    previous_name: Some(a.games[index].name.clone()),
+                    serials: game.serials.clone(),
+                });
+            }
+            None => diff.added.push(DatDiffEntry {
+                kind: DatDiffKind::Added,
+                name: game.name.clone(),
+                previous_name: None,
+                serials: game.serials.clone(),
+            }),
+        }
+    }
 
-fn find_open_tag(haystack: &str, mut from: usize, needle: &str) -> Option<usize> {
-    while from < haystack.len() {
-        let rel = haystack[from..].find(needle)?;
-        let pos = from + rel;
-        let name_end = pos + needle.len();
-        if tag_name_ends_at(haystack, name_end) {
-            return Some(pos);
+    for (index, game) in a.games.iter().enumerate() {
+        if !matched[index] {
+            diff.removed.push(DatDiffEntry {
+                kind: DatDiffKind::Removed,
+                name: game.name.clone(),
+                previous_name: None,
+                serials: game.serials.clone(),
+            });
         }
-        from = name_end;
     }
-    None
+
+    diff
 }
 
-fn tag_name_ends_at(haystack: &str, name_end: usize) -> bool {
-    match haystack[name_end..].chars().next() {
-        None => true,
-        Some(c) => !(c.is_ascii_alphanumeric() || c == '_' || c == '-' || c == '.'),
+pub fn validate_dat(parsed: &ParsedDat) -> Vec<DatValidationFinding> {
+    let mut findings: Vec<DatValidationFinding> = Vec::new();
+    for field in LOGIQX_REQUIRED_HEADER_FIELDS {
+        let value = match field {
+            "name" => Some(parsed.header.name.as_str()),
+            "description" => parsed.header.description.as_deref(),
+            "version" => parsed.header.version.as_deref(),
+            _ => parsed.header.author.as_deref(),
+        };
+        if value.map_or(true, |value| value.trim().is_empty()) {
+            findings.push(DatValidationFinding {
+                rule: DatValidationRule::MissingHeaderField,
+                severity: DatValidationSeverity::Warning,
+                message: format!("Header has no <{field}>, which the Logiqx DTD requires."),
+                game_index: None,
+                game_name: None,
+            });
+        }
     }
-}
 
-fn is_self_closing_tag(open_through_gt: &str) -> bool {
-    open_through_gt
-        .trim_end_matches('>')
-        .trim_end()
-        .ends_with('/')
-}
+    let mut first_by_name: HashMap<&str, usize> = HashMap::new();
+    let mut first_by_hash: HashMap<String, usize> = HashMap::new();
+    for (game_index, game) in parsed.games.iter().enumerate() {
+        let mut report = |rule, severity, message: String| {
+            findings.push(DatValidationFinding {
+                rule,
+                severity,
+                message,
+                game_index: Some(game_index),
+                game_name: Some(game.name.clone()),
+            });
+        };
 
-fn normalize_header(raw: &HashMap<String, String>) -> Result<DatHeader, String> {
-    let mut extra = HashMap::new();
-    let mut header = DatHeader {
-        name: String::new(),
-        description: None,
-        version: None,
-        date: None,
-        author: None,
-        homepage: None,
-        url: None,
-        extra: HashMap::new(),
-    };
+        match first_by_name.get(game.name.as_str()) {
+            Some(first_index) => report(
+                DatValidationRule::DuplicateName,
+                DatValidationSeverity::Error,
+                format!("Game name is already used by entry {}.", first_index + 1),
+            ),
+            None => {
+                first_by_name.insert(game.name.as_str(), game_index);
+            }
+        }
 
-    for (key, value) in raw {
-        let text_value = value.clone();
-        match key.as_str() {
-            "name" => header.name = text_value,
-            "description" => header.description = non_empty(text_value),
-            "version" => header.version = non_empty(text_value),
-            "date" => header.date = non_empty(text_value),
-            "author" => header.author = non_empty(text_value),
-            "homepage" => header.homepage = non_empty(text_value),
-            "url" => header.url = non_empty(text_value),
-            _ => {
-                extra.insert(key.clone(), text_value);
+        let name_problems = windows_name_problems(&game.name);
+        if !name_problems.is_empty() {
+            report(
+                DatValidationRule::IllegalName,
+                DatValidationSeverity::Error,
+                format!("Game name {}.", join_problems(&name_problems)),
+            );
+        }
+
+        if game.regions.is_empty() {
+            report(
+                DatValidationRule::MissingRegion,
+                DatValidationSeverity::Info,
+                format!("Game name has no region, so it is filtered as {DEFAULT_REGION}."),
+            );
+        }
+
+        let mut shared_hashes: Vec<(usize, usize)> = Vec::new();
+        for (rom_index, rom) in game_roms(game).iter().enumerate() {
+            let rom_name = rom
+                .attributes
+                .get("name")
+                .filter(|name| !name.is_empty())
+                .cloned()
+                .unwrap_or_else(|| format!("#{}", rom_index + 1));
+            let mut rom_problems: Vec<String> = Vec::new();
+            for segment in rom_name.split(|c| c == '/' || c == '\\') {
+                for problem in windows_name_problems(segment) {
+                    if !rom_problems.contains(&problem) {
+                        rom_problems.push(problem);
+                    }
+                }
+            }
+            if !rom_problems.is_empty() {
+                report(
+                    DatValidationRule::IllegalName,
+                    DatValidationSeverity::Error,
+                    format!("ROM \"{rom_name}\" {}.", join_problems(&rom_problems)),
+                );
+            }
+
+            let missing: Vec<&str> = ROM_REQUIRED_FIELDS
+                .iter()
+                .copied()
+                .filter(|field| rom.attributes.get(*field).map_or(true, |value| value.is_empty()))
+                .collect();
+            if !missing.is_empty() {
+                report(
+                    DatValidationRule::MissingRomField,
+                    DatValidationSeverity::Warning,
+                    format!("ROM \"{rom_name}\" has no {}.", missing.join(", ")),
+                );
+            }
+
+            let Some(hash_key) = rom_hash_key(rom) else {
+                continue;
+            };
+            match first_by_hash.get(&hash_key) {
+                None => {
+                    first_by_hash.insert(hash_key, game_index);
+                }
+                Some(&owner) if owner != game_index => {
+                    match shared_hashes.iter_mut().find(|(index, _)| *index == owner) {
+                        Some((_, count)) => *count += 1,
+                        None => shared_hashes.push((owner, 1)),
+                    }
+                }
+                Some(_) => {}
             }
         }
-    }
-    header.extra = extra;
 
-    if header.name.is_empty() {
-        return Err("Invalid DAT header: missing <name>.".to_string());
+        for (owner, count) in shared_hashes {
+            let noun = if count == 1 { "ROM hash" } else { "ROM hashes" };
+            report(
+                DatValidationRule::DuplicateHash,
+                DatValidationSeverity::Warning,
+                format!("Shares {count} {noun} with \"{}\".", parsed.games[owner].name),
+            );
+        }
     }
 
-    Ok(header)
+    findings
 }
 
-fn normalize_game(raw_xml: &str) -> DatGame {
-    let name = extract_game_name(raw_xml);
-    let description = extract_child_text(raw_xml, "description");
-    let category = extract_child_text(raw_xml, "category");
-    let mut regions = extract_regions(Some(&name))
-        .or_else(|| extract_regions(description.as_deref()));
-    let roms = if regions.is_some() {
-        Vec::new()
-    } else {
-        extract_roms(raw_xml)
-    };
-    if regions.is_none() {
-        regions = roms
-            .first()
-            .and_then(|rom| rom.attributes.get("name"))
-            .and_then(|n| extract_regions(Some(n)));
+fn rom_hash_key(rom: &DatRom) -> Option<String> {
+    let attribute = |key: &str| rom.attributes.get(key).filter(|value| !value.is_empty());
+    let size = attribute("size");
+    // Empty files share every hash, so they say nothing about duplicated dumps.
+    if size.map(String::as_str) == Some("0") {
+        return None;
     }
-
-    DatGame {
-        name,
-        description,
-        category,
-        roms,
-        regions: regions.unwrap_or_default(),
-        raw_xml: raw_xml.to_string(),
+    if let Some(sha1) = attribute("sha1") {
+        return Some(format!("sha1:{}", sha1.to_lowercase()));
+    }
+    if let Some(md5) = attribute("md5") {
+        return Some(format!("md5:{}", md5.to_lowercase()));
+    }
+    match (attribute("crc"), size) {
+        (Some(crc), Some(size)) => Some(format!("crc:{}:{size}", crc.to_lowercase())),
+        _ => None,
     }
 }
 
-fn extract_game_name(raw_xml: &str) -> String {
-    if let Some(gt) = raw_xml.find('>') {
-        if let Some(value) = quoted_attr(&raw_xml[..=gt], "name") {
-            return decode_basic_entities(&value);
+fn windows_name_problems(name: &str) -> Vec<String> {
+    static RESERVED_RE: OnceLock<Regex> = OnceLock::new();
+    let reserved = RESERVED_RE.get_or_init(|| {
+        Regex::new(r"(?i)^(?:con|prn|aux|nul|com[1-9]|lpt[1-9])(?:\..*)?$").unwrap()
+    });
+
+    let mut problems = Vec::new();
+    let mut illegal: Vec<char> = Vec::new();
+    for c in name.chars() {
+        if (c < ' ' || WINDOWS_ILLEGAL_CHARACTERS.contains(&c)) && !illegal.contains(&c) {
+            illegal.push(c);
         }
     }
-
-    extract_child_text(raw_xml, "name").unwrap_or_default()
+    if !illegal.is_empty() {
+        let listed: Vec<String> = illegal
+            .iter()
+            .map(|&c| {
+                if c < ' ' {
+                    format!("U+{:04X}", c as u32)
+                } else {
+                    format!("\"{c}\"")
+                }
+            })
+            .collect();
+        problems.push(format!("contains {}", listed.join(" ")));
+    }
+    if name.ends_with('.') || name.ends_with(' ') {
+        problems.push("ends with a dot or space".to_string());
+    }
+    if reserved.is_match(name) {
+        problems.push("is a reserved Windows device name".to_string());
+    }
+    problems
 }
 
-fn extract_child_text(raw_xml: &str, tag: &str) -> Option<String> {
-    match tag {
-        "description" => extract_tagged_text(raw_xml, "<description", "</description>"),
-        "category" => extract_tagged_text(raw_xml, "<category", "</category>"),
-        "name" => extract_tagged_text(raw_xml, "<name", "</name>"),
-        _ => {
-            let open = format!("<{tag}");
-            let close = format!("</{tag}>");
-            extract_tagged_text(raw_xml, &open, &close)
-        }
+fn join_problems(problems: &[String]) -> String {
+    match problems.split_last() {
+        Some((last, rest)) if !rest.is_empty() => format!("{} and {last}", rest.join(", ")),
+        _ => problems.join(""),
     }
 }
 
-fn extract_tagged_text(raw_xml: &str, open_needle: &str, close_needle: &str) -> Option<String> {
-    let start = find_open_tag(raw_xml, 0, open_needle)?;
-    let rel_gt = raw_xml[start..].find('>')?;
-    let gt = start + rel_gt;
-    if is_self_closing_tag(&raw_xml[start..=gt]) {
-        return None;
+pub fn game_roms(game: &DatGame) -> Cow<'_, [DatRom]> {
+    // `normalize_game` only keeps ROMs when it needs them for regions.
+    if game.roms.is_empty() {
+        Cow::Owned(extract_roms(&game.raw_xml))
+    } else {
+        Cow::Borrowed(&game.roms)
     }
-    let close_rel = raw_xml[gt + 1..].find(close_needle)?;
-    let value = decode_basic_entities(raw_xml[gt + 1..gt + 1 + close_rel].trim());
-    non_empty(value)
 }
 
-fn extract_roms(raw_xml: &str) -> Vec<DatRom> {
-    let mut roms = Vec::new();
-    let mut from = 0usize;
+fn rom_hash_signature(game: &DatGame) -> String {
+    let mut hashes: Vec<String> = game_roms(game)
+        .iter()
+        .map(|rom| {
+            ["crc", "md5", "sha1"]
+                .iter()
+                .map(|key| {
+                    rom.attributes
+                        .get(*key)
+                        .map(|value| value.to_lowercase())
+                        .unwrap_or_default()
+                })
+                .collect::<Vec<_>>()
+                .join(":")
+        })
+        .filter(|hash| hash != "::")
+        .collect();
+    hashes.sort();
+    hashes.join("|")
+}
 
-    while let Some(start) = find_open_tag(raw_xml, from, "<rom") {
-        let Some(rel_gt) = raw_xml[start..].find('>') else {
-            break;
+fn dedupe_non_empty(values: &[String]) -> Vec<String> {
+    let mut result: Vec<String> = Vec::new();
+    for value in values {
+        if !value.is_empty() && !result.contains(value) {
+            result.push(value.clone());
+        }
+    }
+    result
+}
+
+/// Compiles a title pattern: `/regex/flags`, a `*`/`?` glob matched against the whole
+/// name, or otherwise a case-insensitive substring.
+fn compile_title_pattern(pattern: &str) -> Result<Regex, String> {
+    static LITERAL_RE: OnceLock<Regex> = OnceLock::new();
+    let literal_re = LITERAL_RE.get_or_init(|| Regex::new(r"^/(.+)/([a-z]*)$").unwrap());
+
+    let trimmed = pattern.trim();
+    if let Some(caps) = literal_re.captures(trimmed) {
+        let mut inline_flags = String::new();
+        for flag in caps[2].chars() {
+            match flag {
+                'i' | 'm' | 's' => inline_flags.push(flag),
+                'd' | 'g' | 'u' | 'v' | 'y' => {}
+                _ => return Err(format!("Invalid regular expression flags: '{}'", &caps[2])),
+            }
+        }
+        let source = if inline_flags.is_empty() {
+            caps[1].to_string()
+        } else {
+            format!("(?{}){}", inline_flags, &caps[1])
         };
-        let gt = start + rel_gt;
-        let attr_blob = raw_xml[start + "<rom".len()..gt]
-            .trim()
-            .trim_end_matches('/');
-        roms.push(DatRom {
-            attributes: parse_quoted_attrs(attr_blob),
+        return Regex::new(&source).map_err(|err| {
+            format!("Invalid regular expression: /{}/: {}", &caps[1], describe_regex_error(&err))
         });
-        from = gt + 1;
     }
+    if trimmed.contains(['*', '?']) {
+        let source: String = trimmed
+            .chars()
+            .map(|c| match c {
+                '*' => ".*".to_string(),
+                '?' => ".".to_string(),
+                _ => regex::escape(&c.to_string()),
+            })
+            .collect();
+        return Regex::new(&format!("(?i)^{}$", source)).map_err(|err| err.to_string());
+    }
+    Regex::new(&format!("(?i){}", regex::escape(trimmed))).map_err(|err| err.to_string())
+}
 
-    roms
+fn compile_serial_pattern(pattern: &str) -> Result<Regex, String> {
+    RegexBuilder::new(pattern.trim())
+        .case_insensitive(true)
+        .build()
+        .map_err(|err| {
+            format!(
+                "Invalid regular expression: /{}/: {}",
+                pattern.trim(),
+                describe_regex_error(&err)
+            )
+        })
 }
 
-fn quoted_attr(blob: &str, name: &str) -> Option<String> {
-    let mut from = 0usize;
-    while let Some(rel) = blob[from..].find(name) {
-        let pos = from + rel;
-        let end = pos + name.len();
-        let prev_ok = pos == 0 || {
-            let prev = blob.as_bytes()[pos - 1];
-            prev.is_ascii_whitespace() || prev == b'<'
-        };
-        let next_ok = tag_name_ends_at(blob, end);
-        if prev_ok && next_ok {
-            let rest = blob[end..].trim_start();
-            if let Some(rest) = rest.strip_prefix('=') {
-                let rest = rest.trim_start();
-                if let Some(rest) = rest.strip_prefix('"') {
-                    let close = rest.find('"')?;
-                    return Some(rest[..close].to_string());
-                }
+/// Returns why `pattern` does not compile as a serial pattern, or `None` when it does.
+pub fn validate_serial_pattern(pattern: &str) -> Option<String> {
+    compile_serial_pattern(pattern).err()
+}
+
+/// Returns why `pattern` does not compile as a title pattern, or `None` when it does.
+pub fn validate_title_pattern(pattern: &str) -> Option<String> {
+    compile_title_pattern(pattern).err()
+}
+
+/// The `regex` crate reports syntax errors over several lines with a caret diagram; the last
+/// line names the problem.
+fn describe_regex_error(err: &regex::Error) -> String {
+    let message = err.to_string();
+    let last = message.lines().last().unwrap_or_default().trim();
+    last.strip_prefix("error: ").unwrap_or(last).to_string()
+}
+
+/// Fails on the first pattern that does not compile rather than filtering without it.
+fn compile_title_patterns(patterns: &[String]) -> Result<Vec<Regex>, String> {
+    patterns
+        .iter()
+        .filter(|pattern| !pattern.trim().is_empty())
+        .map(|pattern| compile_title_pattern(pattern))
+        .collect()
+}
+
+fn unit_matches_title(unit: &[&DatGame], matchers: &[Regex]) -> bool {
+    unit.iter()
+        .any(|game| matchers.iter().any(|matcher| matcher.is_match(&game.name)))
+}
+
+/// Groups the discs of each multi-disc set into one unit, in order of first appearance;
+/// every other game forms a unit of its own.
+fn group_disc_sets(games: &[DatGame]) -> Vec<Vec<usize>> {
+    let mut units: Vec<Vec<usize>> = Vec::new();
+    let mut unit_by_set_key: HashMap<&str, usize> = HashMap::new();
+    for (game_index, game) in games.iter().enumerate() {
+        if let Some(disc_set) = &game.disc_set {
+            if let Some(&index) = unit_by_set_key.get(disc_set.key.as_str()) {
+                units[index].push(game_index);
+                continue;
             }
+            unit_by_set_key.insert(disc_set.key.as_str(), units.len());
         }
-        from = end;
+        units.push(vec![game_index]);
     }
-    None
+    units
 }
 
-fn parse_quoted_attrs(blob: &str) -> HashMap<String, String> {
-    let bytes = blob.as_bytes();
-    let mut attributes = HashMap::new();
-    let mut i = 0usize;
-
-    while i < bytes.len() {
-        while i < bytes.len() && bytes[i].is_ascii_whitespace() {
-            i += 1;
-        }
-        if i >= bytes.len() {
-            break;
-        }
+fn count_games(units: &[Vec<&DatGame>]) -> usize {
+    units.iter().map(|unit| unit.len()).sum()
+}
 
-        let name_start = i;
-        if !(bytes[i].is_ascii_alphabetic() || bytes[i] == b'_') {
-            i += 1;
-            continue;
-        }
-        i += 1;
-        while i < bytes.len()
-            && (bytes[i].is_ascii_alphanumeric() || matches!(bytes[i], b'_' | b'.' | b'-'))
-        {
-            i += 1;
-        }
-        let name = &blob[name_start..i];
+fn unit_within_size(unit: &[&DatGame], min_size: Option<u64>, max_size: Option<u64>) -> bool {
+    let size: u64 = unit.iter().map(|game| game.total_size).sum();
+    min_size.map_or(true, |min| size >= min) && max_size.map_or(true, |max| size <= max)
+}
 
-        while i < bytes.len() && bytes[i].is_ascii_whitespace() {
-            i += 1;
-        }
-        if i >= bytes.len() || bytes[i] != b'=' {
-            continue;
-        }
-        i += 1;
-        while i < bytes.len() && bytes[i].is_ascii_whitespace() {
-            i += 1;
-        }
-        if i >= bytes.len() || bytes[i] != b'"' {
-            continue;
-        }
-        i += 1;
-        let value_start = i;
-        while i < bytes.len() && bytes[i] != b'"' {
-            i += 1;
-        }
-        if i >= bytes.len() {
-            break;
-        }
-        attributes.insert(
-            name.to_string(),
-            decode_basic_entities(&blob[value_start..i]),
-        );
-        i += 1;
+fn filter_by_tags<'a>(
+    units: &[Vec<&'a DatGame>],
+    included_tags: &[String],
+    excluded_tags: &[String],
+) -> (Vec<Vec<&'a DatGame>>, HashMap<String, usize>) {
+    let mut exclusion_counts: HashMap<String, usize> =
+        excluded_tags.iter().map(|tag| (tag.clone(), 0)).collect();
+    if included_tags.is_empty() && excluded_tags.is_empty() {
+        return (units.to_vec(), exclusion_counts);
     }
 
-    attributes
+    let kept = units
+        .iter()
+        .filter(|unit| {
+            let has_tag = |key: &String| {
+                unit.iter()
+                    .any(|game| game.tags.iter().any(|tag| &tag.key == key))
+            };
+            if !included_tags.is_empty() && !included_tags.iter().any(has_tag) {
+                return false;
+            }
+            let mut dropped = false;
+            for key in excluded_tags {
+                if has_tag(key) {
+                    *exclusion_counts.get_mut(key).unwrap() += unit.len();
+                    dropped = true;
+                }
+            }
+            !dropped
+        })
+        .cloned()
+        .collect();
+
+    (kept, exclusion_counts)
 }
 
-fn extract_regions(input: Option<&str>) -> Option<Vec<String>> {
-    let input = input?;
-    if input.is_empty() {
-        return None;
+fn effective_regions(game: &DatGame) -> Vec<&str> {
+    if game.regions.is_empty() {
+        vec![DEFAULT_REGION]
+    } else {
+        game.regions.iter().map(String::as_str).collect()
     }
+}
 
-    static PAREN_RE: OnceLock<Regex> = OnceLock::new();
-    let paren_re = PAREN_RE.get_or_init(|| Regex::new(r"\(([^()]+)\)").unwrap());
+fn effective_languages(game: &DatGame) -> Vec<&str> {
+    if game.languages.is_empty() {
+        vec![DEFAULT_LANGUAGE]
+    } else {
+        game.languages.iter().map(String::as_str).collect()
+    }
+}
 
-    for caps in paren_re.captures_iter(input) {
-        let inside = caps.get(1).unwrap().as_str();
-        let tokens = tokenize_region_segment(inside);
-        if tokens.is_empty() {
+fn canonicalize_regions(values: &[String], regions: &RegionTable) -> Vec<String> {
+    let mut canonical: Vec<String> = Vec::new();
+    let mut seen: HashSet<String> = HashSet::new();
+    for value in values {
+        let normalized = normalize_region_token(Some(value.as_str()), regions)
+            .unwrap_or_else(|| value.clone());
+        if normalized.is_empty() {
             continue;
         }
-
-        let mut normalized_tokens: Vec<String> = tokens
-            .iter()
-            .filter_map(|token| normalize_region_token(Some(token)))
-            .collect();
-
-        if !normalized_tokens.is_empty() {
-            let mut seen = HashSet::new();
-            normalized_tokens.retain(|t| seen.insert(t.clone()));
-            return Some(normalized_tokens);
+        if seen.insert(normalized.clone()) {
+            canonical.push(normalized);
         }
     }
+    canonical
+}
 
-    None
+/// The game's trimmed `<category>`, or `DEFAULT_CATEGORY` when it has none.
+fn effective_category(game: &DatGame) -> &str {
+    game.category
+        .as_deref()
+        .map(str::trim)
+        .filter(|category| !category.is_empty())
+        .unwrap_or(DEFAULT_CATEGORY)
 }
 
-fn tokenize_region_segment(segment: &str) -> Vec<String> {
-    static SPLIT_RE: OnceLock<Regex> = OnceLock::new();
-    static WS_RE: OnceLock<Regex> = OnceLock::new();
-    let split_re = SPLIT_RE.get_or_init(|| Regex::new(r"[/,&]").unwrap());
-    let ws_re = WS_RE.get_or_init(|| Regex::new(r"\s{2,}").unwrap());
+/// Groups releases of one title: the name without its region, language, disc and
+/// revision parentheticals, so `Racer (USA)` and `Racer (Europe) (Rev 1)` share a key
+/// while `(Demo)` or `(Beta)` still tell games apart.
+fn derive_title_key(name: &str, regions: &RegionTable) -> String {
+    static PAREN_RE: OnceLock<Regex> = OnceLock::new();
+    let paren_re = PAREN_RE.get_or_init(|| Regex::new(r"\s*\(([^()]+)\)").unwrap());
 
-    split_re
-        .split(segment)
-        .map(str::trim)
-        .flat_map(|part| {
-            ws_re
-                .split(part)
-                .map(str::trim)
-                .filter(|p| !p.is_empty())
-                .map(|p| p.to_string())
-                .collect::<Vec<_>>()
-        })
-        .filter(|p| !p.is_empty())
-        .collect()
+    let stripped = paren_re.replace_all(name, |caps: &regex::Captures| {
+        let inside = caps.get(1).unwrap().as_str();
+        let key = normalize_tag(inside.trim()).key;
+        if is_region_segment(inside, regions)
+            || is_language_segment(inside)
+            || key == "Disc"
+            || key == "Rev"
+            || key == "Version"
+        {
+            String::new()
+        } else {
+            caps.get(0).unwrap().as_str().to_string()
+        }
+    });
+    stripped
+        .split_whitespace()
+        .collect::<Vec<_>>()
+        .join(" ")
+        .to_lowercase()
 }
 
-fn normalize_region_token(token: Option<&str>) -> Option<String> {
-    let token = token?;
-    static DOT_RE: OnceLock<Regex> = OnceLock::new();
-    static WS_RE: OnceLock<Regex> = OnceLock::new();
-    let dot_re = DOT_RE.get_or_init(|| Regex::new(r"\.+").unwrap());
-    let ws_re = WS_RE.get_or_init(|| Regex::new(r"\s+").unwrap());
+fn region_rank(game: &DatGame, region_priority: &[String]) -> usize {
+    effective_regions(game)
+        .iter()
+        .map(|region| {
+            region_priority
+                .iter()
+                .position(|candidate| candidate == region)
+                .unwrap_or(region_priority.len())
+        })
+        .min()
+        .unwrap_or(region_priority.len())
+}
 
-    let cleaned = ws_re
-        .replace_all(&dot_re.replace_all(token, ""), " ")
-        .trim()
-        .to_string();
-    if cleaned.is_empty() {
-        return None;
+/// Returns, for each game, the name of its parent when it is a regional clone.
+fn assign_parents(
+    games: &[&DatGame],
+    region_priority: &[String],
+    regions: &RegionTable,
+) -> Vec<Option<String>> {
+    let mut groups: HashMap<String, Vec<usize>> = HashMap::new();
+    for (index, game) in games.iter().enumerate() {
+        let disc = game.disc_set.as_ref().map_or(0, |disc_set| disc_set.disc);
+        groups
+            .entry(format!("{}#{}", derive_title_key(&game.name, regions), disc))
+            .or_default()
+            .push(index);
     }
 
-    let lower = cleaned.to_lowercase();
-    if let Some(synonym) = region_synonyms().get(lower.as_str()) {
-        return Some((*synonym).to_string());
+    let mut parents: Vec<Option<String>> = vec![None; games.len()];
+    for group in groups.values().filter(|group| group.len() > 1) {
+        let mut parent = group[0];
+        for &index in &group[1..] {
+            if region_rank(games[index], region_priority)
+                < region_rank(games[parent], region_priority)
+            {
+                parent = index;
+            }
+        }
+        for &index in group.iter().filter(|&&index| index != parent) {
+            parents[index] = Some(games[parent].name.clone());
+        }
     }
+    parents
+}
 
-    if canonical_regions().contains(cleaned.as_str()) {
-        return Some(cleaned);
+fn collapse_to_one_game_per_title<'a>(
+    units: &[Vec<&'a DatGame>],
+    region_priority: &[String],
+    regions: &RegionTable,
+) -> Vec<Vec<&'a DatGame>> {
+    // Region priority decides first; among equally ranked releases the latest revision wins.
+    let mut chosen: HashMap<String, (usize, usize, Vec<u64>)> = HashMap::new();
+    for (index, unit) in units.iter().enumerate() {
+        let rank = unit
+            .iter()
+            .map(|game| region_rank(game, region_priority))
+            .min()
+            .unwrap_or(region_priority.len());
+        let key = derive_title_key(&unit[0].name, regions);
+        let revision = revision_rank(unit[0]);
+        match chosen.get(&key) {
+            Some((_, current_rank, current_revision))
+                if rank > *current_rank
+                    || (rank == *current_rank
+                        && compare_revision_ranks(&revision, current_revision)
+                            != Ordering::Greater) => {}
+            _ => {
+                chosen.insert(key, (index, rank, revision));
+            }
+        }
     }
 
-    None
+    let kept: HashSet<usize> = chosen.values().map(|(index, _, _)| *index).collect();
+    units
+        .iter()
+        .enumerate()
+        .filter(|(index, _)| kept.contains(index))
+        .map(|(_, unit)| unit.clone())
+        .collect()
 }
 
-fn derive_descriptors(header: &DatHeader, total_games: usize) -> (String, String) {
-    let description = header.description.clone().unwrap_or_default();
-    let candidate = try_extract_descriptor(&description, &header.name, total_games);
-    let generic = candidate.or_else(|| extract_generic_descriptor(&description));
+fn keep_latest_revisions<'a>(
+    units: &[Vec<&'a DatGame>],
+    regions: &RegionTable,
+) -> Vec<Vec<&'a DatGame>> {
+    let mut latest: HashMap<String, (usize, Vec<u64>)> = HashMap::new();
+    for (index, unit) in units.iter().enumerate() {
+        let key = derive_revision_group_key(unit[0], regions);
+        let rank = revision_rank(unit[0]);
+        match latest.get(&key) {
+            Some((_, current)) if compare_revision_ranks(&rank, current) != Ordering::Greater => {}
+            _ => {
+                latest.insert(key, (index, rank));
+            }
+        }
+    }
 
-    let normalized = normalize_descriptor_label(generic.as_deref().unwrap_or("Datfile"));
-    let original_descriptor = generic
-        .map(|label| normalize_descriptor_label(&label))
-        .unwrap_or_else(|| normalized.clone());
+    let kept: HashSet<usize> = latest.values().map(|(index, _)| *index).collect();
+    units
+        .iter()
+        .enumerate()
+        .filter(|(index, _)| kept.contains(index))
+        .map(|(_, unit)| unit.clone())
+        .collect()
+}
 
-    (original_descriptor, normalized)
+fn derive_revision_group_key(game: &DatGame, region_table: &RegionTable) -> String {
+    let mut regions: Vec<&str> = if game.regions.is_empty() {
+        vec![DEFAULT_REGION]
+    } else {
+        game.regions.iter().map(String::as_str).collect()
+    };
+    regions.sort();
+    format!("{}|{}", derive_title_key(&game.name, region_table), regions.join(","))
 }
 
-fn try_extract_descriptor(
-    description: &str,
-    system_name: &str,
-    total_games: usize,
-) -> Option<String> {
-    if description.is_empty() {
-        return None;
+fn revision_rank(game: &DatGame) -> Vec<u64> {
+    let tag_value = |key: &str| {
+        game.tags
+            .iter()
+            .find(|tag| tag.key == key)
+            .and_then(|tag| tag.value.as_deref())
+    };
+    let mut rank = vec![parse_ordinal_token(tag_value("Rev"))];
+    if let Some(version) = tag_value("Version") {
+        rank.extend(
+            version
+                .split('.')
+                .map(|part| leading_number(part).unwrap_or(0)),
+        );
     }
-
-    let escaped_system = escape_reg_exp(system_name);
-    let count_pattern = escape_reg_exp(&total_games.to_string());
-    let pattern = format!(r"^{escaped_system}\s*-\s*(.+?)\s*\({count_pattern}\)");
-    let re = Regex::new(&pattern).ok()?;
-    re.captures(description)
-        .and_then(|caps| caps.get(1).map(|m| m.as_str().trim().to_string()))
+    rank
 }
 
-fn extract_generic_descriptor(description: &str) -> Option<String> {
-    static FALLBACK_RE: OnceLock<Regex> = OnceLock::new();
-    static DATFILE_RE: OnceLock<Regex> = OnceLock::new();
-    let fallback_re = FALLBACK_RE.get_or_init(|| {
-        Regex::new(r"(?i)-\s*([^-()]+(?:\s*\(\s*serial\s*,\s*version\s*\))?)\s*\(\d+\)").unwrap()
-    });
-    let datfile_re = DATFILE_RE.get_or_init(|| Regex::new(r"(?i)datfile").unwrap());
-
-    if let Some(caps) = fallback_re.captures(description) {
-        if let Some(m) = caps.get(1) {
-            return Some(m.as_str().trim().to_string());
-        }
+fn parse_ordinal_token(token: Option<&str>) -> u64 {
+    let Some(token) = token else {
+        return 0;
+    };
+    if !token.is_empty() && token.chars().all(|c| c.is_ascii_digit()) {
+        return token.parse().unwrap_or(0);
     }
-    if datfile_re.is_match(description) {
-        return Some("Datfile".to_string());
+    match token.as_bytes() {
+        [letter] if letter.is_ascii_alphabetic() => (letter.to_ascii_uppercase() - b'A' + 1) as u64,
+        _ => 0,
     }
-    None
 }
 
-fn split_serial_version_suffix(label: &str) -> (String, bool) {
-    static SERIAL_RE: OnceLock<Regex> = OnceLock::new();
-    let serial_re = SERIAL_RE
-        .get_or_init(|| Regex::new(r"(?i)\(\s*serial\s*,\s*version\s*\)").unwrap());
-    let has_serial = serial_re.is_match(label);
-    let stripped = serial_re.replace_all(label, "");
-    let stripped = stripped.split_whitespace().collect::<Vec<_>>().join(" ");
-    (stripped, has_serial)
+/// Mirrors JS `parseInt`: reads the leading digits and ignores the rest.
+fn leading_number(part: &str) -> Option<u64> {
+    let digits: String = part.trim().chars().take_while(|c| c.is_ascii_digit()).collect();
+    digits.parse().ok()
 }
 
-fn normalize_descriptor_label(label: &str) -> String {
-    static DATFILE_RE: OnceLock<Regex> = OnceLock::new();
-    static DISC_RE: OnceLock<Regex> = OnceLock::new();
-    let datfile_re = DATFILE_RE.get_or_init(|| Regex::new(r"(?i)datfile").unwrap());
-    let disc_re = DISC_RE.get_or_init(|| Regex::new(r"(?i)disc").unwrap());
-
-    let (stripped, has_serial) = split_serial_version_suffix(label);
-    let base = if datfile_re.is_match(&stripped) || disc_re.is_match(&stripped) {
-        "Datfile".to_string()
-    } else if stripped.is_empty() {
-        "Datfile".to_string()
-    } else {
-        stripped
-    };
-
-    if has_serial {
-        format!("{base} (serial,version)")
-    } else {
-        base
+fn compare_revision_ranks(a: &[u64], b: &[u64]) -> Ordering {
+    for index in 0..a.len().max(b.len()) {
+        let ordering = a
+            .get(index)
+            .copied()
+            .unwrap_or(0)
+            .cmp(&b.get(index).copied().unwrap_or(0));
+        if ordering != Ordering::Equal {
+            return ordering;
+        }
     }
+    Ordering::Equal
 }
 
-fn build_filtered_header(
-    header: &DatHeader,
-    filtered_count: usize,
-    selected_regions: &[String],
-    descriptor_original: &str,
-    version_label: Option<&str>,
-) -> DatHeader {
-    let region_label = create_region_label(selected_regions);
-    let system_name = &header.name;
-    let version = version_label
-        .map(|s| s.to_string())
-        .or_else(|| header.version.clone())
-        .or_else(|| header.date.clone())
-        .unwrap_or_else(fallback_iso_date);
+fn datafile_present(xml: &str) -> bool {
+    static RE: OnceLock<Regex> = OnceLock::new();
+    let re = RE.get_or_init(|| Regex::new(r"<datafile[\s/>]").unwrap());
+    re.is_match(xml)
+}
 
-    let decorated_system = if region_label.is_empty() {
-        system_name.clone()
-    } else {
-        format!("{system_name} ({region_label})")
-    };
+fn extract_header_fields(xml: &str) -> Result<HashMap<String, String>, String> {
+    static HEADER_RE: OnceLock<Regex> = OnceLock::new();
+    static OPEN_RE: OnceLock<Regex> = OnceLock::new();
 
-    let description = format!(
-        "{decorated_system} - {descriptor_original} ({filtered_count}) ({version})"
-    );
+    let header_re =
+        HEADER_RE.get_or_init(|| Regex::new(r"(?s)<header\b[^>]*>(.*?)</header>").unwrap());
+    let open_re =
+        OPEN_RE.get_or_init(|| Regex::new(r"<([A-Za-z_][\w.-]*)\b[^>]*>").unwrap());
 
-    DatHeader {
-        name: decorated_system,
-        description: Some(description),
-        version: header.version.clone(),
-        date: header.date.clone(),
-        author: header.author.clone(),
-        homepage: header.homepage.clone(),
-        url: header.url.clone(),
-        extra: header.extra.clone(),
+    let Some(caps) = header_re.captures(xml) else {
+        return Ok(HashMap::new());
+    };
+    let body = caps.get(1).map(|m| m.as_str()).unwrap_or("");
+
+    let mut fields = HashMap::new();
+    let mut search_from = 0usize;
+    while let Some(caps) = open_re.captures(&body[search_from..]) {
+        let full = caps.get(0).unwrap();
+        let key = caps.get(1).unwrap().as_str();
+        let content_start = search_from + full.end();
+        let close_tag = format!("</{key}>");
+        if let Some(close_rel) = body[content_start..].find(&close_tag) {
+            let value = decode_basic_entities(body[content_start..content_start + close_rel].trim());
+            fields.insert(key.to_string(), value);
+            search_from = content_start + close_rel + close_tag.len();
+        } else {
+            search_from = content_start;
+        }
     }
+    Ok(fields)
 }
 
-fn build_filtered_xml(header: &DatHeader, games: &[DatGame]) -> String {
-    let mut lines: Vec<String> = Vec::new();
-    lines.push(XML_DECLARATION.to_string());
-    lines.push(DATAFILE_DOCTYPE.to_string());
-    lines.push("<datafile>".to_string());
-    lines.push("\t<header>".to_string());
-
-    for (key, value) in header_xml_entries(header) {
-        lines.push(format!(
-            "\t\t<{key}>{}</{key}>",
-            escape_xml_text(&value)
-        ));
-    }
+fn extract_raw_game_blocks(xml: &str) -> Vec<&str> {
+    const ELEMENTS: [(&str, &str); 2] = [("<game", "</game>"), ("<machine", "</machine>")];
+    let mut blocks = Vec::new();
+    let mut from = 0usize;
+    // Next opening tag of each element, refreshed only once the scan has moved past it.
+    let mut next: [Option<usize>; 2] = [None, None];
+    let mut stale = [true, true];
+
+    loop {
+        for (index, (open, _)) in ELEMENTS.iter().enumerate() {
+            if stale[index] || next[index].is_some_and(|pos| pos < from) {
+                next[index] = find_open_tag(xml, from, open);
+                stale[index] = false;
+            }
+        }
+        let Some((index, start)) = next
+            .iter()
+            .enumerate()
+            .filter_map(|(index, pos)| pos.map(|pos| (index, pos)))
+            .min_by_key(|(_, pos)| *pos)
+        else {
+            break;
+        };
+        let close_tag = ELEMENTS[index].1;
 
-    lines.push("\t</header>".to_string());
+        let Some(open_end) = xml[start..].find('>') else {
+            break;
+        };
+        let gt = start + open_end;
+        if is_self_closing_tag(&xml[start..=gt]) {
+            blocks.push(&xml[start..=gt]);
+            from = gt + 1;
+            continue;
+        }
 
-    for game in games {
-        lines.push(indent_game_block(&game.raw_xml));
+        let Some(close_rel) = xml[gt + 1..].find(close_tag) else {
+            break;
+        };
+        let end = gt + 1 + close_rel + close_tag.len();
+        blocks.push(&xml[start..end]);
+        from = end;
     }
 
-    lines.push("</datafile>".to_string());
-    lines.join("\n")
+    blocks
 }
 
-fn header_xml_entries(header: &DatHeader) -> Vec<(String, String)> {
-    let mut entries: Vec<(String, String)> = Vec::new();
+fn find_open_tag(haystack: &str, mut from: usize, needle: &str) -> Option<usize> {
+    while from < haystack.len() {
+        let rel = haystack[from..].find(needle)?;
+        let pos = from + rel;
+        let name_end = pos + needle.len();
+        if tag_name_ends_at(haystack, name_end) {
+            return Some(pos);
+        }
+        from = name_end;
+    }
+    None
+}
 
-    for (key, value) in &header.extra {
-        entries.push((key.clone(), value.clone()));
+fn tag_name_ends_at(haystack: &str, name_end: usize) -> bool {
+    match haystack[name_end..].chars().next() {
+        None => true,
+        Some(c) => !(c.is_ascii_alphanumeric() || c == '_' || c == '-' || c == '.'),
     }
+}
 
-    let known: [(&str, Option<&str>); 7] = [
-        ("name", Some(header.name.as_str())),
-        ("description", header.description.as_deref()),
-        ("version", header.version.as_deref()),
-        ("date", header.date.as_deref()),
-        ("author", header.author.as_deref()),
-        ("homepage", header.homepage.as_deref()),
-        ("url", header.url.as_deref()),
-    ];
+fn is_self_closing_tag(open_through_gt: &str) -> bool {
+    open_through_gt
+        .trim_end_matches('>')
+        .trim_end()
+        .ends_with('/')
+}
 
-    for (key, value) in known {
-        if let Some(v) = value {
-            if let Some(existing) = entries.iter().position(|(k, _)| k == key) {
-                entries[existing] = (key.to_string(), v.to_string());
-            } else {
-                entries.push((key.to_string(), v.to_string()));
+fn normalize_header(raw: &HashMap<String, String>) -> Result<DatHeader, String> {
+    let mut extra = HashMap::new();
+    let mut header = DatHeader {
+        name: String::new(),
+        description: None,
+        version: None,
+        date: None,
+        author: None,
+        homepage: None,
+        url: None,
+        extra: HashMap::new(),
+    };
+
+    for (key, value) in raw {
+        let text_value = value.clone();
+        match key.as_str() {
+            "name" => header.name = text_value,
+            "description" => header.description = non_empty(text_value),
+            "version" => header.version = non_empty(text_value),
+            "date" => header.date = non_empty(text_value),
+            "author" => header.author = non_empty(text_value),
+            "homepage" => header.homepage = non_empty(text_value),
+            "url" => header.url = non_empty(text_value),
+            _ => {
+                extra.insert(key.clone(), text_value);
             }
         }
     }
+    header.extra = extra;
 
-    entries
-}
-
-fn indent_game_block(raw_xml: &str) -> String {
-    let trimmed = raw_xml.trim();
-    let lines: Vec<&str> = trimmed.lines().collect();
-    let min_indent = lines
-        .iter()
-        .filter(|l| !l.trim().is_empty())
-        .map(|l| l.len() - l.trim_start().len())
-        .min()
-        .unwrap_or(0);
+    if header.name.is_empty() {
+        return Err("Invalid DAT header: missing <name>.".to_string());
+    }
 
-    lines
-        .iter()
-        .map(|line| {
-            if line.trim().is_empty() {
-                String::new()
-            } else {
-                let content = if line.len() >= min_indent {
-                    &line[min_indent..]
-                } else {
-                    line.trim_start()
-                };
-                format!("\t{content}")
-            }
-        })
-        .collect::<Vec<_>>()
-        .join("\n")
+    Ok(header)
 }
 
-fn create_region_label(selected_regions: &[String]) -> String {
-    if selected_regions.is_empty() {
-        String::new()
+fn normalize_game(raw_xml: &str, region_table: &RegionTable) -> DatGame {
+    let name = extract_game_name(raw_xml);
+    let description = extract_child_text(raw_xml, "description");
+    let category = extract_child_text(raw_xml, "category");
+    let serials = split_serials(extract_child_text(raw_xml, "serial").as_deref());
+    let version = extract_child_text(raw_xml, "version").filter(|version| !version.is_empty());
+    let mut regions = extract_regions(Some(&name), region_table)
+        .or_else(|| extract_regions(description.as_deref(), region_table));
+    let roms = if regions.is_some() {
+        Vec::new()
     } else {
-        selected_regions.join(", ")
+        extract_roms(raw_xml)
+    };
+    if regions.is_none() {
+        regions = roms
+            .first()
+            .and_then(|rom| rom.attributes.get("name"))
+            .and_then(|n| extract_regions(Some(n), region_table));
     }
-}
+    let languages = extract_languages(Some(&name))
+        .or_else(|| extract_languages(description.as_deref()))
+        .unwrap_or_default();
+    let tags = extract_tags(&name, region_table);
+    let disc_set = derive_disc_set(&name, &tags);
+    let total_size = if roms.is_empty() {
+        sum_rom_sizes(raw_xml)
+    } else {
+        roms.iter()
+            .filter_map(|rom| rom.attributes.get("size"))
+            .map(|size| size.trim().parse::<u64>().unwrap_or(0))
+            .sum()
+    };
+    let element = if find_open_tag(raw_xml, 0, "<machine") == Some(0) {
+        DatGameElement::Machine
+    } else {
+        DatGameElement::Game
+    };
 
-fn sanitize_filename(input: &str) -> String {
-    static BAD_RE: OnceLock<Regex> = OnceLock::new();
-    static WS_RE: OnceLock<Regex> = OnceLock::new();
-    let bad_re = BAD_RE.get_or_init(|| Regex::new(r#"[<>:"/\\|?*]"#).unwrap());
-    let ws_re = WS_RE.get_or_init(|| Regex::new(r"\s+").unwrap());
+    DatGame {
+        name,
+        description,
+        category,
+        serials,
+        version,
+        roms,
+        total_size,
+        regions: regions.unwrap_or_default(),
+        languages,
+        tags,
+        disc_set,
+        element,
+        raw_xml: raw_xml.to_string(),
+    }
+}
 
-    ws_re
-        .replace_all(&bad_re.replace_all(input, " "), " ")
-        .trim()
-        .to_string()
+fn split_serials(value: Option<&str>) -> Vec<String> {
+    let mut serials: Vec<String> = Vec::new();
+    for serial in value.unwrap_or_default().split(',').map(str::trim) {
+        if !serial.is_empty() && !serials.iter().any(|existing| existing == serial) {
+            serials.push(serial.to_string());
+        }
+    }
+    serials
 }
 
-fn derive_filtered_filename(
-    base_filename: Option<&str>,
-    header_description: Option<&str>,
-    decorated_system: &str,
-    descriptor_normalized: &str,
-    filtered_count: usize,
-    version_label: Option<&str>,
-) -> String {
-    static EXT_RE: OnceLock<Regex> = OnceLock::new();
-    static PATTERN_RE: OnceLock<Regex> = OnceLock::new();
-    let ext_re = EXT_RE.get_or_init(|| Regex::new(r"(\.[^.]+)$").unwrap());
-    let pattern_re = PATTERN_RE.get_or_init(|| {
-        Regex::new(r"(?i)^(.*?)\s*-\s*([^-()]+?(?:\s*\(\s*serial\s*,\s*version\s*\))?)\s*\((\d+)\)(.*)$")
-            .unwrap()
-    });
+/// Letters a serial starts with, upper-cased: `SLUS-00001` gives `SLUS`.
+fn serial_prefix(serial: &str) -> Option<String> {
+    let prefix: String = serial
+        .chars()
+        .take_while(|ch| ch.is_ascii_alphabetic())
+        .collect();
+    (!prefix.is_empty()).then(|| prefix.to_ascii_uppercase())
+}
 
-    let (extension, base_without_extension) = if let Some(base) = base_filename {
-        if let Some(caps) = ext_re.captures(base) {
-            let ext = caps.get(1).unwrap().as_str();
-            let without = &base[..base.len() - ext.len()];
-            (ext.to_string(), Some(without.to_string()))
-        } else {
-            (".dat".to_string(), Some(base.to_string()))
+fn extract_game_name(raw_xml: &str) -> String {
+    if let Some(gt) = raw_xml.find('>') {
+        if let Some(value) = quoted_attr(&raw_xml[..=gt], "name") {
+            return decode_basic_entities(&value);
         }
-    } else {
-        (".dat".to_string(), None)
-    };
+    }
 
-    if let Some(ref base_without) = base_without_extension {
-        if let Some(caps) = pattern_re.captures(base_without) {
-            let rest = caps.get(4).map(|m| m.as_str()).unwrap_or("");
-            let rest_trimmed = rest.trim();
-            let suffix = if !rest_trimmed.is_empty() {
-                format!(" {rest_trimmed}")
-            } else if let Some(v) = version_label {
-                format!(" ({v})")
-            } else {
-                String::new()
-            };
-            let base_name = format!(
-                "{decorated_system} - {descriptor_normalized} ({filtered_count}){suffix}"
-            );
-            return format!("{}{extension}", sanitize_filename(&base_name));
+    extract_child_text(raw_xml, "name").unwrap_or_default()
+}
+
+fn extract_child_text(raw_xml: &str, tag: &str) -> Option<String> {
+    match tag {
+        "description" => extract_tagged_text(raw_xml, "<description", "</description>"),
+        "category" => extract_tagged_text(raw_xml, "<category", "</category>"),
+        "name" => extract_tagged_text(raw_xml, "<name", "</name>"),
+        _ => {
+            let open = format!("<{tag}");
+            let close = format!("</{tag}>");
+            extract_tagged_text(raw_xml, &open, &close)
         }
     }
+}
 
-    if let Some(desc) = header_description {
-        return format!("{}{extension}", sanitize_filename(desc));
+fn extract_tagged_text(raw_xml: &str, open_needle: &str, close_needle: &str) -> Option<String> {
+    let start = find_open_tag(raw_xml, 0, open_needle)?;
+    let rel_gt = raw_xml[start..].find('>')?;
+    let gt = start + rel_gt;
+    if is_self_closing_tag(&raw_xml[start..=gt]) {
+        return None;
     }
+    let close_rel = raw_xml[gt + 1..].find(close_needle)?;
+    let value = decode_basic_entities(raw_xml[gt + 1..gt + 1 + close_rel].trim());
+    non_empty(value)
+}
 
-    let version_segment = version_label
-        .map(|v| format!(" ({v})"))
-        .unwrap_or_default();
-    let fallback = format!(
-        "{decorated_system} - {descriptor_normalized} ({filtered_count}){version_segment}"
-    );
-    format!("{}{extension}", sanitize_filename(&fallback))
+/// Sums the `size` attributes of the `<rom>` elements without building the ROM list.
+fn sum_rom_sizes(raw_xml: &str) -> u64 {
+    let mut total = 0u64;
+    let mut from = 0usize;
+
+    while let Some(start) = find_open_tag(raw_xml, from, "<rom") {
+        let Some(rel_gt) = raw_xml[start..].find('>') else {
+            break;
+        };
+        let gt = start + rel_gt;
+        total += quoted_attr(&raw_xml[start + "<rom".len()..gt], "size")
+            .and_then(|size| size.trim().parse::<u64>().ok())
+            .unwrap_or(0);
+        from = gt + 1;
+    }
+
+    total
 }
 
-fn escape_reg_exp(value: &str) -> String {
-    let mut out = String::with_capacity(value.len());
-    for ch in value.chars() {
-        if matches!(
-            ch,
-            '.' | '*' | '+' | '?' | '^' | '$' | '{' | '}' | '(' | ')' | '|' | '[' | ']' | '\\'
-        ) {
-            out.push('\\');
-        }
-        out.push(ch);
+fn extract_roms(raw_xml: &str) -> Vec<DatRom> {
+    let mut roms = Vec::new();
+    let mut from = 0usize;
+
+    while let Some(start) = find_open_tag(raw_xml, from, "<rom") {
+        let Some(rel_gt) = raw_xml[start..].find('>') else {
+            break;
+        };
+        let gt = start + rel_gt;
+        let attr_blob = raw_xml[start + "<rom".len()..gt]
+            .trim()
+            .trim_end_matches('/');
+        roms.push(DatRom {
+            attributes: parse_quoted_attrs(attr_blob),
+        });
+        from = gt + 1;
     }
-    out
+
+    roms
 }
 
-fn escape_xml_text(value: &str) -> String {
-    value
-        .replace('&', "&amp;")
-        .replace('<', "&lt;")
-        .replace('>', "&gt;")
-        .replace('"', "&quot;")
+fn quoted_attr(blob: &str, name: &str) -> Option<String> {
+    let mut from = 0usize;
+    while let Some(rel) = blob[from..].find(name) {
+        let pos = from + rel;
+        let end = pos + name.len();
+        let prev_ok = pos == 0 || {
+            let prev = blob.as_bytes()[pos - 1];
+            prev.is_ascii_whitespace() || prev == b'<'
+        };
+        let next_ok = tag_name_ends_at(blob, end);
+        if prev_ok && next_ok {
+            let rest = blob[end..].trim_start();
+            if let Some(rest) = rest.strip_prefix('=') {
+                let rest = rest.trim_start();
+                if let Some(rest) = rest.strip_prefix('"') {
+                    let close = rest.find('"')?;
+                    return Some(rest[..close].to_string());
+                }
+            }
+        }
+        from = end;
+    }
+    None
 }
 
-fn decode_basic_entities(value: &str) -> String {
-    if !value.contains('&') {
-        return value.to_string();
+fn parse_quoted_attrs(blob: &str) -> HashMap<String, String> {
+    let bytes = blob.as_bytes();
+    let mut attributes = HashMap::new();
+    let mut i = 0usize;
+
+    while i < bytes.len() {
+        while i < bytes.len() && bytes[i].is_ascii_whitespace() {
+            i += 1;
+        }
+        if i >= bytes.len() {
+            break;
+        }
+
+        let name_start = i;
+        if !(bytes[i].is_ascii_alphabetic() || bytes[i] == b'_') {
+            i += 1;
+            continue;
+        }
+        i += 1;
+        while i < bytes.len()
+            && (bytes[i].is_ascii_alphanumeric() || matches!(bytes[i], b'_' | b'.' | b'-'))
+        {
+            i += 1;
+        }
+        let name = &blob[name_start..i];
+
+        while i < bytes.len() && bytes[i].is_ascii_whitespace() {
+            i += 1;
+        }
+        if i >= bytes.len() || bytes[i] != b'=' {
+            continue;
+        }
+        i += 1;
+        while i < bytes.len() && bytes[i].is_ascii_whitespace() {
+            i += 1;
+        }
+        if i >= bytes.len() || bytes[i] != b'"' {
+            continue;
+        }
+        i += 1;
+        let value_start = i;
+        while i < bytes.len() && bytes[i] != b'"' {
+            i += 1;
+        }
+        if i >= bytes.len() {
+            break;
+        }
+        attributes.insert(
+            name.to_string(),
+            decode_basic_entities(&blob[value_start..i]),
+        );
+        i += 1;
     }
-    value
-        .replace("&lt;", "<")
-        .replace("&gt;", ">")
-        .replace("&quot;", "\"")
-        .replace("&apos;", "'")
-        .replace("&amp;", "&")
+
+    attributes
 }
 
-fn non_empty(value: String) -> Option<String> {
-    if value.is_empty() {
-        None
-    } else {
-        Some(value)
+fn extract_regions(input: Option<&str>, regions: &RegionTable) -> Option<Vec<String>> {
+    let input = input?;
+    if input.is_empty() {
+        return None;
+    }
+
+    static PAREN_RE: OnceLock<Regex> = OnceLock::new();
+    let paren_re = PAREN_RE.get_or_init(|| Regex::new(r"\(([^()]+)\)").unwrap());
+
+    for caps in paren_re.captures_iter(input) {
+        let inside = caps.get(1).unwrap().as_str();
+        let tokens = tokenize_region_segment(inside);
+        if tokens.is_empty() {
+            continue;
+        }
+
+        let mut normalized_tokens: Vec<String> = tokens
+            .iter()
+            .filter_map(|token| normalize_region_token(Some(token), regions))
+            .collect();
+
+        if !normalized_tokens.is_empty() {
+            let mut seen = HashSet::new();
+            normalized_tokens.retain(|t| seen.insert(t.clone()));
+            return Some(normalized_tokens);
+        }
     }
+
+    None
 }
 
-fn fallback_iso_date() -> String {
-    use std::time::{SystemTime, UNIX_EPOCH};
-    let secs = SystemTime::now()
-        .duration_since(UNIX_EPOCH)
-        .map(|d| d.as_secs())
-        .unwrap_or(0);
-    // Civil date from Unix days (UTC), matching JS toISOString().split('T')[0] closely enough.
-    let days = (secs / 86_400) as i64;
-    let (y, m, d) = civil_from_days(days);
-    format!("{y:04}-{m:02}-{d:02}")
+fn extract_languages(input: Option<&str>) -> Option<Vec<String>> {
+    let input = input?;
+    static PAREN_RE: OnceLock<Regex> = OnceLock::new();
+    let paren_re = PAREN_RE.get_or_init(|| Regex::new(r"\(([^()]+)\)").unwrap());
+
+    for caps in paren_re.captures_iter(input) {
+        let inside = caps.get(1).unwrap().as_str().trim();
+        if !is_language_segment(inside) {
+            continue;
+        }
+        let mut codes: Vec<String> = Vec::new();
+        for code in inside.split(|c| c == ',' || c == '+') {
+            let code = code.trim();
+            if !code.is_empty() && !codes.iter().any(|existing| existing == code) {
+                codes.push(code.to_string());
+            }
+        }
+        return Some(codes);
+    }
+
+    None
 }
 
-/// Algorithm from Howard Hinnant's date algorithms (UTC civil date from Unix day count).
-fn civil_from_days(z: i64) -> (i32, u32, u32) {
-    let z = z + 719_468;
-    let era = if z >= 0 { z } else { z - 146_096 } / 146_097;
-    let doe = (z - era * 146_097) as u64;
-    let yoe = (doe - doe / 1460 + doe / 36524 - doe / 146_096) / 365;
-    let y = yoe as i64 + era * 400;
-    let doy = doe - (365 * yoe + yoe / 4 - yoe / 100);
-    let mp = (5 * doy + 2) / 153;
-    let d = doy - (153 * mp + 2) / 5 + 1;
-    let m = if mp < 10 { mp + 3 } else { mp - 9 };
-    let y = if m <= 2 { y + 1 } else { y };
-    (y as i32, m as u32, d as u32)
+fn extract_tags(input: &str, regions: &RegionTable) -> Vec<DatTag> {
+    static PAREN_RE: OnceLock<Regex> = OnceLock::new();
+    let paren_re = PAREN_RE.get_or_init(|| Regex::new(r"\(([^()]+)\)").unwrap());
+
+    paren_re
+        .captures_iter(input)
+        .map(|caps| caps.get(1).unwrap().as_str().trim())
+        .filter(|inside| {
+            !inside.is_empty()
+                && !is_region_segment(inside, regions)
+                && !is_language_segment(inside)
+        })
+        .map(normalize_tag)
+        .collect()
 }
 
-#[cfg(test)]
-mod tests {
-    use super::*;
+fn derive_disc_set(name: &str, tags: &[DatTag]) -> Option<DiscSet> {
+    static PAREN_RE: OnceLock<Regex> = OnceLock::new();
+    let paren_re = PAREN_RE.get_or_init(|| Regex::new(r"\s*\(([^()]+)\)").unwrap());
+
+    let disc_tag = tags.iter().find(|tag| tag.key == "Disc")?;
+    let key = paren_re.replace_all(name, |caps: &regex::Captures| {
+        if caps[1].trim() == disc_tag.label {
+            String::new()
+        } else {
+            caps[0].to_string()
+        }
+    });
+    Some(DiscSet {
+        key: key.split_whitespace().collect::<Vec<_>>().join(" "),
+        disc: parse_ordinal_token(disc_tag.value.as_deref()),
+        total: 1,
+    })
+}
+
+fn normalize_tag(label: &str) -> DatTag {
+    static FAMILIES: OnceLock<Vec<(Regex, &'static str)>> = OnceLock::new();
+    let families = FAMILIES.get_or_init(|| {
+        [
+            (r"(?i)^beta\b(.*)$", "Beta"),
+            (r"(?i)^proto(?:type)?\b(.*)$", "Proto"),
+            (r"(?i)^demo\b(.*)$", "Demo"),
+            (r"(?i)^kiosk\b(.*)$", "Kiosk"),
+            (r"(?i)^sample\b(.*)$", "Sample"),
+            (r"(?i)^unl(?:icensed)?\b(.*)$", "Unl"),
+            (r"(?i)^alt\b(.*)$", "Alt"),
+            (r"(?i)^rev\b(.*)$", "Rev"),
+            (r"(?i)^disc\b(.*)$", "Disc"),
+            (r"(?i)^promo\b(.*)$", "Promo"),
+            (r"(?i)^debug\b(.*)$", "Debug"),
+            (r"(?i)^pirate\b(.*)$", "Pirate"),
+            (r"(?i)^v([0-9].*)$", "Version"),
+        ]
+        .into_iter()
+        .map(|(pattern, key)| (Regex::new(pattern).unwrap(), key))
+        .collect()
+    });
+
+    for (pattern, key) in families {
+        if let Some(caps) = pattern.captures(label) {
+            let value = caps.get(1).map_or("", |m| m.as_str().trim());
+            return DatTag {
+                key: key.to_string(),
+                label: label.to_string(),
+                value: (!value.is_empty()).then(|| value.to_string()),
+            };
+        }
+    }
+
+    DatTag {
+        key: label.to_string(),
+        label: label.to_string(),
+        value: None,
+    }
+}
+
+fn is_region_segment(segment: &str, regions: &RegionTable) -> bool {
+    let tokens = tokenize_region_segment(segment);
+    !tokens.is_empty()
+        && tokens
+            .iter()
+            .all(|token| normalize_region_token(Some(token), regions).is_some())
+}
+
+fn is_language_segment(segment: &str) -> bool {
+    static LANGUAGE_RE: OnceLock<Regex> = OnceLock::new();
+    let language_re = LANGUAGE_RE.get_or_init(|| {
+        Regex::new(r"^[A-Z][a-z](?:-[A-Z][a-z]+)?(?:\s*[,+]\s*[A-Z][a-z](?:-[A-Z][a-z]+)?)*$").unwrap()
+    });
+    language_re.is_match(segment.trim())
+}
+
+fn tokenize_region_segment(segment: &str) -> Vec<String> {
+    static SPLIT_RE: OnceLock<Regex> = OnceLock::new();
+    static WS_RE: OnceLock<Regex> = OnceLock::new();
+    static ISO_LIST_RE: OnceLock<Regex> = OnceLock::new();
+    let split_re = SPLIT_RE.get_or_init(|| Regex::new(r"[/,&]").unwrap());
+    let ws_re = WS_RE.get_or_init(|| Regex::new(r"\s{2,}").unwrap());
+    let iso_list_re =
+        ISO_LIST_RE.get_or_init(|| Regex::new(r"^[A-Z]{2}(?:-[A-Z]{2})+$").unwrap());
+
+    split_re
+        .split(segment)
+        .map(str::trim)
+        .flat_map(|part| {
+            ws_re
+                .split(part)
+                .map(str::trim)
+                .filter(|p| !p.is_empty())
+                .map(|p| p.to_string())
+                .collect::<Vec<_>>()
+        })
+        .flat_map(|part| {
+            if iso_list_re.is_match(&part) {
+                part.split('-').map(str::to_string).collect()
+            } else {
+                vec![part]
+            }
+        })
+        .filter(|p| !p.is_empty())
+        .collect()
+}
+
+fn normalize_region_token(token: Option<&str>, regions: &RegionTable) -> Option<String> {
+    let cleaned = clean_region_token(token?);
+    if cleaned.is_empty() {
+        return None;
+    }
+
+    if let Some(synonym) = regions.synonyms.get(&cleaned.to_lowercase()) {
+        return Some(synonym.clone());
+    }
+    if let Some(synonym) = iso_region_codes().get(cleaned.as_str()) {
+        return Some((*synonym).to_string());
+    }
+
+    if regions.canonical.contains(&cleaned) {
+        return Some(cleaned);
+    }
+
+    None
+}
+
+fn clean_region_token(token: &str) -> String {
+    static DOT_RE: OnceLock<Regex> = OnceLock::new();
+    static WS_RE: OnceLock<Regex> = OnceLock::new();
+    let dot_re = DOT_RE.get_or_init(|| Regex::new(r"\.+").unwrap());
+    let ws_re = WS_RE.get_or_init(|| Regex::new(r"\s+").unwrap());
+
+    ws_re
+        .replace_all(&dot_re.replace_all(token, ""), " ")
+        .trim()
+        .to_string()
+}
+
+fn derive_descriptors(header: &DatHeader, total_games: usize) -> (String, String) {
+    let description = header.description.clone().unwrap_or_default();
+    let candidate = try_extract_descriptor(&description, &header.name, total_games);
+    let generic = candidate.or_else(|| extract_generic_descriptor(&description));
+
+    let normalized = normalize_descriptor_label(generic.as_deref().unwrap_or("Datfile"));
+    let original_descriptor = generic
+        .map(|label| normalize_descriptor_label(&label))
+        .unwrap_or_else(|| normalized.clone());
+
+    (original_descriptor, normalized)
+}
+
+fn try_extract_descriptor(
+    description: &str,
+    system_name: &str,
+    total_games: usize,
+) -> Option<String> {
+    if description.is_empty() {
+        return None;
+    }
+
+    let escaped_system = escape_reg_exp(system_name);
+    let count_pattern = escape_reg_exp(&total_games.to_string());
+    let pattern = format!(r"^{escaped_system}\s*-\s*(.+?)\s*\({count_pattern}\)");
+    let re = Regex::new(&pattern).ok()?;
+    re.captures(description)
+        .and_then(|caps| caps.get(1).map(|m| m.as_str().trim().to_string()))
+}
+
+fn extract_generic_descriptor(description: &str) -> Option<String> {
+    static FALLBACK_RE: OnceLock<Regex> = OnceLock::new();
+    static DATFILE_RE: OnceLock<Regex> = OnceLock::new();
+    let fallback_re = FALLBACK_RE.get_or_init(|| {
+        Regex::new(r"(?i)-\s*([^-()]+(?:\s*\(\s*serial\s*,\s*version\s*\))?)\s*\(\d+\)").unwrap()
+    });
+    let datfile_re = DATFILE_RE.get_or_init(|| Regex::new(r"(?i)datfile").unwrap());
+
+    if let Some(caps) = fallback_re.captures(description) {
+        if let Some(m) = caps.get(1) {
+            return Some(m.as_str().trim().to_string());
+        }
+    }
+    if datfile_re.is_match(description) {
+        return Some("Datfile".to_string());
+    }
+    None
+}
+
+fn split_serial_version_suffix(label: &str) -> (String, bool) {
+    static SERIAL_RE: OnceLock<Regex> = OnceLock::new();
+    let serial_re = SERIAL_RE
+        .get_or_init(|| Regex::new(r"(?i)\(\s*serial\s*,\s*version\s*\)").unwrap());
+    let has_serial = serial_re.is_match(label);
+    let stripped = serial_re.replace_all(label, "");
+    let stripped = stripped.split_whitespace().collect::<Vec<_>>().join(" ");
+    (stripped, has_serial)
+}
+
+fn normalize_descriptor_label(label: &str) -> String {
+    static DATFILE_RE: OnceLock<Regex> = OnceLock::new();
+    static DISC_RE: OnceLock<Regex> = OnceLock::new();
+    let datfile_re = DATFILE_RE.get_or_init(|| Regex::new(r"(?i)datfile").unwrap());
+    let disc_re = DISC_RE.get_or_init(|| Regex::new(r"(?i)disc").unwrap());
+
+    let (stripped, has_serial) = split_serial_version_suffix(label);
+    let base = if datfile_re.is_match(&stripped) || disc_re.is_match(&stripped) {
+        "Datfile".to_string()
+    } else if stripped.is_empty() {
+        "Datfile".to_string()
+    } else {
+        stripped
+    };
+
+    if has_serial {
+        format!("{base} (serial,version)")
+    } else {
+        base
+    }
+}
+
+fn build_filtered_header(
+    header: &DatHeader,
+    filtered_count: usize,
+    region_label: &str,
+    descriptor_original: &str,
+    version_label: Option<&str>,
+) -> DatHeader {
+    let system_name = &header.name;
+    let version = resolve_header_version(header, version_label);
+
+    let decorated_system = if region_label.is_empty() {
+        system_name.clone()
+    } else {
+        format!("{system_name} ({region_label})")
+    };
+
+    let description = format!(
+        "{decorated_system} - {descriptor_original} ({filtered_count}) ({version})"
+    );
+
+    DatHeader {
+        name: decorated_system,
+        description: Some(description),
+        version: header.version.clone(),
+        date: header.date.clone(),
+        author: header.author.clone(),
+        homepage: header.homepage.clone(),
+        url: header.url.clone(),
+        extra: header.extra.clone(),
+    }
+}
+
+fn resolve_header_version(header: &DatHeader, version_label: Option<&str>) -> String {
+    version_label
+        .map(|s| s.to_string())
+        .or_else(|| header.version.clone())
+        .or_else(|| header.date.clone())
+        .unwrap_or_else(fallback_iso_date)
+}
+
+/// Replaces `{token}` placeholders; unknown tokens are left as written.
+pub fn render_header_template(template: &str, tokens: &[(&str, &str)]) -> String {
+    replace_template_tokens(template, tokens).trim().to_string()
+}
+
+fn replace_template_tokens(template: &str, tokens: &[(&str, &str)]) -> String {
+    static TOKEN_RE: OnceLock<Regex> = OnceLock::new();
+    let token_re = TOKEN_RE.get_or_init(|| Regex::new(r"\{(\w+)\}").unwrap());
+    token_re
+        .replace_all(template, |caps: &regex::Captures| {
+            tokens
+                .iter()
+                .find(|(token, _)| *token == &caps[1])
+                .map(|(_, value)| value.to_string())
+                .unwrap_or_else(|| caps[0].to_string())
+        })
+        .into_owned()
+}
+
+/// Renders a filename template into a relative path joined with `/`. Only separators written in
+/// the template create folders; separators inside token values are sanitized like any other
+/// character. Each segment is capped at [`MAX_FILENAME_SEGMENT_LENGTH`], and the file gets the
+/// first accepted extension unless it already ends with one. Returns `None` when nothing usable
+/// remains.
+pub fn render_filename_template(
+    template: &str,
+    tokens: &[(&str, &str)],
+    extensions: &[&str],
+) -> Option<String> {
+    static EXT_RE: OnceLock<Regex> = OnceLock::new();
+    let ext_re = EXT_RE.get_or_init(|| Regex::new(r"\.[^. ]+$").unwrap());
+
+    let mut segments: Vec<String> = template
+        .split(|c| c == '/' || c == '\\')
+        .map(|segment| sanitize_path_segment(&replace_template_tokens(segment, tokens)))
+        .filter(|segment| !segment.is_empty())
+        .collect();
+    let file = segments.pop()?;
+
+    let current_extension = ext_re.find(&file).map_or("", |m| m.as_str());
+    let current_lower = current_extension.to_lowercase();
+    let is_known = [
+        DatOutputFormat::Logiqx,
+        DatOutputFormat::ClrMamePro,
+        DatOutputFormat::Csv,
+        DatOutputFormat::Json,
+    ]
+    .iter()
+    .any(|format| format.extensions().contains(&current_lower.as_str()));
+    let stem = if is_known {
+        &file[..file.len() - current_extension.len()]
+    } else {
+        file.as_str()
+    };
+    let extension = if extensions.contains(&current_lower.as_str()) {
+        current_extension
+    } else {
+        extensions.first().copied().unwrap_or(".dat")
+    };
+    let capped_stem = truncate_chars(stem, MAX_FILENAME_SEGMENT_LENGTH - extension.chars().count());
+    if capped_stem.is_empty() {
+        return None;
+    }
+
+    let mut parts: Vec<String> = segments
+        .iter()
+        .map(|segment| truncate_chars(segment, MAX_FILENAME_SEGMENT_LENGTH))
+        .collect();
+    parts.push(format!("{capped_stem}{extension}"));
+    Some(parts.join("/"))
+}
+
+fn sanitize_path_segment(segment: &str) -> String {
+    // Windows drops trailing dots and spaces, which also turns `.` and `..` into nothing.
+    sanitize_filename(segment)
+        .trim_end_matches(|c| c == '.' || c == ' ')
+        .to_string()
+}
+
+fn truncate_chars(value: &str, max: usize) -> String {
+    value.chars().take(max).collect::<String>().trim_end().to_string()
+}
+
+fn apply_header_template(
+    header: &DatHeader,
+    template: &DatHeaderTemplate,
+    tokens: &[(&str, &str)],
+) -> DatHeader {
+    let mut result = header.clone();
+    let render = |source: &Option<String>| {
+        source
+            .as_deref()
+            .map(str::trim)
+            .filter(|source| !source.is_empty())
+            .map(|source| render_header_template(source, tokens))
+    };
+    let optional = |value: String| if value.is_empty() { None } else { Some(value) };
+
+    if let Some(name) = render(&template.name).filter(|name| !name.is_empty()) {
+        result.name = name;
+    }
+    let fields = [
+        (&template.description, &mut result.description),
+        (&template.version, &mut result.version),
+        (&template.date, &mut result.date),
+        (&template.author, &mut result.author),
+        (&template.homepage, &mut result.homepage),
+        (&template.url, &mut result.url),
+    ];
+    for (source, target) in fields {
+        if let Some(value) = render(source) {
+            *target = optional(value);
+        }
+    }
+    if let Some(comment) = render(&template.comment) {
+        result.extra.insert("comment".to_string(), comment);
+    }
+    result
+}
+
+const CLRMAMEPRO_GAME_FIELDS: [&str; 4] = ["description", "category", "serial", "version"];
+const CLRMAMEPRO_ROM_FIELDS: [&str; 5] = ["name", "size", "crc", "md5", "sha1"];
+
+fn write_logiqx_dat(header: &DatHeader, games: &[DatGame], parents: &[Option<String>]) -> String {
+    let xml = build_filtered_xml(header, games, parents).replace("&apos;", "'");
+    Regex::new(r"\r?\n")
+        .unwrap()
+        .replace_all(&xml, "\r\n")
+        .into_owned()
+}
+
+fn write_clrmamepro_dat(
+    header: &DatHeader,
+    games: &[DatGame],
+    parents: &[Option<String>],
+) -> String {
+    let mut lines: Vec<String> = vec!["clrmamepro (".to_string()];
+    let header_fields = [
+        ("name", Some(&header.name)),
+        ("description", header.description.as_ref()),
+        ("version", header.version.as_ref()),
+        ("date", header.date.as_ref()),
+        ("author", header.author.as_ref()),
+        ("homepage", header.homepage.as_ref()),
+        ("url", header.url.as_ref()),
+    ];
+    for (field, value) in header_fields {
+        if let Some(value) = value.filter(|value| !value.is_empty()) {
+            lines.push(format!("\t{field} {}", quote_clrmamepro_value(value)));
+        }
+    }
+    if let Some(comment) = header.extra.get("comment").filter(|comment| !comment.is_empty()) {
+        lines.push(format!("\tcomment {}", quote_clrmamepro_value(comment)));
+    }
+    lines.push(")".to_string());
+
+    for (game, parent) in games.iter().zip(parents) {
+        lines.push(String::new());
+        lines.push(format!("{} (", game.element.tag_name()));
+        lines.push(format!("\tname {}", quote_clrmamepro_value(&game.name)));
+        for field in CLRMAMEPRO_GAME_FIELDS {
+            if let Some(value) = extract_child_text(&game.raw_xml, field) {
+                lines.push(format!("\t{field} {}", quote_clrmamepro_value(&value)));
+            }
+        }
+        if let Some(parent) = parent {
+            lines.push(format!("\tcloneof {}", quote_clrmamepro_value(parent)));
+            lines.push(format!("\tromof {}", quote_clrmamepro_value(parent)));
+        }
+        for rom in game_roms(game).iter() {
+            let mut extra_keys: Vec<&String> = rom
+                .attributes
+                .keys()
+                .filter(|key| !CLRMAMEPRO_ROM_FIELDS.contains(&key.as_str()))
+                .collect();
+            extra_keys.sort();
+            let fields: Vec<String> = CLRMAMEPRO_ROM_FIELDS
+                .iter()
+                .copied()
+                .filter(|key| rom.attributes.contains_key(*key))
+                .chain(extra_keys.into_iter().map(String::as_str))
+                .map(|key| {
+                    let value = &rom.attributes[key];
+                    if key == "name" {
+                        format!("name {}", quote_clrmamepro_value(value))
+                    } else {
+                        format!("{key} {}", format_clrmamepro_token(value))
+                    }
+                })
+                .collect();
+            lines.push(format!("\trom ( {} )", fields.join(" ")));
+        }
+        lines.push(")".to_string());
+    }
+
+    format!("{}\r\n", lines.join("\r\n"))
+}
+
+const GAME_LIST_COLUMNS: [&str; 9] = [
+    "name",
+    "serials",
+    "regions",
+    "category",
+    "romCount",
+    "totalSize",
+    "crc",
+    "md5",
+    "sha1",
+];
+
+#[derive(Debug, Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GameListRow {
+    pub name: String,
+    pub serials: Vec<String>,
+    pub regions: Vec<String>,
+    pub category: Option<String>,
+    pub rom_count: usize,
+    pub total_size: u64,
+    pub crc: Option<String>,
+    pub md5: Option<String>,
+    pub sha1: Option<String>,
+}
+
+#[derive(Serialize)]
+struct GameListDocument<'a> {
+    summary: &'a FilterSummary,
+    games: Vec<GameListRow>,
+}
+
+fn build_game_list_row(game: &DatGame) -> GameListRow {
+    let roms = game_roms(game);
+    let primary = |key: &str| {
+        roms.first()
+            .and_then(|rom| rom.attributes.get(key))
+            .map(|value| value.to_lowercase())
+    };
+    GameListRow {
+        name: game.name.clone(),
+        serials: game.serials.clone(),
+        regions: game.regions.clone(),
+        category: game.category.clone(),
+        rom_count: roms.len(),
+        total_size: game.total_size,
+        crc: primary("crc"),
+        md5: primary("md5"),
+        sha1: primary("sha1"),
+    }
+}
+
+fn write_game_list_csv(games: &[DatGame]) -> String {
+    let mut lines = vec![GAME_LIST_COLUMNS.join(",")];
+    for game in games {
+        let row = build_game_list_row(game);
+        let fields = [
+            row.name,
+            row.serials.join(", "),
+            row.regions.join(", "),
+            row.category.unwrap_or_default(),
+            row.rom_count.to_string(),
+            row.total_size.to_string(),
+            row.crc.unwrap_or_default(),
+            row.md5.unwrap_or_default(),
+            row.sha1.unwrap_or_default(),
+        ];
+        let formatted: Vec<String> = fields.iter().map(|field| format_csv_field(field)).collect();
+        lines.push(formatted.join(","));
+    }
+    format!("{}\r\n", lines.join("\r\n"))
+}
+
+fn write_game_list_json(games: &[DatGame], summary: &FilterSummary) -> String {
+    let document = GameListDocument {
+        summary,
+        games: games.iter().map(build_game_list_row).collect(),
+    };
+    let json = serde_json::to_string_pretty(&document).unwrap_or_default();
+    format!("{}\n", json)
+}
+
+fn format_csv_field(value: &str) -> String {
+    if value.contains(['"', ',', '\r', '\n']) {
+        format!("\"{}\"", value.replace('"', "\"\""))
+    } else {
+        value.to_string()
+    }
+}
+
+fn quote_clrmamepro_value(value: &str) -> String {
+    format!("\"{}\"", value.replace('"', "'"))
+}
+
+fn format_clrmamepro_token(value: &str) -> String {
+    if !value.is_empty()
+        && !value
+            .chars()
+            .any(|c| c.is_whitespace() || matches!(c, '"' | '(' | ')'))
+    {
+        value.to_string()
+    } else {
+        quote_clrmamepro_value(value)
+    }
+}
+
+fn build_filtered_xml(
+    header: &DatHeader,
+    games: &[DatGame],
+    parents: &[Option<String>],
+) -> String {
+    let mut lines: Vec<String> = Vec::new();
+    lines.push(XML_DECLARATION.to_string());
+    lines.push(DATAFILE_DOCTYPE.to_string());
+    lines.push("<datafile>".to_string());
+    lines.push("\t<header>".to_string());
+
+    for (key, value) in header_xml_entries(header) {
+        lines.push(format!(
+            "\t\t<{key}>{}</{key}>",
+            escape_xml_text(&value)
+        ));
+    }
+
+    lines.push("\t</header>".to_string());
+
+    for (game, parent) in games.iter().zip(parents) {
+        let block = match parent {
+            Some(parent) => indent_game_block(&with_clone_attributes(&game.raw_xml, parent)),
+            None => indent_game_block(&game.raw_xml),
+        };
+        lines.push(block);
+    }
+
+    lines.push("</datafile>".to_string());
+    lines.join("\n")
+}
+
+fn header_xml_entries(header: &DatHeader) -> Vec<(String, String)> {
+    let mut entries: Vec<(String, String)> = Vec::new();
+
+    for (key, value) in &header.extra {
+        if key != "comment" {
+            entries.push((key.clone(), value.clone()));
+        }
+    }
+
+    let known: [(&str, Option<&str>); 7] = [
+        ("name", Some(header.name.as_str())),
+        ("description", header.description.as_deref()),
+        ("version", header.version.as_deref()),
+        ("date", header.date.as_deref()),
+        ("author", header.author.as_deref()),
+        ("homepage", header.homepage.as_deref()),
+        ("url", header.url.as_deref()),
+    ];
+
+    for (key, value) in known {
+        if let Some(v) = value {
+            if let Some(existing) = entries.iter().position(|(k, _)| k == key) {
+                entries[existing] = (key.to_string(), v.to_string());
+            } else {
+                entries.push((key.to_string(), v.to_string()));
+            }
+        }
+    }
+
+    // Logiqx places <comment> after the known fields; a comment added by a header template
+    // would otherwise lead the header.
+    if let Some(comment) = header.extra.get("comment") {
+        entries.push(("comment".to_string(), comment.clone()));
+    }
+
+    entries
+}
+
+/// Adds `cloneof`/`romof` to the opening `<game>` tag, replacing any existing values.
+fn with_clone_attributes(raw_xml: &str, parent: &str) -> String {
+    static EXISTING_RE: OnceLock<Regex> = OnceLock::new();
+    let existing_re = EXISTING_RE
+        .get_or_init(|| Regex::new(r#"\s+(?:cloneof|romof)\s*=\s*(?:"[^"]*"|'[^']*')"#).unwrap());
+
+    let Some(start) = raw_xml.find('<') else {
+        return raw_xml.to_string();
+    };
+    let mut quote: Option<char> = None;
+    let mut tag_end = None;
+    for (offset, c) in raw_xml[start..].char_indices() {
+        match (quote, c) {
+            (Some(open), _) if c == open => quote = None,
+            (Some(_), _) => {}
+            (None, '"' | '\'') => quote = Some(c),
+            (None, '>') => {
+                tag_end = Some(start + offset);
+                break;
+            }
+            _ => {}
+        }
+    }
+    let Some(tag_end) = tag_end else {
+        return raw_xml.to_string();
+    };
+
+    let open_tag = existing_re.replace_all(&raw_xml[..tag_end], "");
+    let (open_tag, self_closing) = match open_tag.strip_suffix('/') {
+        Some(stripped) => (stripped.trim_end().to_string(), "/"),
+        None => (open_tag.trim_end().to_string(), ""),
+    };
+    let escaped = escape_xml_text(parent);
+    format!(
+        r#"{open_tag} cloneof="{escaped}" romof="{escaped}"{self_closing}{}"#,
+        &raw_xml[tag_end..]
+    )
+}
+
+fn indent_game_block(raw_xml: &str) -> String {
+    let trimmed = raw_xml.trim();
+    let lines: Vec<&str> = trimmed.lines().collect();
+    let min_indent = lines
+        .iter()
+        .filter(|l| !l.trim().is_empty())
+        .map(|l| l.len() - l.trim_start().len())
+        .min()
+        .unwrap_or(0);
+
+    lines
+        .iter()
+        .map(|line| {
+            if line.trim().is_empty() {
+                String::new()
+            } else {
+                let content = if line.len() >= min_indent {
+                    &line[min_indent..]
+                } else {
+                    line.trim_start()
+                };
+                format!("\t{content}")
+            }
+        })
+        .collect::<Vec<_>>()
+        .join("\n")
+}
+
+/// Combines the built-in region groups with user-defined ones (which replace a built-in group of
+/// the same name) and narrows each group to the regions a DAT actually has. Groups left empty are
+/// dropped.
+fn resolve_region_groups(
+    available_regions: &[String],
+    custom_groups: &[RegionGroup],
+) -> Vec<RegionGroup> {
+    let built_in = BUILT_IN_REGION_GROUPS
+        .iter()
+        .filter(|(name, _)| !custom_groups.iter().any(|group| group.name == *name))
+        .map(|(name, regions)| RegionGroup {
+            name: name.to_string(),
+            regions: regions.iter().map(|region| region.to_string()).collect(),
+        });
+    built_in
+        .chain(custom_groups.iter().cloned())
+        .map(|group| RegionGroup {
+            regions: group
+                .regions
+                .into_iter()
+                .filter(|region| available_regions.contains(region))
+                .collect(),
+            name: group.name,
+        })
+        .filter(|group| !group.name.trim().is_empty() && !group.regions.is_empty())
+        .collect()
+}
+
+/// Describes a region selection. Fully selected groups covering two or more regions are printed by
+/// name in `any` and `exclusive` mode; `all` mode keeps every region, since a group name would read
+/// as "any of these".
+fn create_region_label(
+    selected_regions: &[String],
+    match_mode: RegionMatchMode,
+    excluded_regions: &[String],
+    region_groups: &[RegionGroup],
+) -> String {
+    let label = if selected_regions.is_empty() {
+        String::new()
+    } else {
+        match match_mode {
+            RegionMatchMode::Any => {
+                collapse_region_groups(selected_regions, region_groups).join(", ")
+            }
+            RegionMatchMode::All => selected_regions.join(" + "),
+            RegionMatchMode::Exclusive => format!(
+                "{} only",
+                collapse_region_groups(selected_regions, region_groups).join(", ")
+            ),
+        }
+    };
+
+    if excluded_regions.is_empty() {
+        return label;
+    }
+    let exclusion = format!(
+        "excl. {}",
+        collapse_region_groups(excluded_regions, region_groups).join(", ")
+    );
+    if label.is_empty() {
+        exclusion
+    } else {
+        format!("{label}; {exclusion}")
+    }
+}
+
+/// Replaces fully contained groups with their name, larger groups first, keeping selection order.
+fn collapse_region_groups(regions: &[String], region_groups: &[RegionGroup]) -> Vec<String> {
+    let mut group_of: HashMap<&str, &str> = HashMap::new();
+    let mut by_size: Vec<&RegionGroup> =
+        region_groups.iter().filter(|group| group.regions.len() > 1).collect();
+    by_size.sort_by(|a, b| b.regions.len().cmp(&a.regions.len()));
+    for group in by_size {
+        if group
+            .regions
+            .iter()
+            .all(|region| regions.contains(region) && !group_of.contains_key(region.as_str()))
+        {
+            for region in &group.regions {
+                group_of.insert(region, &group.name);
+            }
+        }
+    }
+
+    let mut labels: Vec<String> = Vec::new();
+    for region in regions {
+        let label = group_of.get(region.as_str()).copied().unwrap_or(region);
+        if !labels.iter().any(|existing| existing == label) {
+            labels.push(label.to_string());
+        }
+    }
+    labels
+}
+
+fn sanitize_filename(input: &str) -> String {
+    static BAD_RE: OnceLock<Regex> = OnceLock::new();
+    static WS_RE: OnceLock<Regex> = OnceLock::new();
+    let bad_re = BAD_RE.get_or_init(|| Regex::new(r#"[<>:"/\\|?*]"#).unwrap());
+    let ws_re = WS_RE.get_or_init(|| Regex::new(r"\s+").unwrap());
+
+    ws_re
+        .replace_all(&bad_re.replace_all(input, " "), " ")
+        .trim()
+        .to_string()
+}
+
+fn derive_filtered_filename(
+    base_filename: Option<&str>,
+    header_description: Option<&str>,
+    decorated_system: &str,
+    descriptor_normalized: &str,
+    filtered_count: usize,
+    version_label: Option<&str>,
+    extensions: &[&str],
+) -> String {
+    static EXT_RE: OnceLock<Regex> = OnceLock::new();
+    static PATTERN_RE: OnceLock<Regex> = OnceLock::new();
+    let ext_re = EXT_RE.get_or_init(|| Regex::new(r"(\.[^.]+)$").unwrap());
+    let pattern_re = PATTERN_RE.get_or_init(|| {
+        Regex::new(r"(?i)^(.*?)\s*-\s*([^-()]+?(?:\s*\(\s*serial\s*,\s*version\s*\))?)\s*\((\d+)\)(.*)$")
+            .unwrap()
+    });
+
+    let default_extension = extensions.first().copied().unwrap_or(".dat");
+    let (extension, base_without_extension) = if let Some(base) = base_filename {
+        if let Some(caps) = ext_re.captures(base) {
+            let ext = caps.get(1).unwrap().as_str();
+            let without = &base[..base.len() - ext.len()];
+            let extension = if extensions.contains(&ext.to_lowercase().as_str()) {
+                ext
+            } else {
+                default_extension
+            };
+            (extension.to_string(), Some(without.to_string()))
+        } else {
+            (default_extension.to_string(), Some(base.to_string()))
+        }
+    } else {
+        (default_extension.to_string(), None)
+    };
+
+    if let Some(ref base_without) = base_without_extension {
+        if let Some(caps) = pattern_re.captures(base_without) {
+            let rest = caps.get(4).map(|m| m.as_str()).unwrap_or("");
+            let rest_trimmed = rest.trim();
+            let suffix = if !rest_trimmed.is_empty() {
+                format!(" {rest_trimmed}")
+            } else if let Some(v) = version_label {
+                format!(" ({v})")
+            } else {
+                String::new()
+            };
+            let base_name = format!(
+                "{decorated_system} - {descriptor_normalized} ({filtered_count}){suffix}"
+            );
+            return format!("{}{extension}", sanitize_filename(&base_name));
+        }
+    }
+
+    if let Some(desc) = header_description {
+        return format!("{}{extension}", sanitize_filename(desc));
+    }
+
+    let version_segment = version_label
+        .map(|v| format!(" ({v})"))
+        .unwrap_or_default();
+    let fallback = format!(
+        "{decorated_system} - {descriptor_normalized} ({filtered_count}){version_segment}"
+    );
+    format!("{}{extension}", sanitize_filename(&fallback))
+}
+
+fn escape_reg_exp(value: &str) -> String {
+    let mut out = String::with_capacity(value.len());
+    for ch in value.chars() {
+        if matches!(
+            ch,
+            '.' | '*' | '+' | '?' | '^' | '$' | '{' | '}' | '(' | ')' | '|' | '[' | ']' | '\\'
+        ) {
+            out.push('\\');
+        }
+        out.push(ch);
+    }
+    out
+}
+
+fn escape_xml_text(value: &str) -> String {
+    value
+        .replace('&', "&amp;")
+        .replace('<', "&lt;")
+        .replace('>', "&gt;")
+        .replace('"', "&quot;")
+}
+
+fn decode_basic_entities(value: &str) -> String {
+    if !value.contains('&') {
+        return value.to_string();
+    }
+    value
+        .replace("&lt;", "<")
+        .replace("&gt;", ">")
+        .replace("&quot;", "\"")
+        .replace("&apos;", "'")
+        .replace("&amp;", "&")
+}
+
+fn non_empty(value: String) -> Option<String> {
+    if value.is_empty() {
+        None
+    } else {
+        Some(value)
+    }
+}
+
+fn fallback_iso_date() -> String {
+    use std::time::{SystemTime, UNIX_EPOCH};
+    let secs = SystemTime::now()
+        .duration_since(UNIX_EPOCH)
+        .map(|d| d.as_secs())
+        .unwrap_or(0);
+    // Civil date from Unix days (UTC), matching JS toISOString().split('T')[0] closely enough.
+    let days = (secs / 86_400) as i64;
+    let (y, m, d) = civil_from_days(days);
+    format!("{y:04}-{m:02}-{d:02}")
+}
+
+/// Algorithm from Howard Hinnant's date algorithms (UTC civil date from Unix day count).
+fn civil_from_days(z: i64) -> (i32, u32, u32) {
+    let z = z + 719_468;
+    let era = if z >= 0 { z } else { z - 146_096 } / 146_097;
+    let doe = (z - era * 146_097) as u64;
+    let yoe = (doe - doe / 1460 + doe / 36524 - doe / 146_096) / 365;
+    let y = yoe as i64 + era * 400;
+    let doy = doe - (365 * yoe + yoe / 4 - yoe / 100);
+    let mp = (5 * doy + 2) / 153;
+    let d = doy - (153 * mp + 2) / 5 + 1;
+    let m = if mp < 10 { mp + 3 } else { mp - 9 };
+    let y = if m <= 2 { y + 1 } else { y };
+    (y as i32, m as u32, d as u32)
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
 
     const SAMPLE_DAT: &str = r#"<?xml version="1.0"?>
 <!DOCTYPE datafile PUBLIC "-//Logiqx//DTD ROM Management Datafile//EN" "http://www.logiqx.com/Dats/datafile.dtd">
 <datafile>
   <header>
-    <name>Microsoft - Xbox</name>
-    <description>Microsoft - Xbox - Datfile (4) (2025-11-07 05-38-55)</description>
-    <version>2025-11-07 05-38-55</version>
-    <date>2025-11-07</date>
-    <author>Redump</author>
+    <name>Microsoft - Xbox</name>
+    <description>Microsoft - Xbox - Datfile (4) (2025-11-07 05-38-55)</description>
+    <version>2025-11-07 05-38-55</version>
+    <date>2025-11-07</date>
+    <author>Redump</author>
+  </header>
+  <game name="Halo (USA)">
+    <rom name="Halo (USA)" size="1" crc="11111111"/>
+  </game>
+  <game name="Forza Motorsport (Europe)">
+    <rom name="Forza Motorsport (Europe)" size="1" crc="22222222"/>
+  </game>
+  <game name="Project Gotham Racing 2 (Japan)">
+    <rom name="Project Gotham Racing 2 (Japan)" size="1" crc="33333333"/>
+  </game>
+  <game name="Generic Title">
+    <rom name="Generic Title" size="1" crc="44444444"/>
+  </game>
+</datafile>"#;
+
+    #[test]
+    fn parses_header_regions_and_descriptors() {
+        let parsed = parse_dat(SAMPLE_DAT).expect("parse SAMPLE_DAT");
+
+        assert_eq!(parsed.header.name, "Microsoft - Xbox");
+        assert_eq!(parsed.games.len(), 4);
+        assert_eq!(
+            parsed.available_regions,
+            vec!["Europe", "Japan", "Unknown", "USA"]
+        );
+        assert_eq!(parsed.descriptor, "Datfile");
+        assert_eq!(
+            parsed.version_label.as_deref(),
+            Some("2025-11-07 05-38-55")
+        );
+    }
+
+    #[test]
+    fn normalizes_region_synonyms_from_game_titles() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Example (US)"><rom name="Example (US)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Other (USA, Europe)"><rom name="Other (USA, Europe)" size="1" crc="bbbbbbbb"/></game>
+</datafile>"#,
+        )
+        .expect("parse synonym DAT");
+
+        assert_eq!(parsed.games[0].regions, vec!["USA"]);
+        assert_eq!(parsed.games[1].regions, vec!["USA", "Europe"]);
+    }
+
+    #[test]
+    fn honors_user_region_synonyms_and_custom_regions() {
+        let xml = r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Nordic Quest (Scand)"><rom name="Nordic Quest (Scand)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Nordic Quest (USA)"><rom name="Nordic Quest (USA)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Lowlands (benelux)"><rom name="Lowlands (benelux)" size="1" crc="cccccccc"/></game>
+  <game name="Continental (PAL)"><rom name="Continental (PAL)" size="1" crc="dddddddd"/></game>
+</datafile>"#;
+        let overrides = RegionOverrides {
+            synonyms: BTreeMap::from([
+                ("Scand.".to_string(), "Scandinavia".to_string()),
+                ("pal".to_string(), "PAL Territories".to_string()),
+            ]),
+            regions: vec!["Benelux".to_string()],
+        };
+
+        let built_in = parse_dat(xml).expect("parse DAT with built-in regions");
+        assert!(built_in.games[0].regions.is_empty());
+        assert_eq!(built_in.games[0].tags.len(), 1);
+        assert_eq!(built_in.games[0].tags[0].key, "Scand");
+        assert_eq!(built_in.games[3].regions, vec!["Europe"]);
+
+        let parsed = parse_dat_with_regions(xml, &RegionTable::new(&overrides))
+            .expect("parse DAT with region overrides");
+        let regions: Vec<&[String]> =
+            parsed.games.iter().map(|game| game.regions.as_slice()).collect();
+        assert_eq!(
+            regions,
+            vec![
+                &["Scandinavia".to_string()][..],
+                &["USA".to_string()][..],
+                &["Benelux".to_string()][..],
+                &["PAL Territories".to_string()][..],
+            ]
+        );
+        assert!(parsed.games[0].tags.is_empty());
+        assert_eq!(
+            parsed.available_regions,
+            vec!["Benelux", "PAL Territories", "Scandinavia", "USA"]
+        );
+
+        let options = FilterOptions {
+            one_game_one_rom: true,
+            region_priority: Some(vec!["Scandinavia".to_string(), "USA".to_string()]),
+            ..FilterOptions::default()
+        };
+        let result = filter_dat_by_regions(
+            &parsed,
+            &["scand".to_string(), "USA".to_string()],
+            None,
+            &options,
+        )
+        .unwrap();
+        let names: Vec<&str> = result.games.iter().map(|game| game.name.as_str()).collect();
+        assert_eq!(names, vec!["Nordic Quest (Scand)"]);
+        assert_eq!(result.summary.selected_regions, vec!["Scandinavia", "USA"]);
+    }
+
+    #[test]
+    fn reads_machine_elements_and_maps_iso_3166_region_codes() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <machine name="Puzzler (1994)(Acme)(DE)(De)"><rom name="puzzler.bin" size="1" crc="aaaaaaaa"/></machine>
+  <machine name="Racer (1995)(Acme)(US-GB)" cloneof="Racer (1995)(Acme)(JP)"><rom name="racer.bin" size="1" crc="bbbbbbbb"/></machine>
+  <machine name="Racer (1995)(Acme)(JP)"><rom name="racer-jp.bin" size="1" crc="cccccccc"/></machine>
+</datafile>"#,
+        )
+        .expect("parse machine DAT");
+
+        let elements: Vec<_> = parsed.games.iter().map(|game| game.element).collect();
+        assert_eq!(elements, vec![DatGameElement::Machine; 3]);
+        assert_eq!(parsed.games[0].regions, vec!["Germany"]);
+        assert_eq!(parsed.games[0].languages, vec!["De"]);
+        assert_eq!(parsed.games[1].regions, vec!["USA", "United Kingdom"]);
+        assert_eq!(parsed.games[2].regions, vec!["Japan"]);
+
+        let regions = vec!["USA".to_string(), "Germany".to_string()];
+        let result =
+            filter_dat_by_regions(&parsed, &regions, None, &FilterOptions::default()).unwrap();
+        assert!(result.content.contains(
+            r#"<machine name="Racer (1995)(Acme)(US-GB)" cloneof="Racer (1995)(Acme)(JP)">"#
+        ));
+        assert!(!result.content.contains("<game "));
+
+        let options = FilterOptions {
+            output_format: DatOutputFormat::ClrMamePro,
+            ..FilterOptions::default()
+        };
+        let text =
+            filter_dat_by_regions(&parsed, &["Japan".to_string()], None, &options).unwrap();
+        assert!(text
+            .content
+            .contains("\r\nmachine (\r\n\tname \"Racer (1995)(Acme)(JP)\""));
+    }
+
+    #[test]
+    fn keeps_interleaved_game_and_machine_entries_in_source_order_through_a_round_trip() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Alpha (USA)"><rom name="alpha.bin" size="1" crc="aaaaaaaa"/></game>
+  <machine name="Bravo (USA)"><rom name="bravo.bin" size="1" crc="bbbbbbbb"/></machine>
+  <game name="Charlie (USA)"><rom name="charlie.bin" size="1" crc="cccccccc"/></game>
+  <machine name="Delta (USA)"/>
+</datafile>"#,
+        )
+        .expect("parse mixed DAT");
+        let entries = |parsed: &ParsedDat| -> Vec<(DatGameElement, String)> {
+            parsed.games.iter().map(|game| (game.element, game.name.clone())).collect()
+        };
+        let expected = vec![
+            (DatGameElement::Game, "Alpha (USA)".to_string()),
+            (DatGameElement::Machine, "Bravo (USA)".to_string()),
+            (DatGameElement::Game, "Charlie (USA)".to_string()),
+            (DatGameElement::Machine, "Delta (USA)".to_string()),
+        ];
+        assert_eq!(entries(&parsed), expected);
+
+        let regions = vec!["USA".to_string()];
+        let result =
+            filter_dat_by_regions(&parsed, &regions, None, &FilterOptions::default()).unwrap();
+        let round_trip = parse_dat(&result.content).expect("parse written DAT");
+        assert_eq!(entries(&round_trip), expected);
+    }
+
+    #[test]
+    fn throws_when_datafile_root_is_missing() {
+        let err = parse_dat("<root></root>").unwrap_err();
+        assert!(
+            err.contains("missing <datafile>"),
+            "unexpected error: {err}"
+        );
+    }
+
+    #[test]
+    fn filters_games_to_the_selected_regions() {
+        let parsed = parse_dat(SAMPLE_DAT).unwrap();
+        let result = filter_dat_by_regions(
+            &parsed,
+            &["USA".to_string()],
+            Some("Microsoft - Xbox - Datfile (4) (2025-11-07).dat"),
+            &FilterOptions::default(),
+        )
+        .unwrap();
+
+        assert_eq!(result.games.len(), 1);
+        assert_eq!(result.games[0].name, "Halo (USA)");
+        assert_eq!(result.summary.filtered_games, 1);
+        assert_eq!(result.summary.removed_games, 3);
+        assert!(result.header.name.contains("(USA)"));
+        assert!(result
+            .header
+            .description
+            .as_deref()
+            .unwrap_or("")
+            .contains("(1)"));
+        let filename_re = Regex::new(r"Microsoft - Xbox \(USA\) - Datfile \(1\)").unwrap();
+        assert!(filename_re.is_match(&result.filename));
+        let game_re = Regex::new(r#"<game name="Halo \(USA\)">"#).unwrap();
+        assert!(game_re.is_match(&result.content));
+        assert!(!result.content.contains("Forza Motorsport"));
+    }
+
+    #[test]
+    fn indexes_games_by_region_and_previews_without_building_the_output() {
+        let parsed = parse_dat(SAMPLE_DAT).unwrap();
+
+        assert_eq!(parsed.index.regions["USA"], vec![0]);
+        assert_eq!(parsed.index.regions["Unknown"], vec![3]);
+        assert_eq!(parsed.index.units, vec![vec![0], vec![1], vec![2], vec![3]]);
+
+        let source = Some("Microsoft - Xbox - Datfile (4) (2025-11-07).dat");
+        let regions = vec!["USA".to_string(), "Europe".to_string()];
+        let options = FilterOptions {
+            excluded_regions: vec!["Japan".to_string()],
+            ..FilterOptions::default()
+        };
+        let preview = preview_filter(&parsed, &regions, source, &options).unwrap();
+        let result = filter_dat_by_regions(&parsed, &regions, source, &options).unwrap();
+
+        assert_eq!(preview.filename, result.filename);
+        assert_eq!(preview.header.name, result.header.name);
+        assert_eq!(preview.header.description, result.header.description);
+        assert_eq!(preview.summary.filtered_games, 2);
+        assert_eq!(preview.summary.removed_games, result.summary.removed_games);
+    }
+
+    #[test]
+    fn preserves_serial_version_descriptor_tags_and_filename() {
+        let xml = r#"<?xml version="1.0"?>
+<!DOCTYPE datafile PUBLIC "-//Logiqx//DTD ROM Management Datafile//EN" "http://www.logiqx.com/Dats/datafile.dtd">
+<datafile>
+  <header>
+    <name>Sony - PlayStation</name>
+    <description>Sony - PlayStation - Datfile (serial,version) (2) (2026-08-15 10-57-09)</description>
+    <version>2026-08-15 10-57-09</version>
+    <date>2026-08-15</date>
+    <author>redump.org</author>
+    <homepage>http://redump.org/</homepage>
+    <url>http://redump.org/</url>
   </header>
-  <game name="Halo (USA)">
-    <rom name="Halo (USA)" size="1" crc="11111111"/>
+  <game name="Ridge Racer (USA)">
+    <category>Games</category>
+    <description>Ridge Racer (USA)</description>
+    <id>1</id>
+    <serial>SCUS-94300</serial>
+    <rom name="Ridge Racer (USA)" size="1" crc="aaaaaaaa"/>
   </game>
-  <game name="Forza Motorsport (Europe)">
-    <rom name="Forza Motorsport (Europe)" size="1" crc="22222222"/>
+  <game name="Tekken (Europe)">
+    <category>Games</category>
+    <description>Tekken (Europe)</description>
+    <id>2</id>
+    <serial>SCES-00005</serial>
+    <rom name="Tekken (Europe)" size="1" crc="bbbbbbbb"/>
   </game>
-  <game name="Project Gotham Racing 2 (Japan)">
-    <rom name="Project Gotham Racing 2 (Japan)" size="1" crc="33333333"/>
+</datafile>"#;
+        let parsed = parse_dat(xml).expect("parse serial DAT");
+        assert_eq!(parsed.descriptor, "Datfile (serial,version)");
+        assert_eq!(parsed.normalized_descriptor, "Datfile (serial,version)");
+
+        let result = filter_dat_by_regions(
+            &parsed,
+            &["USA".to_string()],
+            Some("Sony - PlayStation - Datfile (serial,version) (2) (2026-08-15 10-57-09).dat"),
+            &FilterOptions::default(),
+        )
+        .unwrap();
+
+        assert_eq!(result.games.len(), 1);
+        assert!(result
+            .header
+            .description
+            .as_deref()
+            .unwrap_or("")
+            .contains("Datfile (serial,version)"));
+        assert!(result.filename.contains("Datfile (serial,version)"));
+        assert!(result.content.contains("<serial>SCUS-94300</serial>"));
+        assert!(!result.content.contains("Tekken"));
+    }
+
+    #[test]
+    fn returns_all_games_when_no_regions_are_selected() {
+        let parsed = parse_dat(SAMPLE_DAT).unwrap();
+        let result = filter_dat_by_regions(
+            &parsed,
+            &[],
+            Some("source.dat"),
+            &FilterOptions::default(),
+        )
+        .unwrap();
+
+        assert_eq!(result.games.len(), 4);
+        assert_eq!(result.summary.selected_regions.len(), 0);
+    }
+
+    #[test]
+    fn throws_when_no_games_match_the_selected_regions() {
+        let parsed = parse_dat(SAMPLE_DAT).unwrap();
+        let err = filter_dat_by_regions(
+            &parsed,
+            &["Brazil".to_string()],
+            Some("source.dat"),
+            &FilterOptions::default(),
+        )
+        .unwrap_err();
+        assert!(
+            err.contains("No games match the selected region filters"),
+            "unexpected error: {err}"
+        );
+    }
+
+    #[test]
+    fn rewrites_xml_with_crlf_line_endings_and_preserves_doctype() {
+        let parsed = parse_dat(SAMPLE_DAT).unwrap();
+        let result = filter_dat_by_regions(
+            &parsed,
+            &["Europe".to_string()],
+            Some("source.dat"),
+            &FilterOptions::default(),
+        )
+        .unwrap();
+
+        let start_re =
+            Regex::new(r#"^<\?xml version="1.0"\?>\r\n<!DOCTYPE datafile"#).unwrap();
+        assert!(start_re.is_match(&result.content));
+        let game_re =
+            Regex::new(r#"\r\n\t<game name="Forza Motorsport \(Europe\)">"#).unwrap();
+        assert!(game_re.is_match(&result.content));
+    }
+
+    #[test]
+    fn parses_self_closing_games_and_ignores_similar_tags() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <games count="2"/>
+  <game name="Alpha (USA)"/>
+  <game name="Beta (Europe)"></game>
+</datafile>"#,
+        )
+        .expect("parse self-closing DAT");
+
+        assert_eq!(parsed.games.len(), 2);
+        assert_eq!(parsed.games[0].name, "Alpha (USA)");
+        assert_eq!(parsed.games[0].regions, vec!["USA"]);
+        assert_eq!(parsed.games[1].name, "Beta (Europe)");
+        assert_eq!(parsed.games[1].regions, vec!["Europe"]);
+    }
+
+    #[test]
+    fn parses_a_large_dat_without_dropping_games() {
+        let mut xml = String::from(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+"#,
+        );
+        for i in 0..4000 {
+            xml.push_str(&format!(
+                r#"  <game name="Title {i} (USA)"><description>Title {i} (USA)</description><rom name="Title {i} (USA)" size="1" crc="aaaaaaaa"/></game>
+"#
+            ));
+        }
+        xml.push_str("</datafile>");
+
+        let parsed = parse_dat(&xml).expect("parse large DAT");
+        assert_eq!(parsed.games.len(), 4000);
+        assert_eq!(parsed.games[0].name, "Title 0 (USA)");
+        assert_eq!(parsed.games[3999].name, "Title 3999 (USA)");
+        assert_eq!(parsed.available_regions, vec!["USA"]);
+    }
+
+    #[test]
+    fn throws_when_header_name_is_missing() {
+        let err = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><description>No name</description></header>
+  <game name="Example (USA)"><rom name="Example (USA)" size="1" crc="aaaaaaaa"/></game>
+</datafile>"#,
+        )
+        .unwrap_err();
+        assert!(
+            err.contains("missing <name>"),
+            "unexpected error: {err}"
+        );
+    }
+
+    #[test]
+    fn decodes_entities_in_game_names_but_keeps_source_xml() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Tom &amp; Jerry (USA)">
+    <rom name="Tom &amp; Jerry (USA)" size="1" crc="aaaaaaaa"/>
   </game>
-  <game name="Generic Title">
-    <rom name="Generic Title" size="1" crc="44444444"/>
+</datafile>"#,
+        )
+        .expect("parse entity DAT");
+
+        assert_eq!(parsed.games[0].name, "Tom & Jerry (USA)");
+        assert_eq!(parsed.games[0].regions, vec!["USA"]);
+
+        let result = filter_dat_by_regions(
+            &parsed,
+            &["USA".to_string()],
+            Some("source.dat"),
+            &FilterOptions::default(),
+        )
+        .unwrap();
+        assert!(result.content.contains(r#"name="Tom &amp; Jerry (USA)""#));
+    }
+
+    #[test]
+    fn uses_later_parenthetical_when_earlier_ones_are_not_regions() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Final Fantasy IX (Disc 1) (USA)">
+    <rom name="Final Fantasy IX (Disc 1) (USA)" size="1" crc="aaaaaaaa"/>
   </game>
-</datafile>"#;
+  <game name="Ridge Racer (Rev 1) (Japan)">
+    <rom name="Ridge Racer (Rev 1) (Japan)" size="1" crc="bbbbbbbb"/>
+  </game>
+</datafile>"#,
+        )
+        .expect("parse disc DAT");
+
+        assert_eq!(parsed.games[0].regions, vec!["USA"]);
+        assert_eq!(parsed.games[1].regions, vec!["Japan"]);
+    }
+
+    #[test]
+    fn falls_back_to_description_then_rom_name_for_regions() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Catalog 1001">
+    <description>Cool Game (Europe)</description>
+    <rom name="Cool Game (Europe)" size="1" crc="aaaaaaaa"/>
+  </game>
+  <game name="Mystery Dump">
+    <rom name="Mystery Dump (Japan)" size="1" crc="bbbbbbbb"/>
+  </game>
+  <game name="No Clue">
+    <rom name="No Clue.bin" size="1" crc="cccccccc"/>
+  </game>
+</datafile>"#,
+        )
+        .expect("parse fallback DAT");
+
+        assert_eq!(parsed.games[0].regions, vec!["Europe"]);
+        assert_eq!(parsed.games[1].regions, vec!["Japan"]);
+        assert_eq!(parsed.games[2].regions, Vec::<String>::new());
+        assert_eq!(parsed.available_regions, vec!["Europe", "Japan", "Unknown"]);
+    }
 
     #[test]
-    fn parses_header_regions_and_descriptors() {
-        let parsed = parse_dat(SAMPLE_DAT).expect("parse SAMPLE_DAT");
+    fn splits_combined_region_tokens_and_synonyms() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="A (USA / Europe)"><rom name="A" size="1" crc="aaaaaaaa"/></game>
+  <game name="B (Japan &amp; USA)"><rom name="B" size="1" crc="bbbbbbbb"/></game>
+  <game name="C (PAL)"><rom name="C" size="1" crc="cccccccc"/></game>
+  <game name="D (JPN)"><rom name="D" size="1" crc="dddddddd"/></game>
+  <game name="E (World)"><rom name="E" size="1" crc="eeeeeeee"/></game>
+</datafile>"#,
+        )
+        .expect("parse combined regions DAT");
 
-        assert_eq!(parsed.header.name, "Microsoft - Xbox");
-        assert_eq!(parsed.games.len(), 4);
-        assert_eq!(
-            parsed.available_regions,
-            vec!["Europe", "Japan", "Unknown", "USA"]
-        );
-        assert_eq!(parsed.descriptor, "Datfile");
-        assert_eq!(
-            parsed.version_label.as_deref(),
-            Some("2025-11-07 05-38-55")
-        );
+        assert_eq!(parsed.games[0].regions, vec!["USA", "Europe"]);
+        assert_eq!(parsed.games[1].regions, vec!["Japan", "USA"]);
+        assert_eq!(parsed.games[2].regions, vec!["Europe"]);
+        assert_eq!(parsed.games[3].regions, vec!["Japan"]);
+        assert_eq!(parsed.games[4].regions, vec!["World"]);
     }
 
     #[test]
-    fn normalizes_region_synonyms_from_game_titles() {
+    fn reads_child_name_when_attribute_is_missing() {
         let parsed = parse_dat(
             r#"<?xml version="1.0"?>
 <datafile>
   <header><name>Test System</name></header>
-  <game name="Example (US)"><rom name="Example (US)" size="1" crc="aaaaaaaa"/></game>
-  <game name="Other (USA, Europe)"><rom name="Other (USA, Europe)" size="1" crc="bbbbbbbb"/></game>
+  <game>
+    <name>Child Named (USA)</name>
+    <rom name="Child Named (USA)" size="1" crc="aaaaaaaa"/>
+  </game>
 </datafile>"#,
         )
-        .expect("parse synonym DAT");
+        .expect("parse child name DAT");
 
+        assert_eq!(parsed.games[0].name, "Child Named (USA)");
         assert_eq!(parsed.games[0].regions, vec!["USA"]);
-        assert_eq!(parsed.games[1].regions, vec!["USA", "Europe"]);
     }
 
     #[test]
-    fn throws_when_datafile_root_is_missing() {
-        let err = parse_dat("<root></root>").unwrap_err();
-        assert!(
-            err.contains("missing <datafile>"),
-            "unexpected error: {err}"
-        );
+    fn preserves_all_rom_lines_and_extra_tags_when_filtering() {
+        let xml = r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Sony - PlayStation</name></header>
+  <game name="Ridge Racer (USA)">
+    <category>Games</category>
+    <description>Ridge Racer (USA)</description>
+    <id>1</id>
+    <serial>SCUS-94300</serial>
+    <rom name="Ridge Racer (USA).cue" size="10" crc="aaaaaaaa"/>
+    <rom name="Ridge Racer (USA).bin" size="100" crc="bbbbbbbb"/>
+  </game>
+</datafile>"#;
+        let parsed = parse_dat(xml).expect("parse multi-rom DAT");
+        let result = filter_dat_by_regions(
+            &parsed,
+            &["USA".to_string()],
+            Some("source.dat"),
+            &FilterOptions::default(),
+        )
+        .unwrap();
+
+        assert_eq!(parsed.games[0].category.as_deref(), Some("Games"));
+        assert!(result.content.contains("<serial>SCUS-94300</serial>"));
+        assert!(result.content.contains(r#"<rom name="Ridge Racer (USA).cue""#));
+        assert!(result.content.contains(r#"<rom name="Ridge Racer (USA).bin""#));
     }
 
     #[test]
-    fn filters_games_to_the_selected_regions() {
+    fn filters_to_union_of_selected_regions() {
         let parsed = parse_dat(SAMPLE_DAT).unwrap();
         let result = filter_dat_by_regions(
             &parsed,
-            &["USA".to_string()],
-            Some("Microsoft - Xbox - Datfile (4) (2025-11-07).dat"),
+            &["USA".to_string(), "Japan".to_string()],
+            Some("source.dat"),
+            &FilterOptions::default(),
         )
         .unwrap();
 
-        assert_eq!(result.games.len(), 1);
+        assert_eq!(result.games.len(), 2);
         assert_eq!(result.games[0].name, "Halo (USA)");
-        assert_eq!(result.summary.filtered_games, 1);
+        assert_eq!(result.games[1].name, "Project Gotham Racing 2 (Japan)");
+        assert!(result.header.name.contains("(USA, Japan)"));
+    }
+
+    #[test]
+    fn keeps_one_release_per_title_in_one_game_one_rom_mode() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Racer (Japan)"><rom name="Racer (Japan)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Racer (Europe) (En,Fr,De)"><rom name="Racer (Europe)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Racer (USA)"><rom name="Racer (USA)" size="1" crc="cccccccc"/></game>
+  <game name="Quest (Disc 1) (Europe)"><rom name="Quest (Disc 1) (Europe)" size="1" crc="dddddddd"/></game>
+  <game name="Quest (Disc 2) (Europe)"><rom name="Quest (Disc 2) (Europe)" size="1" crc="eeeeeeee"/></game>
+  <game name="Quest (Disc 1) (Japan)"><rom name="Quest (Disc 1) (Japan)" size="1" crc="ffffffff"/></game>
+</datafile>"#,
+        )
+        .expect("parse 1G1R DAT");
+
+        let options = FilterOptions {
+            one_game_one_rom: true,
+            region_priority: Some(vec![
+                "USA".to_string(),
+                "World".to_string(),
+                "Europe".to_string(),
+                "Japan".to_string(),
+            ]),
+            ..FilterOptions::default()
+        };
+        let result = filter_dat_by_regions(
+            &parsed,
+            &["USA".to_string(), "Europe".to_string(), "Japan".to_string()],
+            Some("source.dat"),
+            &options,
+        )
+        .unwrap();
+
+        let names: Vec<&str> = result.games.iter().map(|game| game.name.as_str()).collect();
+        assert_eq!(
+            names,
+            vec!["Racer (USA)", "Quest (Disc 1) (Europe)", "Quest (Disc 2) (Europe)"]
+        );
+        assert_eq!(result.summary.collapsed_games, 3);
         assert_eq!(result.summary.removed_games, 3);
-        assert!(result.header.name.contains("(USA)"));
-        assert!(result
-            .header
-            .description
-            .as_deref()
-            .unwrap_or("")
-            .contains("(1)"));
-        let filename_re = Regex::new(r"Microsoft - Xbox \(USA\) - Datfile \(1\)").unwrap();
-        assert!(filename_re.is_match(&result.filename));
-        let game_re = Regex::new(r#"<game name="Halo \(USA\)">"#).unwrap();
-        assert!(game_re.is_match(&result.xml));
-        assert!(!result.xml.contains("Forza Motorsport"));
+
+        let uncollapsed = filter_dat_by_regions(
+            &parsed,
+            &[],
+            Some("source.dat"),
+            &FilterOptions::default(),
+        )
+        .unwrap();
+        assert_eq!(uncollapsed.games.len(), 6);
+        assert_eq!(uncollapsed.summary.collapsed_games, 0);
     }
 
     #[test]
-    fn preserves_serial_version_descriptor_tags_and_filename() {
-        let xml = r#"<?xml version="1.0"?>
-<!DOCTYPE datafile PUBLIC "-//Logiqx//DTD ROM Management Datafile//EN" "http://www.logiqx.com/Dats/datafile.dtd">
+    fn parses_languages_and_combines_them_with_the_region_selection() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
 <datafile>
-  <header>
-    <name>Sony - PlayStation</name>
-    <description>Sony - PlayStation - Datfile (serial,version) (2) (2026-08-15 10-57-09)</description>
-    <version>2026-08-15 10-57-09</version>
-    <date>2026-08-15</date>
-    <author>redump.org</author>
-    <homepage>http://redump.org/</homepage>
-    <url>http://redump.org/</url>
-  </header>
-  <game name="Ridge Racer (USA)">
-    <category>Games</category>
-    <description>Ridge Racer (USA)</description>
-    <id>1</id>
-    <serial>SCUS-94300</serial>
-    <rom name="Ridge Racer (USA)" size="1" crc="aaaaaaaa"/>
-  </game>
-  <game name="Tekken (Europe)">
-    <category>Games</category>
-    <description>Tekken (Europe)</description>
-    <id>2</id>
-    <serial>SCES-00005</serial>
-    <rom name="Tekken (Europe)" size="1" crc="bbbbbbbb"/>
-  </game>
-</datafile>"#;
-        let parsed = parse_dat(xml).expect("parse serial DAT");
-        assert_eq!(parsed.descriptor, "Datfile (serial,version)");
-        assert_eq!(parsed.normalized_descriptor, "Datfile (serial,version)");
+  <header><name>Test System</name></header>
+  <game name="Alpha (Europe) (En,Fr,De)"><rom name="Alpha (Europe)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Beta (Europe) (Fr,De)"><rom name="Beta (Europe)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Gamma (USA)"><rom name="Gamma (USA)" size="1" crc="cccccccc"/></game>
+  <game name="Delta (Disc 1) (Japan) (Ja+En)"><rom name="Delta (Japan)" size="1" crc="dddddddd"/></game>
+</datafile>"#,
+        )
+        .expect("parse language DAT");
+
+        assert_eq!(parsed.games[0].languages, vec!["En", "Fr", "De"]);
+        assert_eq!(parsed.games[2].languages, Vec::<String>::new());
+        assert_eq!(parsed.games[3].languages, vec!["Ja", "En"]);
+        assert_eq!(
+            parsed.available_languages,
+            vec!["De", "En", "Fr", "Ja", "Unknown"]
+        );
 
+        let options = FilterOptions {
+            languages: vec!["En".to_string()],
+            ..FilterOptions::default()
+        };
         let result = filter_dat_by_regions(
             &parsed,
-            &["USA".to_string()],
-            Some("Sony - PlayStation - Datfile (serial,version) (2) (2026-08-15 10-57-09).dat"),
+            &["Europe".to_string(), "USA".to_string()],
+            Some("source.dat"),
+            &options,
         )
         .unwrap();
 
         assert_eq!(result.games.len(), 1);
-        assert!(result
-            .header
-            .description
-            .as_deref()
-            .unwrap_or("")
-            .contains("Datfile (serial,version)"));
-        assert!(result.filename.contains("Datfile (serial,version)"));
-        assert!(result.xml.contains("<serial>SCUS-94300</serial>"));
-        assert!(!result.xml.contains("Tekken"));
+        assert_eq!(result.games[0].name, "Alpha (Europe) (En,Fr,De)");
+        assert_eq!(result.summary.selected_languages, vec!["En"]);
     }
 
     #[test]
-    fn returns_all_games_when_no_regions_are_selected() {
-        let parsed = parse_dat(SAMPLE_DAT).unwrap();
-        let result = filter_dat_by_regions(&parsed, &[], Some("source.dat")).unwrap();
+    fn parses_release_tags_and_filters_them_with_include_exclude_sets() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Alpha (USA)"><rom name="Alpha (USA)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Alpha (USA) (Beta 2)"><rom name="Alpha (USA) (Beta 2)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Alpha (USA) (Proto) (Demo)"><rom name="Alpha (USA) (Proto) (Demo)" size="1" crc="cccccccc"/></game>
+  <game name="Gamma (USA) (En,Fr) (Limited Edition) (Unl)"><rom name="Gamma (USA) (Unl)" size="1" crc="dddddddd"/></game>
+  <game name="Delta (USA) (Rev 1) (v1.1)"><rom name="Delta (USA) (Rev 1)" size="1" crc="eeeeeeee"/></game>
+</datafile>"#,
+        )
+        .expect("parse tagged DAT");
 
-        assert_eq!(result.games.len(), 4);
-        assert_eq!(result.summary.selected_regions.len(), 0);
+        assert_eq!(
+            parsed.games[1].tags,
+            vec![DatTag {
+                key: "Beta".to_string(),
+                label: "Beta 2".to_string(),
+                value: Some("2".to_string()),
+            }]
+        );
+        // Parentheticals outside the known tag families stay tags keyed by their own label.
+        let gamma_tags: Vec<&str> =
+            parsed.games[3].tags.iter().map(|tag| tag.key.as_str()).collect();
+        assert_eq!(gamma_tags, vec!["Limited Edition", "Unl"]);
+        assert_eq!(parsed.games[4].tags[1].key, "Version");
+        assert_eq!(parsed.games[4].tags[1].value.as_deref(), Some("1.1"));
+        assert_eq!(
+            parsed.available_tags,
+            vec!["Beta", "Demo", "Limited Edition", "Proto", "Rev", "Unl", "Version"]
+        );
+
+        let options = FilterOptions {
+            exclude_tags: vec!["Beta".to_string(), "Proto".to_string(), "Demo".to_string()],
+            ..FilterOptions::default()
+        };
+        let excluded =
+            filter_dat_by_regions(&parsed, &["USA".to_string()], Some("source.dat"), &options)
+                .unwrap();
+        let names: Vec<&str> = excluded.games.iter().map(|game| game.name.as_str()).collect();
+        assert_eq!(
+            names,
+            vec![
+                "Alpha (USA)",
+                "Gamma (USA) (En,Fr) (Limited Edition) (Unl)",
+                "Delta (USA) (Rev 1) (v1.1)",
+            ]
+        );
+        assert_eq!(excluded.summary.tag_exclusion_counts["Beta"], 1);
+        assert_eq!(excluded.summary.tag_exclusion_counts["Proto"], 1);
+        assert_eq!(excluded.summary.tag_exclusion_counts["Demo"], 1);
+
+        let options = FilterOptions {
+            include_tags: vec!["Rev".to_string(), "Unl".to_string()],
+            exclude_tags: vec!["Unl".to_string()],
+            ..FilterOptions::default()
+        };
+        let included =
+            filter_dat_by_regions(&parsed, &["USA".to_string()], Some("source.dat"), &options)
+                .unwrap();
+        assert_eq!(included.games.len(), 1);
+        assert_eq!(included.games[0].name, "Delta (USA) (Rev 1) (v1.1)");
+
+        let options = FilterOptions {
+            include_tags: vec!["Limited Edition".to_string()],
+            ..FilterOptions::default()
+        };
+        let limited =
+            filter_dat_by_regions(&parsed, &["USA".to_string()], Some("source.dat"), &options)
+                .unwrap();
+        assert_eq!(limited.games.len(), 1);
+        assert_eq!(limited.games[0].name, "Gamma (USA) (En,Fr) (Limited Edition) (Unl)");
     }
 
     #[test]
-    fn throws_when_no_games_match_the_selected_regions() {
-        let parsed = parse_dat(SAMPLE_DAT).unwrap();
-        let err = filter_dat_by_regions(&parsed, &["Brazil".to_string()], Some("source.dat"))
-            .unwrap_err();
-        assert!(
-            err.contains("No games match the selected region filters"),
-            "unexpected error: {err}"
+    fn keeps_only_the_latest_revision_of_each_title_and_region() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Title (USA)"><rom name="Title (USA)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Title (USA) (Rev 2)"><rom name="Title (USA) (Rev 2)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Title (USA) (Rev 1)"><rom name="Title (USA) (Rev 1)" size="1" crc="cccccccc"/></game>
+  <game name="Title (Europe) (En,Fr)"><rom name="Title (Europe)" size="1" crc="dddddddd"/></game>
+  <game name="Other (Japan) (v1.10)"><rom name="Other (Japan) (v1.10)" size="1" crc="eeeeeeee"/></game>
+  <game name="Other (Japan) (v1.2)"><rom name="Other (Japan) (v1.2)" size="1" crc="ffffffff"/></game>
+</datafile>"#,
+        )
+        .expect("parse revision DAT");
+
+        let options = FilterOptions {
+            latest_revision_only: true,
+            ..FilterOptions::default()
+        };
+        let result = filter_dat_by_regions(&parsed, &[], Some("source.dat"), &options).unwrap();
+        let names: Vec<&str> = result.games.iter().map(|game| game.name.as_str()).collect();
+        assert_eq!(
+            names,
+            vec!["Title (USA) (Rev 2)", "Title (Europe) (En,Fr)", "Other (Japan) (v1.10)"]
         );
+        assert_eq!(result.summary.superseded_revisions, 3);
+
+        let untouched =
+            filter_dat_by_regions(&parsed, &[], Some("source.dat"), &FilterOptions::default())
+                .unwrap();
+        assert_eq!(untouched.games.len(), 6);
+        assert_eq!(untouched.summary.superseded_revisions, 0);
     }
 
     #[test]
-    fn rewrites_xml_with_crlf_line_endings_and_preserves_doctype() {
-        let parsed = parse_dat(SAMPLE_DAT).unwrap();
+    fn groups_multi_disc_sets_and_keeps_or_drops_them_as_a_whole() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Epic (Europe) (Disc 1)"><rom name="Epic (Europe) (Disc 1)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Epic (Europe) (Disc 2)"><rom name="Epic (Europe) (Disc 2)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Epic (USA) (Disc 1)"><rom name="Epic (USA) (Disc 1)" size="1" crc="cccccccc"/></game>
+  <game name="Saga (Japan) (Disc 1)"><rom name="Saga (Japan) (Disc 1)" size="1" crc="dddddddd"/></game>
+  <game name="Solo (Japan)"><rom name="Solo (Japan)" size="1" crc="eeeeeeee"/></game>
+  <game name="Saga (Japan) (Disc 2)"><rom name="Saga (Japan) (Disc 2)" size="1" crc="ffffffff"/></game>
+</datafile>"#,
+        )
+        .expect("parse multi-disc DAT");
+
+        assert_eq!(
+            parsed.games[1].disc_set,
+            Some(DiscSet {
+                key: "Epic (Europe)".to_string(),
+                disc: 2,
+                total: 2,
+            })
+        );
+        assert_eq!(parsed.games[2].disc_set.as_ref().map(|set| set.total), Some(1));
+        assert!(parsed.games[4].disc_set.is_none());
+
+        let options = FilterOptions {
+            one_game_one_rom: true,
+            region_priority: Some(vec![
+                "USA".to_string(),
+                "Europe".to_string(),
+                "Japan".to_string(),
+            ]),
+            ..FilterOptions::default()
+        };
+        let collapsed = filter_dat_by_regions(&parsed, &[], Some("source.dat"), &options).unwrap();
+        let names: Vec<&str> = collapsed.games.iter().map(|game| game.name.as_str()).collect();
+        assert_eq!(
+            names,
+            vec![
+                "Epic (USA) (Disc 1)",
+                "Saga (Japan) (Disc 1)",
+                "Solo (Japan)",
+                "Saga (Japan) (Disc 2)"
+            ]
+        );
+        assert_eq!(collapsed.summary.collapsed_games, 2);
+        assert_eq!(collapsed.summary.multi_disc_sets, 1);
+        assert_eq!(collapsed.summary.multi_disc_games, 2);
+    }
+
+    #[test]
+    fn applies_title_include_and_exclude_patterns_around_the_region_selection() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Racer (USA)"><rom name="Racer (USA)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Racer Turbo (USA)"><rom name="Racer Turbo (USA)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Shrine Maiden (Japan)"><rom name="Shrine Maiden (Japan)" size="1" crc="cccccccc"/></game>
+  <game name="Sound Test (Japan)"><rom name="Sound Test (Japan)" size="1" crc="dddddddd"/></game>
+  <game name="Quiz Night (USA)"><rom name="Quiz Night (USA)" size="1" crc="eeeeeeee"/></game>
+</datafile>"#,
+        )
+        .expect("parse title pattern DAT");
+
+        let options = FilterOptions {
+            include_titles: vec![
+                "shrine maiden".to_string(),
+                "/^Sound (Test|Check)/".to_string(),
+            ],
+            exclude_titles: vec!["racer turbo*".to_string(), "/quiz/i".to_string()],
+            ..FilterOptions::default()
+        };
         let result =
-            filter_dat_by_regions(&parsed, &["Europe".to_string()], Some("source.dat")).unwrap();
+            filter_dat_by_regions(&parsed, &["USA".to_string()], Some("source.dat"), &options)
+                .unwrap();
+        let names: Vec<&str> = result.games.iter().map(|game| game.name.as_str()).collect();
+        assert_eq!(
+            names,
+            vec!["Racer (USA)", "Shrine Maiden (Japan)", "Sound Test (Japan)"]
+        );
+        assert_eq!(result.summary.title_included_games, 2);
+        assert_eq!(result.summary.title_excluded_games, 2);
+
+        assert!(compile_title_pattern("Racer*").is_ok());
+        assert!(compile_title_pattern("/[unclosed/").is_err());
+
+        // The `regex` crate rejects look-around that the renderer's RegExp accepts.
+        let lookahead = validate_title_pattern("/^(?!Demo)/").expect("look-ahead is rejected");
+        assert!(lookahead.starts_with("Invalid regular expression: /^(?!Demo)/: look-around"));
+        let options = FilterOptions {
+            exclude_titles: vec!["/^(?!Demo)/".to_string()],
+            ..FilterOptions::default()
+        };
+        let error = filter_dat_by_regions(&parsed, &[], Some("source.dat"), &options).unwrap_err();
+        assert_eq!(error, lookahead);
+    }
 
-        let start_re =
-            Regex::new(r#"^<\?xml version="1.0"\?>\r\n<!DOCTYPE datafile"#).unwrap();
-        assert!(start_re.is_match(&result.xml));
-        let game_re =
-            Regex::new(r#"\r\n\t<game name="Forza Motorsport \(Europe\)">"#).unwrap();
-        assert!(game_re.is_match(&result.xml));
+    #[test]
+    fn collects_categories_and_combines_them_with_the_region_selection() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Racer (USA)"><category>Games</category><rom name="Racer (USA)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Racer (USA) (Demo)"><category>Demos</category><rom name="Racer (USA) (Demo)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Racer (Europe)"><category>Games</category><rom name="Racer (Europe)" size="1" crc="cccccccc"/></game>
+  <game name="Mystery (USA)"><rom name="Mystery (USA)" size="1" crc="dddddddd"/></game>
+</datafile>"#,
+        )
+        .expect("parse category DAT");
+
+        assert_eq!(parsed.available_categories, vec!["Demos", "Games", "Unknown"]);
+
+        let options = FilterOptions {
+            categories: vec!["Games".to_string(), "Unknown".to_string()],
+            ..FilterOptions::default()
+        };
+        let result =
+            filter_dat_by_regions(&parsed, &["USA".to_string()], Some("source.dat"), &options)
+                .unwrap();
+        let names: Vec<&str> = result.games.iter().map(|game| game.name.as_str()).collect();
+        assert_eq!(names, vec!["Racer (USA)", "Mystery (USA)"]);
+        assert_eq!(result.summary.selected_categories, vec!["Games", "Unknown"]);
+    }
+
+    #[test]
+    fn supports_all_and_exclusive_match_modes_and_excluded_regions_in_the_label() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Alpha (USA)"><rom name="Alpha (USA)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Beta (USA, Europe)"><rom name="Beta (USA, Europe)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Gamma (Europe)"><rom name="Gamma (Europe)" size="1" crc="cccccccc"/></game>
+  <game name="Delta (USA, Japan)"><rom name="Delta (USA, Japan)" size="1" crc="dddddddd"/></game>
+</datafile>"#,
+        )
+        .expect("parse match mode DAT");
+        let run = |regions: &[&str], options: FilterOptions| {
+            let regions: Vec<String> = regions.iter().map(|region| region.to_string()).collect();
+            filter_dat_by_regions(&parsed, &regions, Some("source.dat"), &options).unwrap()
+        };
+        let names = |result: &FilteredDatResult| -> Vec<String> {
+            result.games.iter().map(|game| game.name.clone()).collect()
+        };
+
+        let exclusive = run(
+            &["USA"],
+            FilterOptions {
+                match_mode: RegionMatchMode::Exclusive,
+                ..FilterOptions::default()
+            },
+        );
+        assert_eq!(names(&exclusive), vec!["Alpha (USA)"]);
+        assert_eq!(exclusive.summary.region_label, "USA only");
+        assert_eq!(exclusive.header.name, "Test System (USA only)");
+
+        let all = run(
+            &["USA", "Europe"],
+            FilterOptions {
+                match_mode: RegionMatchMode::All,
+                ..FilterOptions::default()
+            },
+        );
+        assert_eq!(names(&all), vec!["Beta (USA, Europe)"]);
+        assert_eq!(all.summary.region_label, "USA + Europe");
+
+        let excluded = run(
+            &["USA"],
+            FilterOptions {
+                excluded_regions: vec!["Japan".to_string()],
+                ..FilterOptions::default()
+            },
+        );
+        assert_eq!(names(&excluded), vec!["Alpha (USA)", "Beta (USA, Europe)"]);
+        assert_eq!(excluded.summary.region_label, "USA; excl. Japan");
+
+        let only_excluded = run(
+            &[],
+            FilterOptions {
+                excluded_regions: vec!["USA".to_string()],
+                ..FilterOptions::default()
+            },
+        );
+        assert_eq!(names(&only_excluded), vec!["Gamma (Europe)"]);
+        assert_eq!(only_excluded.summary.region_label, "excl. USA");
     }
 
     #[test]
-    fn parses_self_closing_games_and_ignores_similar_tags() {
+    fn prints_fully_selected_region_groups_by_name_in_the_label() {
         let parsed = parse_dat(
             r#"<?xml version="1.0"?>
 <datafile>
   <header><name>Test System</name></header>
-  <games count="2"/>
-  <game name="Alpha (USA)"/>
-  <game name="Beta (Europe)"></game>
+  <game name="Alpha (Europe)"><rom name="Alpha (Europe)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Beta (Germany)"><rom name="Beta (Germany)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Gamma (USA)"><rom name="Gamma (USA)" size="1" crc="cccccccc"/></game>
+  <game name="Delta (Canada)"><rom name="Delta (Canada)" size="1" crc="dddddddd"/></game>
+  <game name="Epsilon (Japan)"><rom name="Epsilon (Japan)" size="1" crc="eeeeeeee"/></game>
+  <game name="Zeta (Europe, Germany)"><rom name="Zeta (Europe, Germany)" size="1" crc="ffffffff"/></game>
 </datafile>"#,
         )
-        .expect("parse self-closing DAT");
+        .expect("parse region group DAT");
+        let label = |regions: &[&str], options: FilterOptions| {
+            let regions: Vec<String> = regions.iter().map(|region| region.to_string()).collect();
+            filter_dat_by_regions(&parsed, &regions, Some("source.dat"), &options)
+                .unwrap()
+                .summary
+                .region_label
+        };
+        let group = |name: &str, regions: &[&str]| RegionGroup {
+            name: name.to_string(),
+            regions: regions.iter().map(|region| region.to_string()).collect(),
+        };
 
-        assert_eq!(parsed.games.len(), 2);
-        assert_eq!(parsed.games[0].name, "Alpha (USA)");
-        assert_eq!(parsed.games[0].regions, vec!["USA"]);
-        assert_eq!(parsed.games[1].name, "Beta (Europe)");
-        assert_eq!(parsed.games[1].regions, vec!["Europe"]);
+        let resolved = resolve_region_groups(&parsed.available_regions, &[]);
+        assert_eq!(
+            resolved,
+            vec![
+                group("PAL", &["Europe", "Germany"]),
+                group("NTSC-U", &["USA", "Canada"]),
+                group("NTSC-J", &["Japan"]),
+                group("Asia-all", &["Japan"]),
+            ]
+        );
+        assert_eq!(label(&["USA", "Europe", "Germany"], FilterOptions::default()), "USA, PAL");
+        let exclusive = FilterOptions {
+            match_mode: RegionMatchMode::Exclusive,
+            ..FilterOptions::default()
+        };
+        assert_eq!(label(&["Europe", "Germany"], exclusive), "PAL only");
+        let all = FilterOptions {
+            match_mode: RegionMatchMode::All,
+            ..FilterOptions::default()
+        };
+        assert_eq!(label(&["Europe", "Germany"], all), "Europe + Germany");
+        let excluded = FilterOptions {
+            excluded_regions: vec!["USA".to_string(), "Canada".to_string()],
+            ..FilterOptions::default()
+        };
+        assert_eq!(label(&["Japan"], excluded), "Japan; excl. NTSC-U");
+        assert_eq!(label(&["Europe", "USA"], FilterOptions::default()), "Europe, USA");
+
+        let custom = || FilterOptions {
+            region_groups: vec![
+                group("NTSC-U", &["USA"]),
+                group("Western", &["USA", "Europe", "Germany", "Brazil"]),
+            ],
+            ..FilterOptions::default()
+        };
+        assert_eq!(label(&["USA", "Canada"], custom()), "USA, Canada");
+        assert_eq!(label(&["Germany", "USA", "Europe", "Japan"], custom()), "Western, Japan");
     }
 
     #[test]
-    fn parses_a_large_dat_without_dropping_games() {
-        let mut xml = String::from(
+    fn parses_serials_and_versions_and_filters_by_serial_prefix_and_pattern() {
+        let parsed = parse_dat(
             r#"<?xml version="1.0"?>
 <datafile>
   <header><name>Test System</name></header>
-"#,
-        );
-        for i in 0..4000 {
-            xml.push_str(&format!(
-                r#"  <game name="Title {i} (USA)"><description>Title {i} (USA)</description><rom name="Title {i} (USA)" size="1" crc="aaaaaaaa"/></game>
-"#
-            ));
-        }
-        xml.push_str("</datafile>");
+  <game name="Racer (USA)"><serial>SLUS-00001</serial><version>1.01</version><rom name="Racer (USA)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Racer (Europe)"><serial>SLES-00002, SLES-00003</serial><rom name="Racer (Europe)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Puzzle (Japan)"><serial>SLPS-00004</serial><rom name="Puzzle (Japan)" size="1" crc="cccccccc"/></game>
+  <game name="Homebrew (USA)"><rom name="Homebrew (USA)" size="1" crc="dddddddd"/></game>
+  <game name="Sports (USA)"><serial>SCUS-94001</serial><rom name="Sports (USA)" size="1" crc="eeeeeeee"/></game>
+</datafile>"#,
+        )
+        .expect("parse serial DAT");
+        let run = |prefixes: &[&str], pattern: Option<&str>| {
+            let options = FilterOptions {
+                serial_prefixes: prefixes.iter().map(|prefix| prefix.to_string()).collect(),
+                serial_pattern: pattern.map(str::to_string),
+                ..FilterOptions::default()
+            };
+            filter_dat_by_regions(&parsed, &[], Some("source.dat"), &options).unwrap()
+        };
+        let names = |result: &FilteredDatResult| -> Vec<String> {
+            result.games.iter().map(|game| game.name.clone()).collect()
+        };
 
-        let parsed = parse_dat(&xml).expect("parse large DAT");
-        assert_eq!(parsed.games.len(), 4000);
-        assert_eq!(parsed.games[0].name, "Title 0 (USA)");
-        assert_eq!(parsed.games[3999].name, "Title 3999 (USA)");
-        assert_eq!(parsed.available_regions, vec!["USA"]);
+        assert_eq!(parsed.games[0].serials, vec!["SLUS-00001"]);
+        assert_eq!(parsed.games[0].version.as_deref(), Some("1.01"));
+        assert_eq!(parsed.games[1].serials, vec!["SLES-00002", "SLES-00003"]);
+        assert!(parsed.games[3].serials.is_empty());
+        assert_eq!(parsed.games[3].version, None);
+        assert_eq!(parsed.available_serial_prefixes, vec!["SCUS", "SLES", "SLPS", "SLUS"]);
+
+        let by_prefix = run(&["slus", "SCUS"], None);
+        assert_eq!(names(&by_prefix), vec!["Racer (USA)", "Sports (USA)"]);
+        assert_eq!(by_prefix.summary.selected_serial_prefixes, vec!["SLUS", "SCUS"]);
+
+        let by_pattern = run(&[], Some("^sles-0000[3]$"));
+        assert_eq!(names(&by_pattern), vec!["Racer (Europe)"]);
+        assert_eq!(by_pattern.summary.serial_pattern.as_deref(), Some("^sles-0000[3]$"));
+        assert_eq!(names(&run(&["SLUS", "SCUS"], Some("-9"))), vec!["Sports (USA)"]);
+
+        // Back-references compile in the renderer's RegExp but not in the `regex` crate.
+        let backreference = validate_serial_pattern(r"^(SL)\1").expect("back-reference error");
+        assert!(backreference.starts_with(r"Invalid regular expression: /^(SL)\1/: "));
+        assert!(validate_serial_pattern("^SLUS").is_none());
+        let invalid = FilterOptions {
+            serial_pattern: Some("(".to_string()),
+            ..FilterOptions::default()
+        };
+        let error = filter_dat_by_regions(&parsed, &[], Some("source.dat"), &invalid).unwrap_err();
+        assert!(error.starts_with("Invalid regular expression: /(/: "));
     }
 
     #[test]
-    fn throws_when_header_name_is_missing() {
-        let err = parse_dat(
+    fn sums_rom_sizes_and_filters_by_minimum_and_maximum_size() {
+        let parsed = parse_dat(
             r#"<?xml version="1.0"?>
 <datafile>
-  <header><description>No name</description></header>
-  <game name="Example (USA)"><rom name="Example (USA)" size="1" crc="aaaaaaaa"/></game>
+  <header><name>Test System</name></header>
+  <game name="Small (USA)"><rom name="Small (USA).bin" size="1000" crc="aaaaaaaa"/></game>
+  <game name="Big (USA)"><rom name="Big (USA) (Track 1).bin" size="3000" crc="bbbbbbbb"/><rom name="Big (USA) (Track 2).bin" size="2500" crc="cccccccc"/></game>
+  <game name="Epic (USA) (Disc 1)"><rom name="Epic (USA) (Disc 1).bin" size="3000" crc="dddddddd"/></game>
+  <game name="Epic (USA) (Disc 2)"><rom name="Epic (USA) (Disc 2).bin" size="3000" crc="eeeeeeee"/></game>
+  <game name="Unsized (USA)"><rom name="Unsized (USA).bin" crc="ffffffff"/></game>
 </datafile>"#,
         )
-        .unwrap_err();
-        assert!(
-            err.contains("missing <name>"),
-            "unexpected error: {err}"
+        .expect("parse size DAT");
+        let run = |min_size: Option<u64>, max_size: Option<u64>| {
+            let options = FilterOptions {
+                min_size,
+                max_size,
+                ..FilterOptions::default()
+            };
+            filter_dat_by_regions(&parsed, &[], Some("source.dat"), &options).unwrap()
+        };
+        let names = |result: &FilteredDatResult| -> Vec<String> {
+            result.games.iter().map(|game| game.name.clone()).collect()
+        };
+
+        let sizes: Vec<u64> = parsed.games.iter().map(|game| game.total_size).collect();
+        assert_eq!(sizes, vec![1000, 5500, 3000, 3000, 0]);
+
+        let all = run(None, None);
+        assert_eq!(all.summary.initial_size, 12500);
+        assert_eq!(all.summary.filtered_size, 12500);
+        assert_eq!(all.summary.size_excluded_games, 0);
+
+        let capped = run(None, Some(5500));
+        assert_eq!(names(&capped), vec!["Small (USA)", "Big (USA)", "Unsized (USA)"]);
+        assert_eq!(capped.summary.size_excluded_games, 2);
+        assert_eq!(capped.summary.filtered_size, 6500);
+        assert_eq!(capped.summary.initial_size, 12500);
+
+        assert_eq!(
+            names(&run(Some(1), None)),
+            vec!["Small (USA)", "Big (USA)", "Epic (USA) (Disc 1)", "Epic (USA) (Disc 2)"]
         );
+        assert_eq!(names(&run(Some(2000), Some(5999))), vec!["Big (USA)"]);
     }
 
     #[test]
-    fn decodes_entities_in_game_names_but_keeps_source_xml() {
+    fn writes_cloneof_and_romof_attributes_in_parent_clone_export_mode() {
         let parsed = parse_dat(
             r#"<?xml version="1.0"?>
 <datafile>
   <header><name>Test System</name></header>
-  <game name="Tom &amp; Jerry (USA)">
-    <rom name="Tom &amp; Jerry (USA)" size="1" crc="aaaaaaaa"/>
-  </game>
+  <game name="Racer (Japan)"><rom name="Racer (Japan)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Racer (USA)"><rom name="Racer (USA)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Epic (Europe) (Disc 1)"><rom name="Epic (Europe) (Disc 1)" size="1" crc="cccccccc"/></game>
+  <game name="Epic (Europe) (Disc 2)"><rom name="Epic (Europe) (Disc 2)" size="1" crc="dddddddd"/></game>
+  <game name="Epic (USA) (Disc 1)"><rom name="Epic (USA) (Disc 1)" size="1" crc="eeeeeeee"/></game>
+  <game name="Epic (USA) (Disc 2)"><rom name="Epic (USA) (Disc 2)" size="1" crc="ffffffff"/></game>
+  <game name="Solo (Japan)"><rom name="Solo (Japan)" size="1" crc="abababab"/></game>
 </datafile>"#,
         )
-        .expect("parse entity DAT");
-
-        assert_eq!(parsed.games[0].name, "Tom & Jerry (USA)");
-        assert_eq!(parsed.games[0].regions, vec!["USA"]);
+        .expect("parse parent/clone DAT");
+
+        let options = FilterOptions {
+            export_mode: DatExportMode::ParentClone,
+            region_priority: Some(vec![
+                "USA".to_string(),
+                "Europe".to_string(),
+                "Japan".to_string(),
+            ]),
+            ..FilterOptions::default()
+        };
+        let result = filter_dat_by_regions(&parsed, &[], Some("source.dat"), &options).unwrap();
 
-        let result = filter_dat_by_regions(&parsed, &["USA".to_string()], Some("source.dat")).unwrap();
-        assert!(result.xml.contains(r#"name="Tom &amp; Jerry (USA)""#));
+        assert!(result
+            .content
+            .contains(r#"<game name="Racer (Japan)" cloneof="Racer (USA)" romof="Racer (USA)">"#));
+        assert!(result.content.contains(r#"<game name="Racer (USA)">"#));
+        assert!(result.content.contains(
+            r#"<game name="Epic (Europe) (Disc 2)" cloneof="Epic (USA) (Disc 2)" romof="Epic (USA) (Disc 2)">"#
+        ));
+        assert!(result.content.contains(r#"<game name="Solo (Japan)">"#));
+        assert_eq!(result.summary.clone_games, 3);
+
+        let flat =
+            filter_dat_by_regions(&parsed, &[], Some("source.dat"), &FilterOptions::default())
+                .unwrap();
+        assert!(!flat.content.contains("cloneof="));
+        assert_eq!(flat.summary.clone_games, 0);
     }
 
     #[test]
-    fn uses_later_parenthetical_when_earlier_ones_are_not_regions() {
-        let parsed = parse_dat(
+    fn diffs_two_dats_by_name_and_rom_hashes() {
+        let previous = parse_dat(
             r#"<?xml version="1.0"?>
 <datafile>
   <header><name>Test System</name></header>
-  <game name="Final Fantasy IX (Disc 1) (USA)">
-    <rom name="Final Fantasy IX (Disc 1) (USA)" size="1" crc="aaaaaaaa"/>
-  </game>
-  <game name="Ridge Racer (Rev 1) (Japan)">
-    <rom name="Ridge Racer (Rev 1) (Japan)" size="1" crc="bbbbbbbb"/>
-  </game>
+  <game name="Kept (USA)"><rom name="Kept (USA).bin" size="1" crc="11111111"/></game>
+  <game name="Patched (USA)"><rom name="Patched (USA).bin" size="1" crc="22222222"/></game>
+  <game name="Old Name (USA)"><rom name="Old Name (USA).bin" size="1" crc="33333333" sha1="AAAA"/></game>
+  <game name="Dropped (USA)"><rom name="Dropped (USA).bin" size="1" crc="44444444"/></game>
 </datafile>"#,
         )
-        .expect("parse disc DAT");
+        .expect("parse previous DAT");
+        let next = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Kept (USA)"><rom name="Kept (USA).bin" size="1" crc="11111111"/></game>
+  <game name="Patched (USA)"><rom name="Patched (USA).bin" size="1" crc="55555555"/></game>
+  <game name="New Name (USA)"><rom name="New Name (USA).bin" size="1" crc="33333333" sha1="aaaa"/></game>
+  <game name="Fresh (USA)"><serial>SLUS-00006</serial><rom name="Fresh (USA).bin" size="1" crc="66666666"/></game>
+</datafile>"#,
+        )
+        .expect("parse next DAT");
 
-        assert_eq!(parsed.games[0].regions, vec!["USA"]);
-        assert_eq!(parsed.games[1].regions, vec!["Japan"]);
+        let diff = diff_dats(&previous, &next);
+
+        assert_eq!(diff.unchanged, 1);
+        let names = |entries: &[DatDiffEntry]| -> Vec<String> {
+            entries.iter().map(|entry| entry.name.clone()).collect()
+        };
+        assert_eq!(names(&diff.rehashed), vec!["Patched (USA)".to_string()]);
+        assert_eq!(names(&diff.renamed), vec!["New Name (USA)".to_string()]);
+        assert_eq!(
+            diff.renamed[0].previous_name.as_deref(),
+            Some("Old Name (USA)")
+        );
+        assert_eq!(names(&diff.added), vec!["Fresh (USA)".to_string()]);
+        assert_eq!(diff.added[0].serials, vec!["SLUS-00006"]);
+        assert!(diff.renamed[0].serials.is_empty());
+        assert_eq!(names(&diff.removed), vec!["Dropped (USA)".to_string()]);
     }
 
     #[test]
-    fn falls_back_to_description_then_rom_name_for_regions() {
-        let parsed = parse_dat(
+    fn merges_several_dats_and_drops_games_with_identical_rom_hashes() {
+        let first = parse_dat(
             r#"<?xml version="1.0"?>
 <datafile>
-  <header><name>Test System</name></header>
-  <game name="Catalog 1001">
-    <description>Cool Game (Europe)</description>
-    <rom name="Cool Game (Europe)" size="1" crc="aaaaaaaa"/>
-  </game>
-  <game name="Mystery Dump">
-    <rom name="Mystery Dump (Japan)" size="1" crc="bbbbbbbb"/>
-  </game>
-  <game name="No Clue">
-    <rom name="No Clue.bin" size="1" crc="cccccccc"/>
-  </game>
+  <header><name>System A</name><version>2024-01-01</version><author>Redump</author></header>
+  <game name="Shared (USA)"><rom name="Shared (USA).bin" size="1" crc="11111111"/></game>
+  <game name="Only A (Japan)"><rom name="Only A (Japan).bin" size="1" crc="22222222"/></game>
 </datafile>"#,
         )
-        .expect("parse fallback DAT");
+        .expect("parse first DAT");
+        let second = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header><name>System B</name><version>2024-02-01</version><author>Redump</author></header>
+  <game name="Shared (USA) (Alt)"><rom name="Shared (USA).bin" size="1" crc="11111111"/></game>
+  <game name="Only B (USA)"><rom name="Only B (USA).bin" size="1" crc="33333333"/></game>
+</datafile>"#,
+        )
+        .expect("parse second DAT");
 
-        assert_eq!(parsed.games[0].regions, vec!["Europe"]);
-        assert_eq!(parsed.games[1].regions, vec!["Japan"]);
-        assert_eq!(parsed.games[2].regions, Vec::<String>::new());
-        assert_eq!(parsed.available_regions, vec!["Europe", "Japan", "Unknown"]);
+        let result = merge_dats(
+            &[first, second],
+            &["USA".to_string()],
+            Some("Combined"),
+            &FilterOptions::default(),
+        )
+        .unwrap();
+
+        let names: Vec<&str> = result.games.iter().map(|game| game.name.as_str()).collect();
+        assert_eq!(names, vec!["Shared (USA)", "Only B (USA)"]);
+        assert_eq!(result.summary.initial_games, 3);
+        assert_eq!(result.header.name, "Combined (USA)");
+        assert_eq!(
+            result.header.description.as_deref(),
+            Some("Combined (USA) - Datfile (2) (2024-02-01)")
+        );
+        assert_eq!(result.header.author.as_deref(), Some("Redump"));
+        assert!(result.content.contains(r#"<game name="Only B (USA)">"#));
+        assert!(merge_dats(&[], &["USA".to_string()], None, &FilterOptions::default()).is_err());
     }
 
     #[test]
-    fn splits_combined_region_tokens_and_synonyms() {
+    fn writes_clrmamepro_text_when_that_output_format_is_selected() {
         let parsed = parse_dat(
             r#"<?xml version="1.0"?>
 <datafile>
-  <header><name>Test System</name></header>
-  <game name="A (USA / Europe)"><rom name="A" size="1" crc="aaaaaaaa"/></game>
-  <game name="B (Japan &amp; USA)"><rom name="B" size="1" crc="bbbbbbbb"/></game>
-  <game name="C (PAL)"><rom name="C" size="1" crc="cccccccc"/></game>
-  <game name="D (JPN)"><rom name="D" size="1" crc="dddddddd"/></game>
-  <game name="E (World)"><rom name="E" size="1" crc="eeeeeeee"/></game>
+  <header><name>Test System</name><description>Test System - Datfile (2) (2024-01-01)</description><version>2024-01-01</version></header>
+  <game name="Racer (Japan)"><category>Games</category><description>Racer (Japan)</description><rom name="Racer (Japan) (Track 1).bin" size="10" crc="aaaaaaaa" md5="bb" sha1="cc"/></game>
+  <game name="Racer (USA)"><category>Games</category><description>Racer (USA)</description><rom name="Racer (USA).bin" size="20" crc="dddddddd"/></game>
 </datafile>"#,
         )
-        .expect("parse combined regions DAT");
+        .expect("parse ClrMamePro source DAT");
+        let source = "Test System - Datfile (2) (2024-01-01).xml";
+
+        let options = FilterOptions {
+            output_format: DatOutputFormat::ClrMamePro,
+            export_mode: DatExportMode::ParentClone,
+            region_priority: Some(vec!["USA".to_string(), "Japan".to_string()]),
+            ..FilterOptions::default()
+        };
+        let result = filter_dat_by_regions(&parsed, &[], Some(source), &options).unwrap();
 
-        assert_eq!(parsed.games[0].regions, vec!["USA", "Europe"]);
-        assert_eq!(parsed.games[1].regions, vec!["Japan", "USA"]);
-        assert_eq!(parsed.games[2].regions, vec!["Europe"]);
-        assert_eq!(parsed.games[3].regions, vec!["Japan"]);
-        assert_eq!(parsed.games[4].regions, vec!["World"]);
+        assert_eq!(result.output_format, DatOutputFormat::ClrMamePro);
+        assert!(result
+            .content
+            .starts_with("clrmamepro (\r\n\tname \"Test System\"\r\n"));
+        assert!(result.content.contains("\tversion \"2024-01-01\"\r\n)"));
+        assert!(result.content.contains(
+            &[
+                "game (",
+                "\tname \"Racer (Japan)\"",
+                "\tdescription \"Racer (Japan)\"",
+                "\tcategory \"Games\"",
+                "\tcloneof \"Racer (USA)\"",
+                "\tromof \"Racer (USA)\"",
+                "\trom ( name \"Racer (Japan) (Track 1).bin\" size 10 crc aaaaaaaa md5 bb sha1 cc )",
+                ")",
+            ]
+            .join("\r\n")
+        ));
+        assert!(!result.content.contains("<datafile>"));
+        assert_eq!(result.filename, "Test System - Datfile (2) (2024-01-01).dat");
+
+        let logiqx =
+            filter_dat_by_regions(&parsed, &[], Some(source), &FilterOptions::default()).unwrap();
+        assert_eq!(logiqx.filename, source);
     }
 
     #[test]
-    fn reads_child_name_when_attribute_is_missing() {
+    fn exports_csv_and_json_game_lists_from_the_filtered_games() {
         let parsed = parse_dat(
             r#"<?xml version="1.0"?>
 <datafile>
-  <header><name>Test System</name></header>
-  <game>
-    <name>Child Named (USA)</name>
-    <rom name="Child Named (USA)" size="1" crc="aaaaaaaa"/>
-  </game>
+  <header><name>Test System</name><description>Test System - Datfile (2) (2024-01-01)</description><version>2024-01-01</version></header>
+  <game name="Racer, The (USA)"><category>Games</category><serial>SLUS-00001, SLUS-00002</serial><rom name="Racer (Track 1).bin" size="10" crc="AAAAAAAA" md5="bb" sha1="cc"/><rom name="Racer (Track 2).bin" size="32" crc="dddddddd"/></game>
+  <game name="Puzzle (Japan)"><category>Demos</category><rom name="Puzzle (Japan).bin" size="5" crc="eeeeeeee"/></game>
 </datafile>"#,
         )
-        .expect("parse child name DAT");
+        .expect("parse game list source DAT");
+        let source = "Test System - Datfile (2) (2024-01-01).xml";
+        let regions = vec!["USA".to_string()];
 
-        assert_eq!(parsed.games[0].name, "Child Named (USA)");
-        assert_eq!(parsed.games[0].regions, vec!["USA"]);
+        let csv_options = FilterOptions {
+            output_format: DatOutputFormat::Csv,
+            ..FilterOptions::default()
+        };
+        let csv = filter_dat_by_regions(&parsed, &regions, Some(source), &csv_options).unwrap();
+        assert_eq!(
+            csv.content,
+            "name,serials,regions,category,romCount,totalSize,crc,md5,sha1\r\n\
+             \"Racer, The (USA)\",\"SLUS-00001, SLUS-00002\",USA,Games,2,42,aaaaaaaa,bb,cc\r\n"
+        );
+        assert_eq!(csv.filename, "Test System (USA) - Datfile (1) (2024-01-01).csv");
+
+        let json_options = FilterOptions {
+            output_format: DatOutputFormat::Json,
+            ..FilterOptions::default()
+        };
+        let json = filter_dat_by_regions(&parsed, &regions, Some(source), &json_options).unwrap();
+        let document: serde_json::Value = serde_json::from_str(&json.content).unwrap();
+        assert_eq!(document["summary"]["filteredGames"], 1);
+        assert_eq!(
+            document["games"],
+            serde_json::json!([{
+                "name": "Racer, The (USA)",
+                "serials": ["SLUS-00001", "SLUS-00002"],
+                "regions": ["USA"],
+                "category": "Games",
+                "romCount": 2,
+                "totalSize": 42,
+                "crc": "aaaaaaaa",
+                "md5": "bb",
+                "sha1": "cc"
+            }])
+        );
+        assert_eq!(json.filename, "Test System (USA) - Datfile (1) (2024-01-01).json");
     }
 
     #[test]
-    fn preserves_all_rom_lines_and_extra_tags_when_filtering() {
-        let xml = r#"<?xml version="1.0"?>
-<datafile>
-  <header><name>Sony - PlayStation</name></header>
-  <game name="Ridge Racer (USA)">
-    <category>Games</category>
-    <description>Ridge Racer (USA)</description>
-    <id>1</id>
-    <serial>SCUS-94300</serial>
-    <rom name="Ridge Racer (USA).cue" size="10" crc="aaaaaaaa"/>
-    <rom name="Ridge Racer (USA).bin" size="100" crc="bbbbbbbb"/>
-  </game>
-</datafile>"#;
-        let parsed = parse_dat(xml).expect("parse multi-rom DAT");
-        let result = filter_dat_by_regions(&parsed, &["USA".to_string()], Some("source.dat")).unwrap();
+    fn parses_clrmamepro_text_dats_into_the_same_shape_as_logiqx_xml() {
+        let parsed = parse_dat(
+            r#"clrmamepro (
+	name "Test System"
+	description "Test System - Datfile (3) (2024-01-01)"
+	version 2024-01-01
+)
+
+game (
+	name "Racer (USA)"
+	description "Racer (USA)"
+	category Games
+	rom ( name "Racer (USA) (Track 1).bin" size 10 crc aaaaaaaa md5 bb sha1 cc )
+	rom ( name "Racer (USA) (Track 2).bin" size 20 crc dddddddd )
+)
+
+game (
+	name "Epic (Japan) (Disc 1)"
+	rom ( name "Epic (Japan) (Disc 1).bin" size 1 crc eeeeeeee )
+)
+
+game (
+	name "Epic (Japan) (Disc 2)"
+	rom ( name "Epic (Japan) (Disc 2).bin" size 1 crc ffffffff )
+)
+"#,
+        )
+        .expect("parse ClrMamePro DAT");
 
+        assert_eq!(parsed.header.name, "Test System");
+        assert_eq!(parsed.version_label.as_deref(), Some("2024-01-01"));
+        assert_eq!(parsed.available_regions, vec!["Japan", "USA"]);
+        let names: Vec<&str> = parsed.games.iter().map(|game| game.name.as_str()).collect();
+        assert_eq!(
+            names,
+            vec!["Racer (USA)", "Epic (Japan) (Disc 1)", "Epic (Japan) (Disc 2)"]
+        );
         assert_eq!(parsed.games[0].category.as_deref(), Some("Games"));
-        assert!(result.xml.contains("<serial>SCUS-94300</serial>"));
-        assert!(result.xml.contains(r#"<rom name="Ridge Racer (USA).cue""#));
-        assert!(result.xml.contains(r#"<rom name="Ridge Racer (USA).bin""#));
-    }
+        let roms = game_roms(&parsed.games[0]);
+        assert_eq!(roms.len(), 2);
+        assert_eq!(roms[0].attributes["name"], "Racer (USA) (Track 1).bin");
+        assert_eq!(roms[0].attributes["size"], "10");
+        assert_eq!(roms[0].attributes["sha1"], "cc");
+        assert_eq!(parsed.games[1].disc_set.as_ref().map(|set| set.total), Some(2));
 
-    #[test]
-    fn filters_to_union_of_selected_regions() {
-        let parsed = parse_dat(SAMPLE_DAT).unwrap();
         let result = filter_dat_by_regions(
             &parsed,
-            &["USA".to_string(), "Japan".to_string()],
-            Some("source.dat"),
+            &["USA".to_string()],
+            Some("Test System - Datfile (3) (2024-01-01).dat"),
+            &FilterOptions::default(),
         )
         .unwrap();
-
-        assert_eq!(result.games.len(), 2);
-        assert_eq!(result.games[0].name, "Halo (USA)");
-        assert_eq!(result.games[1].name, "Project Gotham Racing 2 (Japan)");
-        assert!(result.header.name.contains("(USA, Japan)"));
+        assert!(result
+            .content
+            .contains(r#"<rom name="Racer (USA) (Track 2).bin" size="20" crc="dddddddd"/>"#));
+
+        assert!(parse_dat(r#"clrmamepro ( name "Broken )"#)
+            .unwrap_err()
+            .contains("unterminated quoted string"));
+        assert!(parse_dat("clrmamepro ( name Broken")
+            .unwrap_err()
+            .contains("unterminated block"));
     }
 
     fn sample_variant_dat(serial_version: bool) -> String {
@@ -1478,25 +4880,27 @@ mod tests {
             &parsed_standard,
             &["USA".to_string()],
             Some("Sony - PlayStation - Datfile (2) (2026-08-15 10-57-09).dat"),
+            &FilterOptions::default(),
         )
         .unwrap();
         let serial_filtered = filter_dat_by_regions(
             &parsed_serial,
             &["USA".to_string()],
             Some("Sony - PlayStation - Datfile (serial,version) (2) (2026-08-15 10-57-09).dat"),
+            &FilterOptions::default(),
         )
         .unwrap();
 
         assert_eq!(standard_filtered.games.len(), 1);
         assert_eq!(serial_filtered.games.len(), 1);
         assert_eq!(standard_filtered.games[0].name, serial_filtered.games[0].name);
-        assert!(!standard_filtered.xml.contains("<serial>"));
-        assert!(!standard_filtered.xml.contains("<version>1.0</version>"));
+        assert!(!standard_filtered.content.contains("<serial>"));
+        assert!(!standard_filtered.content.contains("<version>1.0</version>"));
         assert!(!standard_filtered.filename.contains("serial,version"));
         assert!(standard_filtered.filename.contains("Datfile (1)"));
-        assert!(serial_filtered.xml.contains("<serial>SCUS-94300</serial>"));
-        assert!(serial_filtered.xml.contains("<version>1.0</version>"));
-        assert!(!serial_filtered.xml.contains("Tekken"));
+        assert!(serial_filtered.content.contains("<serial>SCUS-94300</serial>"));
+        assert!(serial_filtered.content.contains("<version>1.0</version>"));
+        assert!(!serial_filtered.content.contains("Tekken"));
         assert!(serial_filtered.filename.contains("Datfile (serial,version) (1)"));
         assert!(serial_filtered
             .header
@@ -1505,4 +4909,176 @@ mod tests {
             .unwrap_or("")
             .contains("Datfile (serial,version)"));
     }
+
+    #[test]
+    fn validate_dat_reports_problems_per_game() {
+        let parsed = parse_dat(
+            r#"<?xml version="1.0"?>
+<datafile>
+  <header>
+    <name>Test System</name>
+    <description>Test System - Datfile (1) (2024-01-01)</description>
+    <version>2024-01-01</version>
+  </header>
+  <game name="Halo (USA)">
+    <rom name="Halo (USA).iso" size="10" crc="aaaaaaaa" md5="bb" sha1="cc"/>
+  </game>
+  <game name="Halo (USA)">
+    <rom name="Halo (USA) (Alt).iso" size="10" crc="aaaaaaaa" md5="bb" sha1="cc"/>
+  </game>
+  <game name="Racer: Turbo (Europe)">
+    <rom name="Racer: Turbo (Europe).iso" size="5" crc="dddddddd"/>
+  </game>
+  <game name="Demo Disc">
+    <rom name="Demo Disc.iso" size="0" crc="00000000" md5="ee" sha1="ff"/>
+  </game>
+  <game name="Demo Disc 2">
+    <rom name="Demo Disc 2.iso" size="0" crc="00000000" md5="ee" sha1="ff"/>
+  </game>
+</datafile>"#,
+        )
+        .unwrap();
+
+        let findings = validate_dat(&parsed);
+        let summary: Vec<(DatValidationRule, DatValidationSeverity, Option<usize>)> = findings
+            .iter()
+            .map(|finding| (finding.rule, finding.severity, finding.game_index))
+            .collect();
+        assert_eq!(
+            summary,
+            vec![
+                (DatValidationRule::MissingHeaderField, DatValidationSeverity::Warning, None),
+                (DatValidationRule::DuplicateName, DatValidationSeverity::Error, Some(1)),
+                (DatValidationRule::DuplicateHash, DatValidationSeverity::Warning, Some(1)),
+                (DatValidationRule::IllegalName, DatValidationSeverity::Error, Some(2)),
+                (DatValidationRule::IllegalName, DatValidationSeverity::Error, Some(2)),
+                (DatValidationRule::MissingRomField, DatValidationSeverity::Warning, Some(2)),
+                (DatValidationRule::MissingRegion, DatValidationSeverity::Info, Some(3)),
+                (DatValidationRule::MissingRegion, DatValidationSeverity::Info, Some(4)),
+            ]
+        );
+        assert!(findings[0].message.contains("<author>"));
+        assert_eq!(findings[2].message, r#"Shares 1 ROM hash with "Halo (USA)"."#);
+        assert_eq!(findings[3].message, r#"Game name contains ":"."#);
+        assert_eq!(findings[5].message, r#"ROM "Racer: Turbo (Europe).iso" has no md5, sha1."#);
+        assert_eq!(
+            windows_name_problems("CON. "),
+            vec![
+                "ends with a dot or space".to_string(),
+                "is a reserved Windows device name".to_string(),
+            ]
+        );
+    }
+
+    #[test]
+    fn header_template_renders_tokens_without_changing_filename() {
+        let parsed = parse_dat(SAMPLE_DAT).unwrap();
+        let base_filename = "Microsoft - Xbox - Datfile (4) (2025-11-07 05-38-55).dat";
+        let plain = preview_filter(
+            &parsed,
+            &["USA".to_string()],
+            Some(base_filename),
+            &FilterOptions::default(),
+        )
+        .unwrap();
+        let options = FilterOptions {
+            header_template: DatHeaderTemplate {
+                name: Some("  ".into()),
+                description: Some(
+                    "{system} [{regions}] {count} games ({version}) {unknown}".into(),
+                ),
+                author: Some("Our Team".into()),
+                homepage: Some("https://wiki.example.org/{descriptor}".into()),
+                comment: Some("Filtered to {regions}".into()),
+                ..DatHeaderTemplate::default()
+            },
+            ..FilterOptions::default()
+        };
+        let result =
+            filter_dat_by_regions(&parsed, &["USA".to_string()], Some(base_filename), &options)
+                .unwrap();
+
+        assert_eq!(result.header.name, "Microsoft - Xbox (USA)");
+        assert_eq!(
+            result.header.description.as_deref(),
+            Some("Microsoft - Xbox [USA] 1 games (2025-11-07 05-38-55) {unknown}")
+        );
+        assert_eq!(result.header.author.as_deref(), Some("Our Team"));
+        assert_eq!(result.header.homepage.as_deref(), Some("https://wiki.example.org/Datfile"));
+        assert_eq!(result.filename, plain.filename);
+        assert!(result.content.contains("<author>Our Team</author>"));
+        assert!(result
+            .content
+            .contains("</homepage>\r\n\t\t<comment>Filtered to USA</comment>\r\n\t</header>"));
+
+        let clrmamepro = filter_dat_by_regions(
+            &parsed,
+            &["USA".to_string()],
+            Some(base_filename),
+            &FilterOptions {
+                output_format: DatOutputFormat::ClrMamePro,
+                ..options
+            },
+        )
+        .unwrap();
+        assert!(clrmamepro.content.contains("\tcomment \"Filtered to USA\"\r\n)"));
+    }
+
+    #[test]
+    fn filename_template_renders_sanitized_relative_paths() {
+        let parsed = parse_dat(SAMPLE_DAT).unwrap();
+        let base_filename = "Microsoft - Xbox - Datfile (4) (2025-11-07 05-38-55).dat";
+        let regions = ["USA".to_string(), "Europe".to_string()];
+        let templated = preview_filter(
+            &parsed,
+            &regions,
+            Some(base_filename),
+            &FilterOptions {
+                filename_template: Some("{slug}/{system} [{regions}] {version}.dat".into()),
+                system_slug: Some("xbox".into()),
+                ..FilterOptions::default()
+            },
+        )
+        .unwrap();
+        assert_eq!(
+            templated.filename,
+            "xbox/Microsoft - Xbox [USA, Europe] 2025-11-07 05-38-55.dat"
+        );
+
+        let plain = preview_filter(
+            &parsed,
+            &["USA".to_string()],
+            Some(base_filename),
+            &FilterOptions::default(),
+        )
+        .unwrap();
+        let local_file = preview_filter(
+            &parsed,
+            &["USA".to_string()],
+            Some(base_filename),
+            &FilterOptions {
+                filename_template: Some("{slug}/../{default}".into()),
+                output_format: DatOutputFormat::Csv,
+                ..FilterOptions::default()
+            },
+        )
+        .unwrap();
+        assert_eq!(local_file.filename, plain.filename.replace(".dat", ".csv"));
+
+        let tokens = [("slug", "a/b"), ("system", "Sys: Name")];
+        assert_eq!(
+            render_filename_template("{slug}/{system}. {unknown}", &tokens, &[".dat"]).as_deref(),
+            Some("a b/Sys Name. {unknown}.dat")
+        );
+        assert_eq!(
+            render_filename_template("{system}.json", &tokens, &[".xml", ".dat"]).as_deref(),
+            Some("Sys Name.xml")
+        );
+        assert_eq!(render_filename_template(" . / .. ", &tokens, &[".dat"]), None);
+        let long = format!("{}/{}", "x".repeat(300), "y".repeat(300));
+        let rendered = render_filename_template(&long, &tokens, &[".dat"]).unwrap();
+        let lengths: Vec<usize> = rendered.split('/').map(str::len).collect();
+        assert_eq!(lengths, vec![200, 200]);
+        assert!(rendered.ends_with("y.dat"));
+    }
 }
@@ -63,7 +63,12 @@ pub fn run() {
       commands::load_from_path,
       commands::get_current,
       commands::preview_filter,
+      commands::validate_dat,
+      commands::validate_title_patterns,
+      commands::validate_serial_pattern,
+      commands::get_game,
       commands::save_filtered,
+      commands::save_merged,
       commands::get_settings,
       commands::save_settings,
       commands::list_systems,
@@ -71,6 +76,9 @@ pub fn run() {
       commands::check_updates,
       commands::download_system,
       commands::download_extra,
+      commands::list_dat_versions,
+      commands::pick_dat_file,
+      commands::diff_dats,
       commands::get_app_version,
       commands::get_app_update_status,
       commands::check_for_updates,
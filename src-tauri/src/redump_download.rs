@@ -5,7 +5,9 @@
 //
 // Port of electron/redumpDownload.ts — Redump system list + DAT cache/download.
 
-use crate::types::{DatLoadPhase, DatLoadProgress, DatVariant, RedumpSystem, RedumpSystemListSource};
+use crate::types::{
+    CachedDatVersion, DatLoadPhase, DatLoadProgress, DatVariant, RedumpSystem, RedumpSystemListSource,
+};
 use chrono::{SecondsFormat, Utc};
 use regex::Regex;
 use serde::{Deserialize, Serialize};
@@ -14,7 +16,7 @@ use std::fs;
 use std::io::{Cursor, Read};
 use std::path::{Path, PathBuf};
 use std::sync::{Arc, OnceLock};
-use std::time::{Duration, Instant};
+use std::time::{Duration, Instant, SystemTime};
 use tauri::{AppHandle, Emitter, Manager};
 use zip::ZipArchive;
 
@@ -27,6 +29,8 @@ const FETCH_TIMEOUT_MS: u64 = 60_000;
 const SCRAPE_TIMEOUT_MS: u64 = 30_000;
 const HEAD_TIMEOUT_MS: u64 = 20_000;
 const DOWNLOAD_TIMEOUT_MS: u64 = 120_000;
+/// Superseded DATs kept per system/variant so versions can be compared.
+const DAT_HISTORY_LIMIT: usize = 5;
 
 const BUNDLED_SYSTEMS_JSON: &str = include_str!("../../src/shared/redumpSystems.json");
 
@@ -162,6 +166,10 @@ fn dat_meta_path(app: &AppHandle, slug: &str, variant: DatVariant) -> PathBuf {
     dat_dir(app, slug, variant).join("meta.json")
 }
 
+fn dat_history_dir(app: &AppHandle, slug: &str, variant: DatVariant) -> PathBuf {
+    dat_dir(app, slug, variant).join("history")
+}
+
 pub fn datfile_url(slug: &str, variant: DatVariant) -> String {
     let encoded = urlencoding::encode(slug);
     match variant {
@@ -461,6 +469,98 @@ pub fn read_dat_meta(app: &AppHandle, slug: &str, variant: DatVariant) -> Option
     read_json_file(&dat_meta_path(app, slug, variant))
 }
 
+/// Lists the cached DAT for a system followed by the superseded versions kept in
+/// `history/`, newest first.
+pub fn list_cached_dat_versions(
+    app: &AppHandle,
+    slug: &str,
+    variant: DatVariant,
+) -> Vec<CachedDatVersion> {
+    let mut versions = Vec::new();
+    let current_path = dat_file_path(app, slug, variant);
+    if current_path.is_file() {
+        let meta = read_dat_meta(app, slug, variant);
+        versions.push(CachedDatVersion {
+            file_path: current_path.to_string_lossy().into_owned(),
+            filename: meta
+                .as_ref()
+                .map(|m| m.filename.clone())
+                .filter(|name| !name.is_empty())
+                .unwrap_or_else(|| format!("{slug}.dat")),
+            fetched_at: meta.map(|m| m.fetched_at),
+            current: true,
+        });
+    }
+
+    for (path, modified) in history_entries(&dat_history_dir(app, slug, variant)) {
+        versions.push(CachedDatVersion {
+            filename: path
+                .file_name()
+                .map(|name| name.to_string_lossy().into_owned())
+                .unwrap_or_default(),
+            file_path: path.to_string_lossy().into_owned(),
+            fetched_at: Some(
+                chrono::DateTime::<Utc>::from(modified).to_rfc3339_opts(SecondsFormat::Millis, true),
+            ),
+            current: false,
+        });
+    }
+
+    versions
+}
+
+fn history_entries(dir: &Path) -> Vec<(PathBuf, SystemTime)> {
+    let Ok(entries) = fs::read_dir(dir) else {
+        return Vec::new();
+    };
+    let mut files: Vec<(PathBuf, SystemTime)> = entries
+        .flatten()
+        .filter_map(|entry| {
+            let metadata = entry.metadata().ok()?;
+            if !metadata.is_file() {
+                return None;
+            }
+            Some((entry.path(), metadata.modified().ok()?))
+        })
+        .collect();
+    files.sort_by(|a, b| b.1.cmp(&a.1));
+    files
+}
+
+/// Moves the cached DAT into `history/` before a different release replaces it.
+fn archive_cached_dat(
+    app: &AppHandle,
+    slug: &str,
+    variant: DatVariant,
+    next_filename: &str,
+) -> Result<(), String> {
+    let current_path = dat_file_path(app, slug, variant);
+    let Some(meta) = read_dat_meta(app, slug, variant) else {
+        return Ok(());
+    };
+    if !current_path.is_file() || meta.filename.is_empty() || meta.filename == next_filename {
+        return Ok(());
+    }
+
+    let history_dir = dat_history_dir(app, slug, variant);
+    ensure_dir(&history_dir)?;
+    let archived_name: String = meta
+        .filename
+        .chars()
+        .map(|c| if matches!(c, '/' | '\\' | ':') { '_' } else { c })
+        .collect();
+    fs::rename(&current_path, history_dir.join(archived_name))
+        .map_err(|e| format!("Failed to archive cached DAT {}: {e}", current_path.display()))?;
+
+    for (stale, _) in history_entries(&history_dir)
+        .into_iter()
+        .skip(DAT_HISTORY_LIMIT)
+    {
+        let _ = fs::remove_file(stale);
+    }
+    Ok(())
+}
+
 fn list_downloaded_slugs(app: &AppHandle) -> Vec<String> {
     let (settings, _) = crate::settings::load_settings(app);
     let root = cache_root(app).join("dats");
@@ -892,12 +992,13 @@ async fn download_and_cache_dat(
         (xml, dat_filename)
     };
 
+    let filename = disposition.clone().unwrap_or_else(|| dat_filename.clone());
+    archive_cached_dat(app, slug, variant, &filename)?;
     let source_path = dat_file_path(app, slug, variant);
     ensure_dir(&dat_dir(app, slug, variant))?;
     fs::write(&source_path, &xml)
         .map_err(|e| format!("Failed to write cached DAT {}: {e}", source_path.display()))?;
 
-    let filename = disposition.clone().unwrap_or_else(|| dat_filename.clone());
     let checked = now_iso();
     let meta = DatCacheMeta {
         slug: slug.to_string(),
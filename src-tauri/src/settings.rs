@@ -1,4 +1,5 @@
-use crate::types::{AppSettings, DatVariant};
+use crate::dat_parser::RegionGroup;
+use crate::types::{AppSettings, DatVariant, TitlePatternLists};
 use std::collections::HashSet;
 use std::fs;
 use std::path::{Path, PathBuf};
@@ -54,10 +55,17 @@ pub fn resolve_save_directory(app: &AppHandle, fallback: Option<PathBuf>) -> Opt
     fallback
 }
 
-pub fn remember_save_directory(app: &AppHandle, saved_path: &str) {
-    let Some(parent) = Path::new(saved_path).parent() else {
+/// Stores the folder of `saved_path` as the default save directory. When the file went into a
+/// template `subdirectory` of that folder, the folder above it is stored instead.
+pub fn remember_save_directory(app: &AppHandle, saved_path: &str, subdirectory: Option<&Path>) {
+    let Some(mut parent) = Path::new(saved_path).parent() else {
         return;
     };
+    if let Some(subdirectory) = subdirectory.filter(|subdirectory| parent.ends_with(subdirectory)) {
+        for _ in subdirectory.components() {
+            parent = parent.parent().unwrap_or(parent);
+        }
+    }
     if !parent.exists() {
         return;
     }
@@ -115,16 +123,94 @@ fn normalize_settings(mut settings: AppSettings) -> AppSettings {
         .map(|(slug, variant)| (slug.trim().to_string(), variant))
         .filter(|(slug, _)| !slug.is_empty())
         .collect();
+    let mut seen_regions = HashSet::new();
+    settings.region_priority = settings
+        .region_priority
+        .into_iter()
+        .map(|region| region.trim().to_string())
+        .filter(|region| !region.is_empty() && seen_regions.insert(region.clone()))
+        .collect();
+    settings.system_title_patterns = settings
+        .system_title_patterns
+        .into_iter()
+        .map(|(slug, lists)| {
+            (
+                slug.trim().to_string(),
+                TitlePatternLists {
+                    include: normalize_patterns(lists.include),
+                    exclude: normalize_patterns(lists.exclude),
+                },
+            )
+        })
+        .filter(|(slug, lists)| {
+            !slug.is_empty() && !(lists.include.is_empty() && lists.exclude.is_empty())
+        })
+        .collect();
+    for template in settings.header_template.fields_mut() {
+        *template = template
+            .take()
+            .map(|value| value.trim().to_string())
+            .filter(|value| !value.is_empty());
+    }
+    settings.filename_template = settings
+        .filename_template
+        .map(|template| template.trim().to_string())
+        .filter(|template| !template.is_empty());
+    settings.system_filename_templates = settings
+        .system_filename_templates
+        .into_iter()
+        .map(|(slug, template)| (slug.trim().to_string(), template.trim().to_string()))
+        .filter(|(slug, template)| !slug.is_empty() && !template.is_empty())
+        .collect();
+    settings.region_overrides.synonyms = settings
+        .region_overrides
+        .synonyms
+        .into_iter()
+        .map(|(token, region)| (token.trim().to_string(), region.trim().to_string()))
+        .filter(|(token, region)| !token.is_empty() && !region.is_empty())
+        .collect();
+    let mut seen_custom_regions = HashSet::new();
+    settings.region_overrides.regions = settings
+        .region_overrides
+        .regions
+        .into_iter()
+        .map(|region| region.trim().to_string())
+        .filter(|region| !region.is_empty() && seen_custom_regions.insert(region.clone()))
+        .collect();
+    let mut seen_groups = HashSet::new();
+    settings.region_groups = settings
+        .region_groups
+        .into_iter()
+        .map(|group| RegionGroup {
+            name: group.name.trim().to_string(),
+            regions: normalize_patterns(group.regions),
+        })
+        .filter(|group| {
+            !group.name.is_empty()
+                && !group.regions.is_empty()
+                && seen_groups.insert(group.name.clone())
+        })
+        .collect();
     if settings.show_all_systems && !settings.visible_system_slugs.is_empty() {
         settings.show_all_systems = false;
     }
     settings
 }
 
+fn normalize_patterns(patterns: Vec<String>) -> Vec<String> {
+    let mut seen = HashSet::new();
+    patterns
+        .into_iter()
+        .map(|pattern| pattern.trim().to_string())
+        .filter(|pattern| !pattern.is_empty() && seen.insert(pattern.clone()))
+        .collect()
+}
+
 #[cfg(test)]
 mod tests {
     use super::normalize_settings;
-    use crate::types::AppSettings;
+    use crate::dat_parser::{DatHeaderTemplate, RegionGroup, RegionOverrides};
+    use crate::types::{AppSettings, TitlePatternLists};
 
     #[test]
     fn blank_save_dir_becomes_none() {
@@ -135,9 +221,67 @@ mod tests {
             visible_system_slugs: vec![" psx ".into(), "".into(), "gc".into()],
             prefer_serial_version: false,
             system_dat_variants: Default::default(),
+            region_priority: vec![" Japan ".into(), "".into(), "Japan".into(), "USA".into()],
+            system_title_patterns: [
+                (
+                    " psx ".into(),
+                    TitlePatternLists {
+                        include: vec![" Racer* ".into(), "".into(), "Racer*".into()],
+                        exclude: Vec::new(),
+                    },
+                ),
+                ("gc".into(), TitlePatternLists::default()),
+            ]
+            .into_iter()
+            .collect(),
+            header_template: DatHeaderTemplate {
+                author: Some(" Our Team ".into()),
+                comment: Some("  ".into()),
+                ..DatHeaderTemplate::default()
+            },
+            filename_template: Some("   ".into()),
+            system_filename_templates: [
+                (" psx ".into(), " {slug}/{system} ".into()),
+                ("gc".into(), " ".into()),
+            ]
+            .into_iter()
+            .collect(),
+            region_overrides: RegionOverrides {
+                synonyms: [
+                    (" scand ".into(), " Scandinavia ".into()),
+                    ("nordic".into(), "".into()),
+                ]
+                .into_iter()
+                .collect(),
+                regions: vec![" Scandinavia ".into(), "".into(), "Scandinavia".into()],
+            },
+            region_groups: vec![
+                RegionGroup {
+                    name: " Nordics ".into(),
+                    regions: vec![" Denmark ".into(), "Sweden".into(), "Sweden".into()],
+                },
+                RegionGroup {
+                    name: "Empty".into(),
+                    regions: vec!["  ".into()],
+                },
+            ],
         };
         let normalized = normalize_settings(settings);
         assert_eq!(normalized.default_save_dir, None);
+        assert_eq!(normalized.region_priority, vec!["Japan", "USA"]);
+        assert_eq!(normalized.system_title_patterns.len(), 1);
+        assert_eq!(normalized.system_title_patterns["psx"].include, vec!["Racer*"]);
+        assert_eq!(normalized.header_template.author.as_deref(), Some("Our Team"));
+        assert_eq!(normalized.header_template.comment, None);
+        assert_eq!(normalized.filename_template, None);
+        assert_eq!(normalized.system_filename_templates.len(), 1);
+        assert_eq!(normalized.system_filename_templates["psx"], "{slug}/{system}");
+        assert_eq!(normalized.region_overrides.synonyms.len(), 1);
+        assert_eq!(normalized.region_overrides.synonyms["scand"], "Scandinavia");
+        assert_eq!(normalized.region_overrides.regions, vec!["Scandinavia"]);
+        assert_eq!(normalized.region_groups.len(), 1);
+        assert_eq!(normalized.region_groups[0].name, "Nordics");
+        assert_eq!(normalized.region_groups[0].regions, vec!["Denmark", "Sweden"]);
         assert_eq!(normalized.default_regions, vec!["Europe"]);
         assert_eq!(normalized.visible_system_slugs, vec!["psx", "gc"]);
         assert!(!normalized.show_all_systems);
@@ -1,7 +1,10 @@
 // IPC response / request types matching src/shared/ipcTypes.ts.
 // Depends on: serde (already in Cargo.toml), and crate::dat_parser::{DatHeader, FilterSummary}.
 
-use crate::dat_parser::{DatHeader, FilterSummary};
+use crate::dat_parser::{
+    DatDiff, DatHeader, DatHeaderTemplate, DatOutputFormat, DatRom, DatValidationFinding,
+    FilterSummary, RegionGroup, RegionOverrides, DEFAULT_REGION_PRIORITY,
+};
 use serde::{Deserialize, Serialize};
 use std::collections::BTreeMap;
 
@@ -12,6 +15,13 @@ pub struct LoadedDatPayload {
     pub original_filename: String,
     pub header: DatHeader,
     pub regions: Vec<String>,
+    /// Games per region, counting games without a region under Unknown.
+    pub region_counts: BTreeMap<String, usize>,
+    pub languages: Vec<String>,
+    pub tags: Vec<String>,
+    pub categories: Vec<String>,
+    /// Upper-case serial prefixes found in Serial/Version DATs, such as `SLUS`.
+    pub serial_prefixes: Vec<String>,
     pub total_games: usize,
     pub descriptor: String,
     pub normalized_descriptor: String,
@@ -61,10 +71,61 @@ pub struct FilterPreviewResponse {
     pub filename: Option<String>,
 }
 
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ValidateDatResponse {
+    pub success: bool,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub error: Option<String>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub findings: Option<Vec<DatValidationFinding>>,
+}
+
+/// A title pattern the backend's regex engine cannot compile, with the reason.
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct PatternError {
+    pub pattern: String,
+    pub error: String,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct DatGameDetails {
+    pub index: usize,
+    pub name: String,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub description: Option<String>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub category: Option<String>,
+    pub serials: Vec<String>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub version: Option<String>,
+    pub regions: Vec<String>,
+    pub languages: Vec<String>,
+    pub roms: Vec<DatRom>,
+    /// The game element as stored in the source DAT; ClrMamePro entries are shown as converted XML.
+    pub raw_xml: String,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GetGameResponse {
+    pub success: bool,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub error: Option<String>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub game: Option<DatGameDetails>,
+}
+
 fn default_regions() -> Vec<String> {
     vec!["USA".into(), "World".into()]
 }
 
+fn default_region_priority() -> Vec<String> {
+    DEFAULT_REGION_PRIORITY.iter().map(|region| region.to_string()).collect()
+}
+
 fn default_true() -> bool {
     true
 }
@@ -86,6 +147,13 @@ impl DatVariant {
     }
 }
 
+#[derive(Debug, Clone, Default, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase", default)]
+pub struct TitlePatternLists {
+    pub include: Vec<String>,
+    pub exclude: Vec<String>,
+}
+
 #[derive(Debug, Clone, Serialize, Deserialize)]
 #[serde(rename_all = "camelCase")]
 pub struct AppSettings {
@@ -101,6 +169,22 @@ pub struct AppSettings {
     pub prefer_serial_version: bool,
     #[serde(default)]
     pub system_dat_variants: BTreeMap<String, DatVariant>,
+    #[serde(default = "default_region_priority")]
+    pub region_priority: Vec<String>,
+    #[serde(default)]
+    pub system_title_patterns: BTreeMap<String, TitlePatternLists>,
+    #[serde(default)]
+    pub header_template: DatHeaderTemplate,
+    /// Applies to every system without its own entry in `system_filename_templates`.
+    #[serde(default)]
+    pub filename_template: Option<String>,
+    #[serde(default)]
+    pub system_filename_templates: BTreeMap<String, String>,
+    #[serde(default)]
+    pub region_overrides: RegionOverrides,
+    /// User-defined region groups; one named like a built-in group replaces it.
+    #[serde(default)]
+    pub region_groups: Vec<RegionGroup>,
 }
 
 impl Default for AppSettings {
@@ -112,6 +196,13 @@ impl Default for AppSettings {
             visible_system_slugs: Vec::new(),
             prefer_serial_version: false,
             system_dat_variants: BTreeMap::new(),
+            region_priority: default_region_priority(),
+            system_title_patterns: BTreeMap::new(),
+            header_template: DatHeaderTemplate::default(),
+            filename_template: None,
+            system_filename_templates: BTreeMap::new(),
+            region_overrides: RegionOverrides::default(),
+            region_groups: Vec::new(),
         }
     }
 }
@@ -139,6 +230,9 @@ pub struct SaveFilterResponse {
     pub summary: Option<FilterSummary>,
     #[serde(skip_serializing_if = "Option::is_none")]
     pub filename: Option<String>,
+    /// Format of the saved file, so a CSV or JSON export is not reported as a DAT.
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub output_format: Option<DatOutputFormat>,
 }
 
 #[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize)]
@@ -224,6 +318,43 @@ pub struct DownloadExtraResponse {
     pub filename: Option<String>,
 }
 
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct CachedDatVersion {
+    pub file_path: String,
+    pub filename: String,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub fetched_at: Option<String>,
+    pub current: bool,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ListDatVersionsResponse {
+    pub success: bool,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub error: Option<String>,
+    pub versions: Vec<CachedDatVersion>,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct PickDatFileResponse {
+    pub canceled: bool,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub file_path: Option<String>,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct DiffDatsResponse {
+    pub success: bool,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub error: Option<String>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub diff: Option<DatDiff>,
+}
+
 #[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize)]
 #[serde(rename_all = "camelCase")]
 pub enum DatLoadPhase {
@@ -280,7 +411,10 @@ pub enum AppUpdateStatus {
 
 #[cfg(test)]
 mod tests {
-    use super::{AppSettings, AppUpdateStatus, DatVariant};
+    use super::{
+        AppSettings, AppUpdateStatus, DatHeaderTemplate, DatVariant, RegionGroup,
+        RegionOverrides, TitlePatternLists,
+    };
     use std::collections::BTreeMap;
 
     #[test]
@@ -314,6 +448,28 @@ mod tests {
             visible_system_slugs: vec!["psx".into()],
             prefer_serial_version: true,
             system_dat_variants: BTreeMap::from([("psx".into(), DatVariant::Serial)]),
+            region_priority: vec!["Europe".into(), "USA".into()],
+            system_title_patterns: BTreeMap::from([(
+                "psx".into(),
+                TitlePatternLists {
+                    include: vec!["/^Tokimeki/".into()],
+                    exclude: Vec::new(),
+                },
+            )]),
+            header_template: DatHeaderTemplate {
+                author: Some("Our Team".into()),
+                ..DatHeaderTemplate::default()
+            },
+            filename_template: Some("{slug}/{system} [{regions}]".into()),
+            system_filename_templates: BTreeMap::from([("psx".into(), "{system}".into())]),
+            region_overrides: RegionOverrides {
+                synonyms: BTreeMap::from([("scand".into(), "Scandinavia".into())]),
+                regions: vec!["Scandinavia".into()],
+            },
+            region_groups: vec![RegionGroup {
+                name: "Nordics".into(),
+                regions: vec!["Denmark".into(), "Sweden".into()],
+            }],
         };
         let json = serde_json::to_value(&settings).unwrap();
         assert_eq!(json["defaultRegions"][0], "USA");
@@ -322,6 +478,16 @@ mod tests {
         assert_eq!(json["visibleSystemSlugs"][0], "psx");
         assert_eq!(json["preferSerialVersion"], true);
         assert_eq!(json["systemDatVariants"]["psx"], "serial");
+        assert_eq!(json["regionPriority"][0], "Europe");
+        assert_eq!(json["systemTitlePatterns"]["psx"]["include"][0], "/^Tokimeki/");
+        assert_eq!(json["headerTemplate"]["author"], "Our Team");
+        assert!(json["headerTemplate"].get("comment").is_none());
+        assert_eq!(json["filenameTemplate"], "{slug}/{system} [{regions}]");
+        assert_eq!(json["systemFilenameTemplates"]["psx"], "{system}");
+        assert_eq!(json["regionOverrides"]["synonyms"]["scand"], "Scandinavia");
+        assert_eq!(json["regionOverrides"]["regions"][0], "Scandinavia");
+        assert_eq!(json["regionGroups"][0]["name"], "Nordics");
+        assert_eq!(json["regionGroups"][0]["regions"][1], "Sweden");
         assert!(json.get("default_save_dir").is_none());
     }
 }
@@ -5,14 +5,22 @@ import { getCurrentWebview } from '@tauri-apps/api/webview';
 import type {
   AppSettings,
   AppUpdateStatus,
+  DatExportMode,
   DatHeader,
+  DatHeaderTemplate,
   DatLoadProgress,
+  DatOutputFormat,
   ExtraDownloadKind,
+  FilterOptions,
   FilterSummary,
+  HeaderTemplateTokens,
   LoadedDatPayload,
   RedumpSystem,
-  RedumpSystemListSource
+  RedumpSystemListSource,
+  RegionMatchMode,
+  TitlePatternLists
 } from '../shared';
+import { createRegionLabel, resolveRegionGroups, validateSerialPattern } from '../shared';
 import appIconUrl from '../../build/icon.svg';
 import { datAPI } from './datApi';
 import { DatVariantToggle } from './DatVariantToggle';
@@ -25,9 +33,56 @@ import {
 } from './settings';
 import { SettingsModal, type ThemeMode } from './SettingsModal';
 import { ContextCopyMenu } from './ContextCopyMenu';
+import { DatDiffView } from './DatDiffView';
+import { DatMergeView } from './DatMergeView';
+import { DatValidationView } from './DatValidationView';
+import { FilenameTemplateEditor, type FilenameTemplateScope } from './FilenameTemplateEditor';
+import { HeaderTemplateEditor } from './HeaderTemplateEditor';
+import { RegionPriorityEditor } from './RegionPriorityEditor';
+import { TriStateCheckbox, type TriState } from './TriStateCheckbox';
+import { TitlePatternEditor } from './TitlePatternEditor';
 
 const numberFormatter = new Intl.NumberFormat();
 
+const OUTPUT_FORMAT_LABELS: Record<DatOutputFormat, string> = {
+  logiqx: 'Logiqx XML',
+  clrmamepro: 'ClrMamePro text',
+  csv: 'CSV game list',
+  json: 'JSON game list'
+};
+
+const GAME_LIST_FORMATS = new Set<DatOutputFormat>(['csv', 'json']);
+
+/** How long the pointer rests on a region before its "would add" hint is previewed. */
+const REGION_HINT_DELAY_MS = 200;
+
+type RegionSort = 'name' | 'count';
+
+const SIZE_UNITS = { MB: 1e6, GB: 1e9 } as const;
+
+type SizeUnit = keyof typeof SIZE_UNITS;
+
+const byteSizeFormatter = new Intl.NumberFormat(undefined, { maximumFractionDigits: 2 });
+
+function formatByteSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1000 && unit < units.length - 1) {
+    value /= 1000;
+    unit += 1;
+  }
+  return `${byteSizeFormatter.format(value)} ${units[unit]}`;
+}
+
+/** Turns a size field into bytes; blank or invalid input means no limit. */
+function parseSizeLimit(input: string, unit: SizeUnit): number | undefined {
+  const value = Number.parseFloat(input);
+  return input.trim() && Number.isFinite(value) && value >= 0 ? Math.round(value * SIZE_UNITS[unit]) : undefined;
+}
+
+const EMPTY_TITLE_PATTERNS: TitlePatternLists = { include: [], exclude: [] };
+
 function busyActionLabel(progress: DatLoadProgress | null, fallback: string): string {
   if (!progress) {
     return fallback;
@@ -68,9 +123,26 @@ function App() {
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [loadedDat, setLoadedDat] = useState<LoadedDatPayload | null>(null);
   const [selectedRegions, setSelectedRegions] = useState<string[]>([]);
+  const [excludedRegions, setExcludedRegions] = useState<string[]>([]);
+  const [regionMatchMode, setRegionMatchMode] = useState<RegionMatchMode>('any');
+  const [selectedLanguages, setSelectedLanguages] = useState<string[]>([]);
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [selectedSerialPrefixes, setSelectedSerialPrefixes] = useState<string[]>([]);
+  const [serialPattern, setSerialPattern] = useState('');
+  const [serialPatternDraft, setSerialPatternDraft] = useState('');
+  const [minSizeInput, setMinSizeInput] = useState('');
+  const [maxSizeInput, setMaxSizeInput] = useState('');
+  const [sizeUnit, setSizeUnit] = useState<SizeUnit>('GB');
+  const [tagFilters, setTagFilters] = useState<Record<string, TriState>>({});
+  const [oneGameOneRom, setOneGameOneRom] = useState(false);
+  const [latestRevisionOnly, setLatestRevisionOnly] = useState(false);
+  const [exportMode, setExportMode] = useState<DatExportMode>('flat');
+  const [outputFormat, setOutputFormat] = useState<DatOutputFormat>('logiqx');
   const [previewHeader, setPreviewHeader] = useState<DatHeader | null>(null);
   const [previewSummary, setPreviewSummary] = useState<FilterSummary | null>(null);
   const [previewFilename, setPreviewFilename] = useState<string | null>(null);
+  const [regionSort, setRegionSort] = useState<RegionSort>('name');
+  const [regionHint, setRegionHint] = useState<{ region: string; text: string } | null>(null);
 
   const [opening, setOpening] = useState(false);
   const [previewLoading, setPreviewLoading] = useState(false);
@@ -99,6 +171,10 @@ function App() {
   const [appUpdateBannerDismissed, setAppUpdateBannerDismissed] = useState(false);
 
   const previewRequestId = useRef(0);
+  const regionHintRequestId = useRef(0);
+  // Filtered game count with each hovered region added, valid until the filters change.
+  const regionHintCounts = useRef(new Map<string, number>());
+  const regionHintTimer = useRef<number | undefined>(undefined);
   const systemPickerRef = useRef<HTMLDivElement | null>(null);
   const systemSearchRef = useRef<HTMLInputElement | null>(null);
   const saveMenuRef = useRef<HTMLDivElement | null>(null);
@@ -121,6 +197,13 @@ function App() {
     ) => {
       setLoadedDat(data);
       setSelectedRegions(resolveRegionSelection(data.regions, settingsRef.current.defaultRegions));
+      setExcludedRegions([]);
+      setSelectedLanguages([]);
+      setSelectedCategories([]);
+      setSelectedSerialPrefixes([]);
+      setSerialPattern('');
+      setSerialPatternDraft('');
+      setTagFilters({});
       setPreviewHeader(null);
       setPreviewSummary(null);
       setPreviewFilename(null);
@@ -395,9 +478,9 @@ function App() {
         }
 
         setIsDragActive(false);
-        const path = event.payload.paths.find((candidate) => /\.(dat|xml)$/i.test(candidate));
+        const path = event.payload.paths.find((candidate) => /\.(dat|xml|txt)$/i.test(candidate));
         if (!path) {
-          setError('Only .dat or .xml files can be dropped.');
+          setError('Only .dat, .xml or .txt DAT files can be dropped.');
           return;
         }
 
@@ -497,6 +580,78 @@ function App() {
     };
   }, [saveMenuOpen]);
 
+  const titlePatterns = useMemo(
+    () => (selectedSlug ? settings.systemTitlePatterns[selectedSlug] : undefined) ?? EMPTY_TITLE_PATTERNS,
+    [selectedSlug, settings.systemTitlePatterns]
+  );
+
+  const filterOptions = useMemo<FilterOptions>(
+    () => ({
+      matchMode: regionMatchMode,
+      excludedRegions,
+      oneGameOneRom,
+      regionPriority: settings.regionPriority,
+      languages: selectedLanguages,
+      categories: selectedCategories,
+      serialPrefixes: selectedSerialPrefixes,
+      serialPattern: serialPattern || undefined,
+      minSize: parseSizeLimit(minSizeInput, sizeUnit),
+      maxSize: parseSizeLimit(maxSizeInput, sizeUnit),
+      includeTags: Object.keys(tagFilters).filter((tag) => tagFilters[tag] === 'include'),
+      excludeTags: Object.keys(tagFilters).filter((tag) => tagFilters[tag] === 'exclude'),
+      latestRevisionOnly,
+      includeTitles: titlePatterns.include,
+      excludeTitles: titlePatterns.exclude,
+      exportMode,
+      outputFormat,
+      headerTemplate: settings.headerTemplate,
+      filenameTemplate:
+        (selectedSlug ? settings.systemFilenameTemplates[selectedSlug] : undefined) ??
+        settings.filenameTemplate ??
+        undefined,
+      systemSlug: selectedSlug || undefined,
+      regionGroups: settings.regionGroups
+    }),
+    [
+      excludedRegions,
+      exportMode,
+      latestRevisionOnly,
+      maxSizeInput,
+      minSizeInput,
+      oneGameOneRom,
+      outputFormat,
+      regionMatchMode,
+      selectedCategories,
+      selectedLanguages,
+      selectedSerialPrefixes,
+      selectedSlug,
+      serialPattern,
+      settings.filenameTemplate,
+      settings.headerTemplate,
+      settings.regionGroups,
+      settings.regionPriority,
+      settings.systemFilenameTemplates,
+      sizeUnit,
+      tagFilters,
+      titlePatterns
+    ]
+  );
+
+  const headerTemplateTokens = useMemo<HeaderTemplateTokens | null>(() => {
+    if (!loadedDat || !previewSummary) {
+      return null;
+    }
+    const today = new Date().toISOString().split('T')[0];
+    return {
+      system: loadedDat.header.name,
+      regions: previewSummary.regionLabel,
+      count: String(previewSummary.filteredGames),
+      version: previewSummary.versionLabel ?? loadedDat.header.version ?? loadedDat.header.date ?? today,
+      descriptor: previewSummary.descriptor,
+      date: today
+    };
+  }, [loadedDat, previewSummary]);
+
   useEffect(() => {
     if (!loadedDat) {
       setPreviewHeader(null);
@@ -510,7 +665,7 @@ function App() {
     setPreviewLoading(true);
 
     datAPI
-      .previewFilter(selectedRegions)
+      .previewFilter(selectedRegions, filterOptions)
       .then((response) => {
         if (previewRequestId.current !== requestId) {
           return;
@@ -542,7 +697,7 @@ function App() {
           setPreviewLoading(false);
         }
       });
-  }, [loadedDat, selectedRegions]);
+  }, [filterOptions, loadedDat, selectedRegions]);
 
   const visibleSystems = useMemo(
     () => filterVisibleSystems(systems, settings),
@@ -690,20 +845,179 @@ function App() {
     [applySystemsResponse, hydrateLoadedDat, selectedSlug]
   );
 
-  const handleToggleRegion = useCallback((region: string) => {
-    setSelectedRegions((current) =>
-      current.includes(region) ? current.filter((value) => value !== region) : [...current, region]
-    );
+  const handleRegionStateChange = useCallback((region: string, state: TriState) => {
+    setSelectedRegions((current) => {
+      const without = current.filter((value) => value !== region);
+      return state === 'include' ? [...without, region] : without;
+    });
+    setExcludedRegions((current) => {
+      const without = current.filter((value) => value !== region);
+      return state === 'exclude' ? [...without, region] : without;
+    });
   }, []);
 
+  const handleRegionHover = useCallback(
+    (region: string, hovering: boolean) => {
+      const requestId = ++regionHintRequestId.current;
+      window.clearTimeout(regionHintTimer.current);
+      if (
+        !hovering ||
+        !previewSummary ||
+        selectedRegions.length === 0 ||
+        selectedRegions.includes(region) ||
+        excludedRegions.includes(region)
+      ) {
+        setRegionHint(null);
+        return;
+      }
+
+      const showHint = (filteredGames: number) => {
+        const added = Math.max(filteredGames - previewSummary.filteredGames, 0);
+        setRegionHint({ region, text: `would add ${numberFormatter.format(added)}` });
+      };
+      const cached = regionHintCounts.current.get(region);
+      if (cached !== undefined) {
+        showHint(cached);
+        return;
+      }
+
+      setRegionHint(null);
+      regionHintTimer.current = window.setTimeout(() => {
+        datAPI
+          .previewFilter([...selectedRegions, region], filterOptions)
+          .then((response) => {
+            if (regionHintRequestId.current !== requestId) {
+              return;
+            }
+            if (response.success && response.summary) {
+              regionHintCounts.current.set(region, response.summary.filteredGames);
+              showHint(response.summary.filteredGames);
+            } else {
+              setRegionHint(null);
+            }
+          })
+          .catch(() => {
+            if (regionHintRequestId.current === requestId) {
+              setRegionHint(null);
+            }
+          });
+      }, REGION_HINT_DELAY_MS);
+    },
+    [excludedRegions, filterOptions, previewSummary, selectedRegions]
+  );
+
+  useEffect(() => {
+    regionHintRequestId.current += 1;
+    regionHintCounts.current.clear();
+    window.clearTimeout(regionHintTimer.current);
+    setRegionHint(null);
+  }, [filterOptions, loadedDat, selectedRegions]);
+
+  useEffect(() => () => window.clearTimeout(regionHintTimer.current), []);
+
+  const sortedRegions = useMemo(() => {
+    if (!loadedDat) {
+      return [];
+    }
+    const counts = loadedDat.regionCounts;
+    return regionSort === 'count'
+      ? [...loadedDat.regions].sort((a, b) => (counts[b] ?? 0) - (counts[a] ?? 0) || a.localeCompare(b))
+      : loadedDat.regions;
+  }, [loadedDat, regionSort]);
+
+  const regionGroups = useMemo(
+    () => resolveRegionGroups(loadedDat?.regions ?? [], settings.regionGroups),
+    [loadedDat, settings.regionGroups]
+  );
+
+  const handleRegionGroupToggle = useCallback(
+    (groupRegions: string[]) => {
+      const fullySelected = groupRegions.every((region) => selectedRegions.includes(region));
+      setSelectedRegions((current) => {
+        const without = current.filter((region) => !groupRegions.includes(region));
+        return fullySelected ? without : [...without, ...groupRegions];
+      });
+      setExcludedRegions((current) => current.filter((region) => !groupRegions.includes(region)));
+    },
+    [selectedRegions]
+  );
+
   const handleSelectAll = useCallback(() => {
     if (loadedDat) {
       setSelectedRegions(loadedDat.regions);
+      setExcludedRegions([]);
     }
   }, [loadedDat]);
 
   const handleClearSelection = useCallback(() => {
     setSelectedRegions([]);
+    setExcludedRegions([]);
+  }, []);
+
+  const handleToggleLanguage = useCallback((language: string) => {
+    setSelectedLanguages((current) =>
+      current.includes(language) ? current.filter((value) => value !== language) : [...current, language]
+    );
+  }, []);
+
+  const handleToggleCategory = useCallback((category: string) => {
+    setSelectedCategories((current) =>
+      current.includes(category) ? current.filter((value) => value !== category) : [...current, category]
+    );
+  }, []);
+
+  const handleToggleSerialPrefix = useCallback((prefix: string) => {
+    setSelectedSerialPrefixes((current) =>
+      current.includes(prefix) ? current.filter((value) => value !== prefix) : [...current, prefix]
+    );
+  }, []);
+
+  // The backend matches serials with the Rust `regex` crate, which rejects some patterns RegExp accepts.
+  const [backendSerialPatternError, setBackendSerialPatternError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const pattern = serialPatternDraft.trim();
+    if (!pattern) {
+      setBackendSerialPatternError(null);
+      return;
+    }
+    let cancelled = false;
+    datAPI
+      .validateSerialPattern(pattern)
+      .then((message) => {
+        if (!cancelled) {
+          setBackendSerialPatternError(message);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setBackendSerialPatternError(null);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [serialPatternDraft]);
+
+  const serialPatternError = useMemo(
+    () => (serialPatternDraft.trim() ? (validateSerialPattern(serialPatternDraft) ?? backendSerialPatternError) : null),
+    [backendSerialPatternError, serialPatternDraft]
+  );
+
+  const commitSerialPattern = useCallback(() => {
+    setSerialPattern(serialPatternDraft.trim());
+  }, [serialPatternDraft]);
+
+  const handleTagFilterChange = useCallback((tag: string, value: TriState) => {
+    setTagFilters((current) => {
+      const next = { ...current };
+      if (value === 'off') {
+        delete next[tag];
+      } else {
+        next[tag] = value;
+      }
+      return next;
+    });
   }, []);
 
   const handleSaveFiltered = useCallback(async () => {
@@ -715,7 +1029,7 @@ function App() {
     setError(null);
 
     try {
-      const response = await datAPI.saveFiltered(selectedRegions);
+      const response = await datAPI.saveFiltered(selectedRegions, filterOptions);
       if (!response.success) {
         if (response.canceled) {
           setInfo('Save cancelled.');
@@ -726,7 +1040,11 @@ function App() {
       }
 
       const destination = response.filename ?? response.savedPath ?? 'filtered.dat';
-      setInfo(`Filtered DAT saved as ${destination}`);
+      setInfo(
+        GAME_LIST_FORMATS.has(response.outputFormat ?? outputFormat)
+          ? `Game list exported as ${destination}`
+          : `Filtered DAT saved as ${destination}`
+      );
 
       try {
         const latest = await datAPI.getSettings();
@@ -740,7 +1058,7 @@ function App() {
     } finally {
       setSaving(false);
     }
-  }, [loadedDat, selectedRegions]);
+  }, [filterOptions, loadedDat, outputFormat, selectedRegions]);
 
   const handleDatVariantChange = useCallback(
     async (variant: 'standard' | 'serial') => {
@@ -777,6 +1095,101 @@ function App() {
     [applySystemsResponse, selectedSlug]
   );
 
+  const handleRegionPriorityChange = useCallback(async (regionPriority: string[]) => {
+    const next: AppSettings = {
+      ...settingsRef.current,
+      regionPriority
+    };
+
+    settingsRef.current = next;
+    setSettings(next);
+
+    try {
+      const saved = await datAPI.saveSettings(next);
+      settingsRef.current = saved;
+      setSettings(saved);
+    } catch (err) {
+      setError(`Failed to save region priority: ${extractMessage(err)}`);
+    }
+  }, []);
+
+  const handleHeaderTemplateChange = useCallback(async (headerTemplate: DatHeaderTemplate) => {
+    const next: AppSettings = {
+      ...settingsRef.current,
+      headerTemplate
+    };
+
+    settingsRef.current = next;
+    setSettings(next);
+
+    try {
+      const saved = await datAPI.saveSettings(next);
+      settingsRef.current = saved;
+      setSettings(saved);
+    } catch (err) {
+      setError(`Failed to save header template: ${extractMessage(err)}`);
+    }
+  }, []);
+
+  const handleFilenameTemplateChange = useCallback(
+    async (scope: FilenameTemplateScope, template: string | null) => {
+      const current = settingsRef.current;
+      const systemFilenameTemplates = { ...current.systemFilenameTemplates };
+      if (scope === 'system' && selectedSlug) {
+        if (template) {
+          systemFilenameTemplates[selectedSlug] = template;
+        } else {
+          delete systemFilenameTemplates[selectedSlug];
+        }
+      }
+      const next: AppSettings = {
+        ...current,
+        filenameTemplate: scope === 'global' ? template : current.filenameTemplate,
+        systemFilenameTemplates
+      };
+
+      settingsRef.current = next;
+      setSettings(next);
+
+      try {
+        const saved = await datAPI.saveSettings(next);
+        settingsRef.current = saved;
+        setSettings(saved);
+      } catch (err) {
+        setError(`Failed to save filename template: ${extractMessage(err)}`);
+      }
+    },
+    [selectedSlug]
+  );
+
+  const handleTitlePatternsChange = useCallback(
+    async (patterns: TitlePatternLists) => {
+      if (!selectedSlug) {
+        return;
+      }
+
+      const next: AppSettings = {
+        ...settingsRef.current,
+        systemTitlePatterns: {
+          ...settingsRef.current.systemTitlePatterns,
+          [selectedSlug]: patterns
+        }
+      };
+
+      settingsRef.current = next;
+      setSettings(next);
+
+      try {
+        const saved = await datAPI.saveSettings(next);
+        settingsRef.current = saved;
+        setSettings(saved);
+      } catch (err) {
+        setError(`Failed to save title patterns: ${extractMessage(err)}`);
+      }
+    },
+    [selectedSlug]
+  );
+
   const handleDownloadExtra = useCallback(
     async (kind: ExtraDownloadKind) => {
       if (!selectedSlug) {
@@ -821,15 +1234,14 @@ function App() {
   );
 
   const regionLabel = useMemo(() => {
-    if (!selectedRegions.length) {
-      return 'All regions';
-    }
-    return selectedRegions.join(', ');
-  }, [selectedRegions]);
+    const regions =
+      createRegionLabel(selectedRegions, regionMatchMode, excludedRegions, regionGroups) || 'All regions';
+    return [regions, selectedLanguages.join(', '), selectedCategories.join(', ')].filter(Boolean).join(' · ');
+  }, [excludedRegions, regionGroups, regionMatchMode, selectedCategories, selectedLanguages, selectedRegions]);
 
   const canPreview = !!loadedDat;
   const datBusy = opening || downloading;
-  const canSave = !!previewSummary && !previewLoading && !saving && !datBusy;
+  const canSave = !!previewSummary && !previewLoading && !saving && !datBusy && !serialPatternError;
   const downloadLabel = selectedSystem?.downloaded
     ? selectedSystem.updateAvailable
       ? 'Download update'
@@ -893,13 +1305,29 @@ function App() {
 
   const handleSaveSettings = useCallback(
     async (next: AppSettings) => {
+      const previousOverrides = settingsRef.current.regionOverrides;
       const saved = await datAPI.saveSettings(next);
       settingsRef.current = saved;
       setSettings(saved);
       persistTheme(theme);
       themeBeforeSettings.current = theme;
-      if (loadedDat) {
+      if (loadedDat && JSON.stringify(previousOverrides) !== JSON.stringify(saved.regionOverrides)) {
+        // Regions are resolved while parsing, so the loaded DAT has to be read again.
+        try {
+          const reloaded = await datAPI.loadDatFromPath(loadedDat.filePath);
+          if (reloaded.success && reloaded.data) {
+            hydrateLoadedDat(reloaded.data, `Reloaded ${reloaded.data.originalFilename} with the updated regions`, {
+              preferSlug: selectedSlug || undefined
+            });
+          } else {
+            setError(reloaded.error ?? 'Failed to reload the DAT with the updated regions.');
+          }
+        } catch (err) {
+          setError(`Failed to reload the DAT with the updated regions: ${extractMessage(err)}`);
+        }
+      } else if (loadedDat) {
         setSelectedRegions(resolveRegionSelection(loadedDat.regions, saved.defaultRegions));
+        setExcludedRegions([]);
       }
       if (
         !saved.showAllSystems &&
@@ -918,7 +1346,7 @@ function App() {
       }
       setSettingsOpen(false);
     },
-    [applySystemsResponse, loadedDat, persistTheme, selectedSlug, theme]
+    [applySystemsResponse, hydrateLoadedDat, loadedDat, persistTheme, selectedSlug, theme]
   );
 
   return (
@@ -981,61 +1409,74 @@ function App() {
             <div className="split-button" ref={saveMenuRef}>
               <button
                 type="button"
-                className={`button${hasExtraDownloads ? ' split-button__main' : ''}`}
+                className="button split-button__main"
                 onClick={handleSaveFiltered}
                 disabled={!canSave || extraDownloading}
               >
-                {saving ? 'Saving…' : 'Save Filtered DAT'}
+                {saving ? 'Saving…' : GAME_LIST_FORMATS.has(outputFormat) ? 'Export Game List' : 'Save Filtered DAT'}
               </button>
-              {hasExtraDownloads && (
-                <>
-                  <button
-                    type="button"
-                    className="button split-button__chevron"
-                    aria-haspopup="menu"
-                    aria-expanded={saveMenuOpen}
-                    aria-label="More downloads"
-                    disabled={datBusy || extraDownloading || systemsLoading || !selectedSlug}
-                    onClick={() => setSaveMenuOpen((open) => !open)}
-                  >
-                    <svg viewBox="0 0 12 12" aria-hidden="true">
-                      <path
-                        d="M2.5 4.25 6 7.75 9.5 4.25"
-                        fill="none"
-                        stroke="currentColor"
-                        strokeWidth="1.75"
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                      />
-                    </svg>
-                  </button>
-                  {saveMenuOpen && (
-                    <div className="split-button__menu" role="menu">
-                      {selectedSystem?.hasCues && (
-                        <button
-                          type="button"
-                          className="split-button__item"
-                          role="menuitem"
-                          disabled={extraDownloading || downloading}
-                          onClick={() => void handleDownloadExtra('cues')}
-                        >
-                          Download Cuesheets
-                        </button>
-                      )}
-                      {selectedSystem?.hasSbi && (
-                        <button
-                          type="button"
-                          className="split-button__item"
-                          role="menuitem"
-                          disabled={extraDownloading || downloading}
-                          onClick={() => void handleDownloadExtra('sbi')}
-                        >
-                          Download SBI
-                        </button>
-                      )}
-                    </div>
+              <button
+                type="button"
+                className="button split-button__chevron"
+                aria-haspopup="menu"
+                aria-expanded={saveMenuOpen}
+                aria-label="Save options"
+                disabled={datBusy || extraDownloading}
+                onClick={() => setSaveMenuOpen((open) => !open)}
+              >
+                <svg viewBox="0 0 12 12" aria-hidden="true">
+                  <path
+                    d="M2.5 4.25 6 7.75 9.5 4.25"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="1.75"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                </svg>
+              </button>
+              {saveMenuOpen && (
+                <div className="split-button__menu" role="menu">
+                  <p className="split-button__label">Output format</p>
+                  {(Object.keys(OUTPUT_FORMAT_LABELS) as DatOutputFormat[]).map((format) => (
+                    <button
+                      key={format}
+                      type="button"
+                      className={`split-button__item${outputFormat === format ? ' is-active' : ''}`}
+                      role="menuitemradio"
+                      aria-checked={outputFormat === format}
+                      onClick={() => {
+                        setOutputFormat(format);
+                        setSaveMenuOpen(false);
+                      }}
+                    >
+                      {OUTPUT_FORMAT_LABELS[format]}
+                    </button>
+                  ))}
+                  {hasExtraDownloads && <hr className="split-button__divider" />}
+                  {selectedSystem?.hasCues && (
+                    <button
+                      type="button"
+                      className="split-button__item"
+                      role="menuitem"
+                      disabled={extraDownloading || downloading || systemsLoading || !selectedSlug}
+                      onClick={() => void handleDownloadExtra('cues')}
+                    >
+                      Download Cuesheets
+                    </button>
+                  )}
+                  {selectedSystem?.hasSbi && (
+                    <button
+                      type="button"
+                      className="split-button__item"
+                      role="menuitem"
+                      disabled={extraDownloading || downloading || systemsLoading || !selectedSlug}
+                      onClick={() => void handleDownloadExtra('sbi')}
+                    >
+                      Download SBI
+                    </button>
                   )}
-                </>
+                </div>
               )}
             </div>
           </div>
@@ -1302,6 +1743,14 @@ function App() {
               <header className="panel-header">
                 <h3>Region Filters</h3>
                 <div className="panel-actions">
+                  <select
+                    value={regionSort}
+                    aria-label="Sort regions"
+                    onChange={(event) => setRegionSort(event.target.value as RegionSort)}
+                  >
+                    <option value="name">Sort by name</option>
+                    <option value="count">Sort by game count</option>
+                  </select>
                   <button type="button" className="button secondary" onClick={handleSelectAll} disabled={datBusy}>
                     Select All
                   </button>
@@ -1311,25 +1760,388 @@ function App() {
                 </div>
               </header>
 
-              <div className="regions-grid">
-                {loadedDat.regions.map((region) => {
-                  const checked = selectedRegions.includes(region);
-                  return (
-                    <label key={region} className={`region-item ${checked ? 'selected' : ''}${datBusy ? ' is-disabled' : ''}`}>
-                      <input
-                        type="checkbox"
-                        value={region}
-                        checked={checked}
+              <div className="inline-field">
+                <label htmlFor="region-match-mode">Keep games that have</label>
+                <select
+                  id="region-match-mode"
+                  value={regionMatchMode}
+                  disabled={datBusy}
+                  onChange={(event) => setRegionMatchMode(event.target.value as RegionMatchMode)}
+                >
+                  <option value="any">any selected region</option>
+                  <option value="all">all selected regions</option>
+                  <option value="exclusive">only selected regions</option>
+                </select>
+                <span className="inline-field__hint">Click a region twice to exclude it.</span>
+              </div>
+
+              {regionGroups.length > 0 && (
+                <div className="region-groups" role="group" aria-label="Region groups">
+                  {regionGroups.map((group) => {
+                    const selectedCount = group.regions.filter((region) => selectedRegions.includes(region)).length;
+                    const state =
+                      selectedCount === group.regions.length ? ' is-active' : selectedCount > 0 ? ' is-partial' : '';
+                    return (
+                      <button
+                        key={group.name}
+                        type="button"
+                        className={`region-groups__toggle${state}`}
+                        aria-pressed={selectedCount === group.regions.length}
                         disabled={datBusy}
-                        onChange={() => handleToggleRegion(region)}
-                      />
-                      <span>{region}</span>
-                    </label>
-                  );
-                })}
+                        title={group.regions.join(', ')}
+                        onClick={() => handleRegionGroupToggle(group.regions)}
+                      >
+                        {group.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="regions-grid">
+                {sortedRegions.map((region) => (
+                  <TriStateCheckbox
+                    key={region}
+                    label={region}
+                    value={
+                      selectedRegions.includes(region) ? 'include' : excludedRegions.includes(region) ? 'exclude' : 'off'
+                    }
+                    disabled={datBusy}
+                    count={loadedDat.regionCounts[region]}
+                    hint={regionHint?.region === region ? regionHint.text : undefined}
+                    onHoverChange={(hovering) => handleRegionHover(region, hovering)}
+                    onChange={(value) => handleRegionStateChange(region, value)}
+                  />
+                ))}
+              </div>
+
+              <div className="filter-options">
+                <label className={`filter-toggle${datBusy ? ' is-disabled' : ''}`}>
+                  <input
+                    type="checkbox"
+                    checked={latestRevisionOnly}
+                    disabled={datBusy}
+                    onChange={(event) => setLatestRevisionOnly(event.target.checked)}
+                  />
+                  <span>Latest revision only — drop older Rev/version dumps of the same title and region</span>
+                </label>
+                <label className={`filter-toggle${datBusy ? ' is-disabled' : ''}`}>
+                  <input
+                    type="checkbox"
+                    checked={oneGameOneRom}
+                    disabled={datBusy}
+                    onChange={(event) => setOneGameOneRom(event.target.checked)}
+                  />
+                  <span>1G1R — keep one release per title, preferring regions in this order:</span>
+                </label>
+                <RegionPriorityEditor
+                  value={settings.regionPriority}
+                  regions={loadedDat.regions}
+                  onChange={(next) => void handleRegionPriorityChange(next)}
+                  disabled={datBusy || (!oneGameOneRom && exportMode !== 'parentClone')}
+                />
+                <div className="inline-field">
+                  <label htmlFor="export-mode">Output structure</label>
+                  <select
+                    id="export-mode"
+                    value={exportMode}
+                    disabled={datBusy}
+                    onChange={(event) => setExportMode(event.target.value as DatExportMode)}
+                  >
+                    <option value="flat">Flat (Redump layout)</option>
+                    <option value="parentClone">Parent/clone (regional variants cloned from the top priority)</option>
+                  </select>
+                </div>
+              </div>
+            </section>
+
+            {loadedDat.languages.some((language) => language !== 'Unknown') && (
+              <section className="panel">
+                <header className="panel-header">
+                  <h3>Language Filters</h3>
+                  <div className="panel-actions">
+                    <button
+                      type="button"
+                      className="button secondary"
+                      onClick={() => setSelectedLanguages(loadedDat.languages)}
+                      disabled={datBusy}
+                    >
+                      Select All
+                    </button>
+                    <button
+                      type="button"
+                      className="button secondary"
+                      onClick={() => setSelectedLanguages([])}
+                      disabled={datBusy}
+                    >
+                      Clear
+                    </button>
+                  </div>
+                </header>
+                <p className="panel-description">
+                  Games must match both the region and language selections. Titles without a language list count as
+                  Unknown. Leave empty to keep every language.
+                </p>
+
+                <div className="regions-grid">
+                  {loadedDat.languages.map((language) => {
+                    const checked = selectedLanguages.includes(language);
+                    return (
+                      <label
+                        key={language}
+                        className={`region-item ${checked ? 'selected' : ''}${datBusy ? ' is-disabled' : ''}`}
+                      >
+                        <input
+                          type="checkbox"
+                          value={language}
+                          checked={checked}
+                          disabled={datBusy}
+                          onChange={() => handleToggleLanguage(language)}
+                        />
+                        <span>{language}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </section>
+            )}
+
+            {loadedDat.categories.some((category) => category !== 'Unknown') && (
+              <section className="panel">
+                <header className="panel-header">
+                  <h3>Category Filters</h3>
+                  <div className="panel-actions">
+                    <button
+                      type="button"
+                      className="button secondary"
+                      onClick={() => setSelectedCategories(loadedDat.categories)}
+                      disabled={datBusy}
+                    >
+                      Select All
+                    </button>
+                    <button
+                      type="button"
+                      className="button secondary"
+                      onClick={() => setSelectedCategories([])}
+                      disabled={datBusy}
+                    >
+                      Clear
+                    </button>
+                  </div>
+                </header>
+                <p className="panel-description">
+                  Games must match both the region and category selections. Entries without a category count as
+                  Unknown. Leave empty to keep every category.
+                </p>
+
+                <div className="regions-grid">
+                  {loadedDat.categories.map((category) => {
+                    const checked = selectedCategories.includes(category);
+                    return (
+                      <label
+                        key={category}
+                        className={`region-item ${checked ? 'selected' : ''}${datBusy ? ' is-disabled' : ''}`}
+                      >
+                        <input
+                          type="checkbox"
+                          value={category}
+                          checked={checked}
+                          disabled={datBusy}
+                          onChange={() => handleToggleCategory(category)}
+                        />
+                        <span>{category}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </section>
+            )}
+
+            {loadedDat.serialPrefixes.length > 0 && (
+              <section className="panel">
+                <header className="panel-header">
+                  <h3>Serial Filters</h3>
+                  <div className="panel-actions">
+                    <button
+                      type="button"
+                      className="button secondary"
+                      onClick={() => {
+                        setSelectedSerialPrefixes([]);
+                        setSerialPattern('');
+                        setSerialPatternDraft('');
+                      }}
+                      disabled={datBusy || (selectedSerialPrefixes.length === 0 && !serialPatternDraft)}
+                    >
+                      Clear
+                    </button>
+                  </div>
+                </header>
+                <p className="panel-description">
+                  Keep games whose serial starts with one of the selected prefixes and, if a pattern is set, has a
+                  serial matching that regular expression. Games without a serial are dropped while either filter is
+                  active.
+                </p>
+
+                <div className="regions-grid">
+                  {loadedDat.serialPrefixes.map((prefix) => {
+                    const checked = selectedSerialPrefixes.includes(prefix);
+                    return (
+                      <label
+                        key={prefix}
+                        className={`region-item ${checked ? 'selected' : ''}${datBusy ? ' is-disabled' : ''}`}
+                      >
+                        <input
+                          type="checkbox"
+                          value={prefix}
+                          checked={checked}
+                          disabled={datBusy}
+                          onChange={() => handleToggleSerialPrefix(prefix)}
+                        />
+                        <span className="monospace">{prefix}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+
+                <div className="inline-field serial-pattern">
+                  <label htmlFor="serial-pattern">Serial pattern</label>
+                  <input
+                    id="serial-pattern"
+                    type="text"
+                    className="monospace"
+                    value={serialPatternDraft}
+                    spellCheck={false}
+                    disabled={datBusy}
+                    placeholder="^SL[EU]S-0[0-4]"
+                    onChange={(event) => setSerialPatternDraft(event.target.value)}
+                    onBlur={commitSerialPattern}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') {
+                        commitSerialPattern();
+                      }
+                    }}
+                  />
+                  {serialPatternError && (
+                    <span className="title-patterns__error" role="alert">
+                      {serialPatternError}
+                    </span>
+                  )}
+                </div>
+              </section>
+            )}
+
+            <section className="panel">
+              <header className="panel-header">
+                <h3>Size Limits</h3>
+                <div className="panel-actions">
+                  <button
+                    type="button"
+                    className="button secondary"
+                    onClick={() => {
+                      setMinSizeInput('');
+                      setMaxSizeInput('');
+                    }}
+                    disabled={datBusy || (!minSizeInput && !maxSizeInput)}
+                  >
+                    Clear
+                  </button>
+                </div>
+              </header>
+              <p className="panel-description">
+                Skip games smaller or larger than these sizes, counting every ROM of a game and every disc of a
+                multi-disc set. Leave a field empty for no limit. The Preview shows how much space the selection needs.
+              </p>
+              <div className="inline-field size-limits">
+                <label htmlFor="size-min">At least</label>
+                <input
+                  id="size-min"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={minSizeInput}
+                  disabled={datBusy}
+                  onChange={(event) => setMinSizeInput(event.target.value)}
+                />
+                <label htmlFor="size-max">at most</label>
+                <input
+                  id="size-max"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={maxSizeInput}
+                  disabled={datBusy}
+                  placeholder="4"
+                  onChange={(event) => setMaxSizeInput(event.target.value)}
+                />
+                <select
+                  value={sizeUnit}
+                  disabled={datBusy}
+                  aria-label="Size unit"
+                  onChange={(event) => setSizeUnit(event.target.value as SizeUnit)}
+                >
+                  {(Object.keys(SIZE_UNITS) as SizeUnit[]).map((unit) => (
+                    <option key={unit} value={unit}>
+                      {unit}
+                    </option>
+                  ))}
+                </select>
               </div>
             </section>
 
+            {loadedDat.tags.length > 0 && (
+              <section className="panel">
+                <header className="panel-header">
+                  <h3>Release tags</h3>
+                  <div className="panel-actions">
+                    <button
+                      type="button"
+                      className="button secondary"
+                      onClick={() => setTagFilters({})}
+                      disabled={datBusy || Object.keys(tagFilters).length === 0}
+                    >
+                      Clear
+                    </button>
+                  </div>
+                </header>
+                <p className="panel-description">
+                  Click a tag once to keep only titles carrying it, twice to drop titles carrying it. Exclusions win over
+                  inclusions.
+                </p>
+
+                <div className="regions-grid">
+                  {loadedDat.tags.map((tag) => (
+                    <TriStateCheckbox
+                      key={tag}
+                      label={tag}
+                      value={tagFilters[tag] ?? 'off'}
+                      disabled={datBusy}
+                      onChange={(value) => handleTagFilterChange(tag, value)}
+                    />
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section className="panel">
+              <header className="panel-header">
+                <h3>Title Patterns</h3>
+              </header>
+              <p className="panel-description">
+                One pattern per line: plain text matches anywhere in the name, <code>*</code> and <code>?</code> globs
+                match the whole name, and <code>/regex/flags</code> is a regular expression. Included titles bypass the
+                region, language and tag filters; exclusions always win. Lists are saved per system.
+              </p>
+              {selectedSlug ? (
+                <TitlePatternEditor
+                  value={titlePatterns}
+                  onChange={(next) => void handleTitlePatternsChange(next)}
+                  disabled={datBusy}
+                />
+              ) : (
+                <p className="placeholder">Select the matching Redump system to edit its title patterns.</p>
+              )}
+            </section>
+
             <section className="panel">
               <header className="panel-header">
                 <h3>Preview</h3>
@@ -1349,20 +2161,107 @@ function App() {
                         <p className="preview-text monospace">{previewFilename ?? 'filtered.dat'}</p>
                       </div>
                     </div>
+                    <div>
+                      <p className="preview-heading">Filename Template</p>
+                      <FilenameTemplateEditor
+                        globalTemplate={settings.filenameTemplate}
+                        systemTemplate={selectedSlug ? settings.systemFilenameTemplates[selectedSlug] : undefined}
+                        systemName={selectedSystem?.name}
+                        onChange={(scope, template) => void handleFilenameTemplateChange(scope, template)}
+                        disabled={datBusy}
+                      />
+                    </div>
                     <ul className="preview-stats">
                       <li>
                         <span className="stat-label">Matched entries</span>
                         <span className="stat-value">{numberFormatter.format(previewSummary.filteredGames)}</span>
                       </li>
+                      <li>
+                        <span className="stat-label">Matched size</span>
+                        <span className="stat-value">{formatByteSize(previewSummary.filteredSize)}</span>
+                      </li>
                       <li>
                         <span className="stat-label">Removed entries</span>
                         <span className="stat-value">{numberFormatter.format(previewSummary.removedGames)}</span>
                       </li>
+                      {Object.entries(previewSummary.tagExclusionCounts).map(([tag, count]) => (
+                        <li key={tag}>
+                          <span className="stat-label">Excluded as {tag}</span>
+                          <span className="stat-value">{numberFormatter.format(count)}</span>
+                        </li>
+                      ))}
+                      {latestRevisionOnly && (
+                        <li>
+                          <span className="stat-label">Older revisions dropped</span>
+                          <span className="stat-value">
+                            {numberFormatter.format(previewSummary.supersededRevisions)}
+                          </span>
+                        </li>
+                      )}
+                      {oneGameOneRom && (
+                        <li>
+                          <span className="stat-label">Collapsed by 1G1R</span>
+                          <span className="stat-value">{numberFormatter.format(previewSummary.collapsedGames)}</span>
+                        </li>
+                      )}
+                      {previewSummary.titleIncludedGames > 0 && (
+                        <li>
+                          <span className="stat-label">Added by title patterns</span>
+                          <span className="stat-value">
+                            {numberFormatter.format(previewSummary.titleIncludedGames)}
+                          </span>
+                        </li>
+                      )}
+                      {previewSummary.titleExcludedGames > 0 && (
+                        <li>
+                          <span className="stat-label">Removed by title patterns</span>
+                          <span className="stat-value">
+                            {numberFormatter.format(previewSummary.titleExcludedGames)}
+                          </span>
+                        </li>
+                      )}
+                      {previewSummary.sizeExcludedGames > 0 && (
+                        <li>
+                          <span className="stat-label">Removed by size limits</span>
+                          <span className="stat-value">
+                            {numberFormatter.format(previewSummary.sizeExcludedGames)}
+                          </span>
+                        </li>
+                      )}
+                      {exportMode === 'parentClone' && (
+                        <li>
+                          <span className="stat-label">Written as clones</span>
+                          <span className="stat-value">{numberFormatter.format(previewSummary.cloneGames)}</span>
+                        </li>
+                      )}
+                      {previewSummary.multiDiscSets > 0 && (
+                        <li>
+                          <span className="stat-label">Multi-disc sets</span>
+                          <span className="stat-value">
+                            {numberFormatter.format(previewSummary.multiDiscSets)} (
+                            {numberFormatter.format(previewSummary.multiDiscGames)} discs)
+                          </span>
+                        </li>
+                      )}
                       <li>
                         <span className="stat-label">Total in source</span>
                         <span className="stat-value">{numberFormatter.format(previewSummary.initialGames)}</span>
                       </li>
+                      <li>
+                        <span className="stat-label">Source size</span>
+                        <span className="stat-value">{formatByteSize(previewSummary.initialSize)}</span>
+                      </li>
                     </ul>
+                    <div>
+                      <p className="preview-heading">Header</p>
+                      <HeaderTemplateEditor
+                        value={settings.headerTemplate}
+                        onChange={(value) => void handleHeaderTemplateChange(value)}
+                        header={previewHeader}
+                        tokens={headerTemplateTokens}
+                        disabled={datBusy}
+                      />
+                    </div>
                   </div>
                 ) : (
                   <p className="placeholder">
@@ -1375,6 +2274,18 @@ function App() {
                 <p className="placeholder">Load a DAT file to begin filtering.</p>
               )}
             </section>
+
+            <section className="panel">
+              <header className="panel-header">
+                <h3>Validation</h3>
+              </header>
+              <p className="panel-description">
+                Check the loaded DAT for duplicate names and ROM hashes, ROMs without size or hashes, names Windows
+                cannot use as filenames, games without a region and header fields the Logiqx DTD requires. Click a
+                game name to inspect its entry.
+              </p>
+              <DatValidationView refreshToken={loadedDat.originalFilename} />
+            </section>
           </>
         ) : (
           <section className="panel empty">
@@ -1384,6 +2295,37 @@ function App() {
             </p>
           </section>
         )}
+
+        <section className="panel">
+          <header className="panel-header">
+            <h3>Compare DATs</h3>
+          </header>
+          <p className="panel-description">
+            Compare two releases of a DAT. Games are matched by name and by ROM hashes, so renamed entries and
+            re-dumped ROMs are reported separately from additions and removals. Superseded downloads of the selected
+            system are kept in the cache for comparison.
+          </p>
+          <DatDiffView
+            slug={selectedSlug}
+            serialVersion={selectedDatVariant === 'serial'}
+            refreshToken={loadedDat?.originalFilename}
+          />
+        </section>
+
+        <section className="panel">
+          <header className="panel-header">
+            <h3>Merge DATs</h3>
+          </header>
+          <p className="panel-description">
+            Combine several cached systems or local DATs into one file. Games whose ROM hashes already appear in an
+            earlier DAT are dropped, and the region selection below applies to every source.
+          </p>
+          <DatMergeView
+            systems={systems}
+            defaultRegions={settings.defaultRegions}
+            regionOverrides={settings.regionOverrides}
+          />
+        </section>
       </div>
       {isDragActive && (
         <div className="drop-overlay">
@@ -1454,7 +2396,7 @@ function matchSystemForDat(
 
   const headerLabel = normalizeSystemLabel(data.header.name);
   const filenameLabel = normalizeSystemLabel(
-    data.originalFilename.replace(/\.(dat|xml)$/i, '')
+    data.originalFilename.replace(/\.(dat|xml|txt)$/i, '')
   );
 
   const exactHeader = systems.find(
@@ -0,0 +1,197 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { CachedDatVersion, DatDiff, DatDiffEntry, DatDiffKind } from '../shared';
+import { datAPI } from './datApi';
+
+interface DatDiffViewProps {
+  slug: string;
+  serialVersion: boolean;
+  refreshToken?: string;
+}
+
+type DiffSide = 'previous' | 'next';
+
+const SIDE_LABELS: Record<DiffSide, string> = {
+  previous: 'Older DAT',
+  next: 'Newer DAT'
+};
+
+const GROUP_LABELS: Record<DatDiffKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  renamed: 'Renamed',
+  rehashed: 'Hash changed'
+};
+
+const numberFormatter = new Intl.NumberFormat();
+
+function basename(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+function formatVersion(version: CachedDatVersion): string {
+  return version.current ? `${version.filename} (current)` : version.filename;
+}
+
+function matchesQuery(entry: DatDiffEntry, query: string): boolean {
+  return (
+    entry.name.toLowerCase().includes(query) ||
+    Boolean(entry.previousName?.toLowerCase().includes(query)) ||
+    entry.serials.some((serial) => serial.toLowerCase().includes(query))
+  );
+}
+
+export function DatDiffView({ slug, serialVersion, refreshToken }: DatDiffViewProps) {
+  const [versions, setVersions] = useState<CachedDatVersion[]>([]);
+  const [paths, setPaths] = useState<Record<DiffSide, string>>({ previous: '', next: '' });
+  const [diff, setDiff] = useState<DatDiff | null>(null);
+  const [query, setQuery] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!slug) {
+      setVersions([]);
+      return;
+    }
+    let cancelled = false;
+    void datAPI.listDatVersions(slug, serialVersion).then((response) => {
+      if (cancelled) {
+        return;
+      }
+      const next = response.success ? response.versions : [];
+      setVersions(next);
+      setPaths({ previous: next[1]?.filePath ?? '', next: next[0]?.filePath ?? '' });
+      setDiff(null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [slug, serialVersion, refreshToken]);
+
+  const filtered = useMemo(() => {
+    if (!diff) {
+      return null;
+    }
+    const needle = query.trim().toLowerCase();
+    const result = {} as Record<DatDiffKind, DatDiffEntry[]>;
+    (Object.keys(GROUP_LABELS) as DatDiffKind[]).forEach((kind) => {
+      result[kind] = needle ? diff[kind].filter((entry) => matchesQuery(entry, needle)) : diff[kind];
+    });
+    return result;
+  }, [diff, query]);
+
+  const handleBrowse = async (side: DiffSide) => {
+    const response = await datAPI.pickDatFile();
+    if (!response.canceled && response.filePath) {
+      setPaths((current) => ({ ...current, [side]: response.filePath as string }));
+      setDiff(null);
+    }
+  };
+
+  const handleCompare = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await datAPI.diffDats(paths.previous, paths.next);
+      if (response.success && response.diff) {
+        setDiff(response.diff);
+      } else {
+        setDiff(null);
+        setError(response.error ?? 'Failed to compare DAT files.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="dat-diff">
+      <div className="dat-diff__sources">
+        {(Object.keys(SIDE_LABELS) as DiffSide[]).map((side) => {
+          const path = paths[side];
+          const isCached = versions.some((version) => version.filePath === path);
+          return (
+            <div key={side} className="inline-field">
+              <span>{SIDE_LABELS[side]}</span>
+              <select
+                value={path}
+                disabled={busy}
+                onChange={(event) => {
+                  setPaths((current) => ({ ...current, [side]: event.target.value }));
+                  setDiff(null);
+                }}
+              >
+                <option value="">Choose a DAT…</option>
+                {versions.map((version) => (
+                  <option key={version.filePath} value={version.filePath}>
+                    {formatVersion(version)}
+                  </option>
+                ))}
+                {path && !isCached && <option value={path}>{basename(path)}</option>}
+              </select>
+              <button type="button" className="button secondary" onClick={() => void handleBrowse(side)} disabled={busy}>
+                Browse…
+              </button>
+            </div>
+          );
+        })}
+        <button
+          type="button"
+          className="button"
+          onClick={() => void handleCompare()}
+          disabled={busy || !paths.previous || !paths.next}
+        >
+          {busy ? 'Comparing…' : 'Compare'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="alert error" role="alert">
+          {error}
+        </div>
+      )}
+
+      {diff && filtered ? (
+        <div className="dat-diff__report">
+          <div className="dat-diff__toolbar">
+            <span className="inline-field__hint">
+              {numberFormatter.format(diff.unchanged)} unchanged
+            </span>
+            <input
+              type="search"
+              className="dat-diff__search"
+              placeholder="Search titles or serials…"
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+            />
+          </div>
+          {(Object.keys(GROUP_LABELS) as DatDiffKind[]).map((kind) => (
+            <details key={kind} className="dat-diff__group" open={filtered[kind].length > 0}>
+              <summary>
+                {GROUP_LABELS[kind]} ({numberFormatter.format(filtered[kind].length)})
+              </summary>
+              <ul className="dat-diff__list">
+                {filtered[kind].map((entry) => (
+                  <li key={`${entry.previousName ?? ''}\u0000${entry.name}`} className="monospace">
+                    {entry.previousName ? `${entry.previousName} → ${entry.name}` : entry.name}
+                    {entry.serials.length > 0 && (
+                      <span className="dat-diff__serials"> Serial: {entry.serials.join(', ')}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          ))}
+        </div>
+      ) : (
+        <p className="placeholder">
+          {slug && versions.length < 2
+            ? 'Only one cached version of this system is available yet; browse for a local DAT to compare against.'
+            : 'Pick two DATs and click Compare to see what changed.'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useEffect, useMemo, useState } from 'react';
+import { canonicalRegionList, type RedumpSystem, type RegionOverrides } from '../shared';
+import { datAPI } from './datApi';
+
+interface DatMergeViewProps {
+  systems: RedumpSystem[];
+  defaultRegions: string[];
+  regionOverrides: RegionOverrides;
+}
+
+interface MergeSource {
+  filePath: string;
+  label: string;
+}
+
+const numberFormatter = new Intl.NumberFormat();
+
+function basename(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+export function DatMergeView({ systems, defaultRegions, regionOverrides }: DatMergeViewProps) {
+  const [sources, setSources] = useState<MergeSource[]>([]);
+  const [regions, setRegions] = useState<string[]>(defaultRegions);
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRegions(defaultRegions);
+  }, [defaultRegions]);
+
+  const regionList = useMemo(() => canonicalRegionList(regionOverrides), [regionOverrides]);
+  const cachedSystems = systems.filter((system) => system.downloaded);
+
+  const addSource = (source: MergeSource) => {
+    setSources((current) =>
+      current.some((entry) => entry.filePath === source.filePath) ? current : [...current, source]
+    );
+  };
+
+  const handleAddSystem = async (slug: string) => {
+    const system = systems.find((entry) => entry.slug === slug);
+    const response = await datAPI.listDatVersions(slug);
+    const current = response.versions.find((version) => version.current);
+    if (!current) {
+      setError(response.error ?? `No cached DAT found for ${system?.name ?? slug}.`);
+      return;
+    }
+    setError(null);
+    addSource({ filePath: current.filePath, label: system?.name ?? current.filename });
+  };
+
+  const handleAddFile = async () => {
+    const response = await datAPI.pickDatFile();
+    if (!response.canceled && response.filePath) {
+      addSource({ filePath: response.filePath, label: basename(response.filePath) });
+    }
+  };
+
+  const toggleRegion = (region: string) => {
+    setRegions((current) =>
+      current.includes(region) ? current.filter((entry) => entry !== region) : [...current, region]
+    );
+  };
+
+  const handleSave = async () => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await datAPI.saveMerged(
+        sources.map((source) => source.filePath),
+        regions,
+        name.trim() || undefined
+      );
+      if (response.canceled) {
+        setMessage('Save cancelled.');
+      } else if (!response.success) {
+        setError(response.error ?? 'Failed to save merged DAT file.');
+      } else {
+        const kept = response.summary ? numberFormatter.format(response.summary.filteredGames) : '0';
+        setMessage(`Merged DAT with ${kept} games saved as ${response.savedPath ?? response.filename}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="dat-merge">
+      <div className="dat-merge__sources">
+        <div className="inline-field">
+          <select
+            value=""
+            disabled={busy || cachedSystems.length === 0}
+            onChange={(event) => {
+              if (event.target.value) {
+                void handleAddSystem(event.target.value);
+              }
+            }}
+            aria-label="Add cached system"
+          >
+            <option value="">Add cached system…</option>
+            {cachedSystems.map((system) => (
+              <option key={system.slug} value={system.slug}>
+                {system.name}
+              </option>
+            ))}
+          </select>
+          <button type="button" className="button secondary" onClick={() => void handleAddFile()} disabled={busy}>
+            Add local file…
+          </button>
+        </div>
+        {sources.length > 0 ? (
+          <ol className="dat-merge__list">
+            {sources.map((source) => (
+              <li key={source.filePath} className="region-priority__item" title={source.filePath}>
+                <span className="region-priority__name">{source.label}</span>
+                <button
+                  type="button"
+                  className="region-priority__action"
+                  onClick={() => setSources((current) => current.filter((entry) => entry !== source))}
+                  disabled={busy}
+                  aria-label={`Remove ${source.label}`}
+                  title="Remove"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="placeholder">Add two or more DATs to merge.</p>
+        )}
+      </div>
+
+      <div className="regions-grid">
+        {regionList.map((region) => {
+          const checked = regions.includes(region);
+          return (
+            <label key={region} className={`region-item ${checked ? 'selected' : ''}`}>
+              <input
+                type="checkbox"
+                value={region}
+                checked={checked}
+                disabled={busy}
+                onChange={() => toggleRegion(region)}
+              />
+              <span>{region}</span>
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="inline-field">
+        <label htmlFor="merge-name">DAT name</label>
+        <input
+          id="merge-name"
+          type="text"
+          className="dat-merge__name"
+          value={name}
+          placeholder="Defaults to the source DAT names joined with +"
+          disabled={busy}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <button
+          type="button"
+          className="button"
+          onClick={() => void handleSave()}
+          disabled={busy || sources.length < 2}
+        >
+          {busy ? 'Merging…' : 'Save merged DAT'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="alert error" role="alert">
+          {error}
+        </div>
+      )}
+      {message && !error && (
+        <div className="alert success" role="status">
+          {message}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { DatGameDetails, DatValidationFinding, DatValidationSeverity } from '../shared';
+import { datAPI } from './datApi';
+
+interface DatValidationViewProps {
+  refreshToken?: string;
+}
+
+type SeverityFilter = DatValidationSeverity | 'all';
+
+const SEVERITY_LABELS: Record<DatValidationSeverity, string> = {
+  error: 'Errors',
+  warning: 'Warnings',
+  info: 'Info'
+};
+
+const SEVERITY_ORDER: DatValidationSeverity[] = ['error', 'warning', 'info'];
+
+const MAX_LISTED_FINDINGS = 500;
+
+const ROM_COLUMNS = ['name', 'size', 'crc', 'md5', 'sha1'];
+
+const numberFormatter = new Intl.NumberFormat();
+
+export function DatValidationView({ refreshToken }: DatValidationViewProps) {
+  const [findings, setFindings] = useState<DatValidationFinding[] | null>(null);
+  const [severity, setSeverity] = useState<SeverityFilter>('all');
+  const [game, setGame] = useState<DatGameDetails | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const gameRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setFindings(null);
+    setGame(null);
+    setError(null);
+  }, [refreshToken]);
+
+  useEffect(() => {
+    if (game) {
+      gameRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [game]);
+
+  const counts = useMemo(() => {
+    const result: Record<DatValidationSeverity, number> = { error: 0, warning: 0, info: 0 };
+    findings?.forEach((finding) => {
+      result[finding.severity] += 1;
+    });
+    return result;
+  }, [findings]);
+
+  const visible = useMemo(() => {
+    if (!findings) {
+      return [];
+    }
+    const matching = severity === 'all' ? findings : findings.filter((finding) => finding.severity === severity);
+    return [...matching].sort(
+      (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+    );
+  }, [findings, severity]);
+
+  const handleValidate = async () => {
+    setBusy(true);
+    setError(null);
+    setGame(null);
+    try {
+      const response = await datAPI.validateDat();
+      if (response.success && response.findings) {
+        setFindings(response.findings);
+      } else {
+        setFindings(null);
+        setError(response.error ?? 'Failed to validate the DAT file.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleShowGame = async (index: number) => {
+    setError(null);
+    try {
+      const response = await datAPI.getGame(index);
+      if (response.success && response.game) {
+        setGame(response.game);
+      } else {
+        setError(response.error ?? 'Failed to load the game entry.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="dat-validation">
+      <div className="inline-field">
+        <button type="button" className="button" onClick={() => void handleValidate()} disabled={busy}>
+          {busy ? 'Validating…' : findings ? 'Validate again' : 'Validate DAT'}
+        </button>
+        {findings && (
+          <select
+            value={severity}
+            aria-label="Filter findings by severity"
+            onChange={(event) => setSeverity(event.target.value as SeverityFilter)}
+          >
+            <option value="all">All findings ({numberFormatter.format(findings.length)})</option>
+            {SEVERITY_ORDER.map((entry) => (
+              <option key={entry} value={entry}>
+                {SEVERITY_LABELS[entry]} ({numberFormatter.format(counts[entry])})
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {error && (
+        <div className="alert error" role="alert">
+          {error}
+        </div>
+      )}
+
+      {findings &&
+        (findings.length === 0 ? (
+          <div className="alert success" role="status">
+            No problems found.
+          </div>
+        ) : (
+          <ul className="dat-validation__list">
+            {visible.slice(0, MAX_LISTED_FINDINGS).map((finding, index) => (
+              <li key={index} className="dat-validation__finding">
+                <span className={`dat-validation__badge is-${finding.severity}`}>{finding.severity}</span>
+                <span className="dat-validation__message">
+                  {finding.gameName !== undefined && finding.gameIndex !== undefined && (
+                    <>
+                      <button
+                        type="button"
+                        className="link-button monospace"
+                        onClick={() => void handleShowGame(finding.gameIndex as number)}
+                        title="Show this game"
+                      >
+                        {finding.gameName}
+                      </button>
+                      {': '}
+                    </>
+                  )}
+                  {finding.message}
+                </span>
+              </li>
+            ))}
+            {visible.length > MAX_LISTED_FINDINGS && (
+              <li className="inline-field__hint">
+                Showing the first {numberFormatter.format(MAX_LISTED_FINDINGS)} of{' '}
+                {numberFormatter.format(visible.length)} findings.
+              </li>
+            )}
+          </ul>
+        ))}
+
+      {game && (
+        <div className="dat-validation__game" ref={gameRef}>
+          <div className="dat-validation__game-header">
+            <h4 className="monospace">{game.name}</h4>
+            <button type="button" className="link-button" onClick={() => setGame(null)}>
+              Close
+            </button>
+          </div>
+          <p className="panel-meta">
+            <span>Entry {numberFormatter.format(game.index + 1)}</span>
+            <span>Regions: {game.regions.join(', ') || 'none'}</span>
+            <span>Languages: {game.languages.join(', ') || 'none'}</span>
+            {game.category && <span>Category: {game.category}</span>}
+            {game.serials.length > 0 && <span>Serial: {game.serials.join(', ')}</span>}
+            {game.version && <span>Version: {game.version}</span>}
+          </p>
+          {game.roms.length > 0 && (
+            <table className="dat-validation__roms">
+              <thead>
+                <tr>
+                  {ROM_COLUMNS.map((column) => (
+                    <th key={column}>{column}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {game.roms.map((rom, index) => (
+                  <tr key={index}>
+                    {ROM_COLUMNS.map((column) => (
+                      <td key={column} className="monospace">
+                        {rom.attributes[column] ?? '—'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <pre className="dat-validation__raw">{game.rawXml}</pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { FILENAME_TEMPLATE_TOKENS } from '../shared';
+
+export type FilenameTemplateScope = 'global' | 'system';
+
+interface FilenameTemplateEditorProps {
+  globalTemplate: string | null;
+  systemTemplate?: string;
+  /** Name of the selected system; without one only the global template can be edited. */
+  systemName?: string;
+  onChange: (scope: FilenameTemplateScope, template: string | null) => void;
+  disabled?: boolean;
+}
+
+export function FilenameTemplateEditor({
+  globalTemplate,
+  systemTemplate,
+  systemName,
+  onChange,
+  disabled = false
+}: FilenameTemplateEditorProps) {
+  const hasSystemTemplate = systemTemplate !== undefined;
+  const [scope, setScope] = useState<FilenameTemplateScope>(hasSystemTemplate ? 'system' : 'global');
+  const current = (scope === 'system' ? systemTemplate : globalTemplate) ?? '';
+  const [draft, setDraft] = useState(current);
+
+  useEffect(() => {
+    setScope(hasSystemTemplate && systemName ? 'system' : 'global');
+  }, [hasSystemTemplate, systemName]);
+
+  useEffect(() => {
+    setDraft(current);
+  }, [current]);
+
+  const commit = () => {
+    const template = draft.trim();
+    if (template !== current) {
+      onChange(scope, template || null);
+    }
+  };
+
+  return (
+    <div className="filename-template">
+      <div className="inline-field">
+        <input
+          type="text"
+          className="filename-template__input monospace"
+          value={draft}
+          spellCheck={false}
+          disabled={disabled}
+          placeholder={scope === 'system' && globalTemplate ? globalTemplate : '{slug}/{system} [{regions}] {version}'}
+          aria-label="Filename template"
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={commit}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              commit();
+            }
+          }}
+        />
+        <select
+          value={scope}
+          disabled={disabled || !systemName}
+          aria-label="Filename template scope"
+          onChange={(event) => setScope(event.target.value as FilenameTemplateScope)}
+        >
+          <option value="global">All systems</option>
+          {systemName && <option value="system">{systemName} only</option>}
+        </select>
+      </div>
+      <p className="inline-field__hint">
+        Tokens: {FILENAME_TEMPLATE_TOKENS.map((token) => `{${token}}`).join(' ')}. Use <code>/</code> for subfolders
+        of the save folder; <code>{'{default}'}</code> is the name suggested without a template. Leave blank to use
+        the default name.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import {
+  HEADER_TEMPLATE_FIELDS,
+  HEADER_TEMPLATE_TOKENS,
+  renderHeaderTemplate,
+  type DatHeader,
+  type DatHeaderTemplate,
+  type HeaderTemplateField,
+  type HeaderTemplateTokens
+} from '../shared';
+
+interface HeaderTemplateEditorProps {
+  value: DatHeaderTemplate;
+  onChange: (value: DatHeaderTemplate) => void;
+  /** Header the backend produced for the current filters, shown for fields without a template. */
+  header: DatHeader | null;
+  tokens: HeaderTemplateTokens | null;
+  disabled?: boolean;
+}
+
+function headerValue(header: DatHeader | null, field: HeaderTemplateField): string {
+  if (!header) {
+    return '';
+  }
+  return (field === 'comment' ? header.extra.comment : header[field]) ?? '';
+}
+
+export function HeaderTemplateEditor({ value, onChange, header, tokens, disabled = false }: HeaderTemplateEditorProps) {
+  const [drafts, setDrafts] = useState<DatHeaderTemplate>(value);
+
+  useEffect(() => {
+    setDrafts(value);
+  }, [value]);
+
+  const commit = (field: HeaderTemplateField) => {
+    const draft = drafts[field]?.trim() ?? '';
+    if (draft === (value[field] ?? '')) {
+      return;
+    }
+    const next = { ...value };
+    if (draft) {
+      next[field] = draft;
+    } else {
+      delete next[field];
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="header-template">
+      {HEADER_TEMPLATE_FIELDS.map((field) => {
+        const draft = drafts[field] ?? '';
+        const rendered =
+          draft.trim() && tokens ? renderHeaderTemplate(draft, tokens) : headerValue(header, field);
+        return (
+          <label key={field} className="header-template__field">
+            <span className="header-template__label">{field}</span>
+            <input
+              type="text"
+              className="header-template__input monospace"
+              value={draft}
+              spellCheck={false}
+              disabled={disabled}
+              placeholder="Default"
+              onChange={(event) => setDrafts((current) => ({ ...current, [field]: event.target.value }))}
+              onBlur={() => commit(field)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') {
+                  commit(field);
+                }
+              }}
+            />
+            <span className="header-template__preview monospace" title={rendered}>
+              {rendered || '—'}
+            </span>
+          </label>
+        );
+      })}
+      <p className="inline-field__hint">
+        Tokens: {HEADER_TEMPLATE_TOKENS.map((token) => `{${token}}`).join(' ')}. Leave a field blank to keep the
+        default value.
+      </p>
+    </div>
+  );
+}
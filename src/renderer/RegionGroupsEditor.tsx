@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { BUILT_IN_REGION_GROUPS, type RegionGroup } from '../shared';
+
+interface RegionGroupsEditorProps {
+  value: RegionGroup[];
+  onChange: (value: RegionGroup[]) => void;
+  disabled?: boolean;
+}
+
+function parseRegionList(input: string): string[] {
+  return Array.from(new Set(input.split(',').map((entry) => entry.trim()).filter(Boolean)));
+}
+
+export function RegionGroupsEditor({ value, onChange, disabled = false }: RegionGroupsEditorProps) {
+  const [name, setName] = useState('');
+  const [regions, setRegions] = useState('');
+  const trimmedName = name.trim();
+  const parsedRegions = parseRegionList(regions);
+
+  const addGroup = () => {
+    if (!trimmedName || parsedRegions.length === 0) {
+      return;
+    }
+    onChange([...value.filter((group) => group.name !== trimmedName), { name: trimmedName, regions: parsedRegions }]);
+    setName('');
+    setRegions('');
+  };
+
+  return (
+    <div className={`region-overrides${disabled ? ' is-disabled' : ''}`}>
+      <div className="region-overrides__group">
+        <h4>Region Groups</h4>
+        {value.length > 0 && (
+          <ul className="region-overrides__list">
+            {value.map((group) => (
+              <li key={group.name} className="region-overrides__item">
+                <span>{group.name}</span>
+                <span className="region-overrides__arrow">→</span>
+                <span>{group.regions.join(', ')}</span>
+                <button
+                  type="button"
+                  className="region-priority__action"
+                  onClick={() => onChange(value.filter((entry) => entry.name !== group.name))}
+                  disabled={disabled}
+                  aria-label={`Remove region group ${group.name}`}
+                  title="Remove"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="settings-path-row">
+          <input
+            type="text"
+            className="settings-path-input"
+            value={name}
+            placeholder="Group name, e.g. Nordics"
+            list="region-groups-built-in"
+            disabled={disabled}
+            aria-label="Region group name"
+            onChange={(event) => setName(event.target.value)}
+          />
+          <input
+            type="text"
+            className="settings-path-input"
+            value={regions}
+            placeholder="Regions, e.g. Denmark, Finland, Norway, Sweden"
+            disabled={disabled}
+            aria-label="Regions in the group, separated by commas"
+            onChange={(event) => setRegions(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                addGroup();
+              }
+            }}
+          />
+          <button
+            type="button"
+            className="button secondary"
+            onClick={addGroup}
+            disabled={disabled || !trimmedName || parsedRegions.length === 0}
+          >
+            Add
+          </button>
+        </div>
+        <datalist id="region-groups-built-in">
+          {BUILT_IN_REGION_GROUPS.map((group) => (
+            <option key={group.name} value={group.name} />
+          ))}
+        </datalist>
+        <p className="inline-field__hint">
+          Built-in groups: {BUILT_IN_REGION_GROUPS.map((group) => group.name).join(', ')}. A group with the same name
+          replaces the built-in one.
+        </p>
+      </div>
+    </div>
+  );
+}
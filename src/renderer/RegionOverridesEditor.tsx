@@ -0,0 +1,158 @@
+import { useMemo, useState } from 'react';
+import { canonicalRegionList, type RegionOverrides } from '../shared';
+
+interface RegionOverridesEditorProps {
+  value: RegionOverrides;
+  onChange: (value: RegionOverrides) => void;
+  disabled?: boolean;
+}
+
+export function RegionOverridesEditor({ value, onChange, disabled = false }: RegionOverridesEditorProps) {
+  const [token, setToken] = useState('');
+  const [target, setTarget] = useState('');
+  const [region, setRegion] = useState('');
+  const knownRegions = useMemo(() => canonicalRegionList(value), [value]);
+  const synonyms = Object.entries(value.synonyms).sort(([a], [b]) => a.localeCompare(b));
+
+  const addSynonym = () => {
+    const key = token.trim().toLowerCase();
+    const mapped = target.trim();
+    if (!key || !mapped) {
+      return;
+    }
+    onChange({ ...value, synonyms: { ...value.synonyms, [key]: mapped } });
+    setToken('');
+    setTarget('');
+  };
+
+  const removeSynonym = (key: string) => {
+    const next = { ...value.synonyms };
+    delete next[key];
+    onChange({ ...value, synonyms: next });
+  };
+
+  const addRegion = () => {
+    const name = region.trim();
+    if (!name || value.regions.includes(name)) {
+      return;
+    }
+    onChange({ ...value, regions: [...value.regions, name] });
+    setRegion('');
+  };
+
+  return (
+    <div className={`region-overrides${disabled ? ' is-disabled' : ''}`}>
+      <div className="region-overrides__group">
+        <h4>Synonyms</h4>
+        {synonyms.length > 0 && (
+          <ul className="region-overrides__list">
+            {synonyms.map(([key, mapped]) => (
+              <li key={key} className="region-overrides__item">
+                <span className="monospace">{key}</span>
+                <span className="region-overrides__arrow">→</span>
+                <span>{mapped}</span>
+                <button
+                  type="button"
+                  className="region-priority__action"
+                  onClick={() => removeSynonym(key)}
+                  disabled={disabled}
+                  aria-label={`Remove synonym ${key}`}
+                  title="Remove"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="settings-path-row">
+          <input
+            type="text"
+            className="settings-path-input monospace"
+            value={token}
+            placeholder="Token, e.g. Scand"
+            spellCheck={false}
+            disabled={disabled}
+            aria-label="Region token"
+            onChange={(event) => setToken(event.target.value)}
+          />
+          <input
+            type="text"
+            className="settings-path-input"
+            value={target}
+            placeholder="Region, e.g. Scandinavia"
+            list="region-overrides-known"
+            disabled={disabled}
+            aria-label="Region the token stands for"
+            onChange={(event) => setTarget(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                addSynonym();
+              }
+            }}
+          />
+          <button
+            type="button"
+            className="button secondary"
+            onClick={addSynonym}
+            disabled={disabled || !token.trim() || !target.trim()}
+          >
+            Add
+          </button>
+        </div>
+        <datalist id="region-overrides-known">
+          {knownRegions.map((entry) => (
+            <option key={entry} value={entry} />
+          ))}
+        </datalist>
+      </div>
+
+      <div className="region-overrides__group">
+        <h4>Custom Regions</h4>
+        {value.regions.length > 0 && (
+          <ul className="region-overrides__list">
+            {value.regions.map((entry) => (
+              <li key={entry} className="region-overrides__item">
+                <span>{entry}</span>
+                <button
+                  type="button"
+                  className="region-priority__action"
+                  onClick={() => onChange({ ...value, regions: value.regions.filter((name) => name !== entry) })}
+                  disabled={disabled}
+                  aria-label={`Remove region ${entry}`}
+                  title="Remove"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="settings-path-row">
+          <input
+            type="text"
+            className="settings-path-input"
+            value={region}
+            placeholder="Region name, e.g. Scandinavia"
+            disabled={disabled}
+            aria-label="Custom region name"
+            onChange={(event) => setRegion(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                addRegion();
+              }
+            }}
+          />
+          <button
+            type="button"
+            className="button secondary"
+            onClick={addRegion}
+            disabled={disabled || !region.trim() || value.regions.includes(region.trim())}
+          >
+            Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
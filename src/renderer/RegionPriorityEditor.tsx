@@ -0,0 +1,86 @@
+interface RegionPriorityEditorProps {
+  value: string[];
+  regions: string[];
+  onChange: (value: string[]) => void;
+  disabled?: boolean;
+}
+
+export function RegionPriorityEditor({
+  value,
+  regions,
+  onChange,
+  disabled = false
+}: RegionPriorityEditorProps) {
+  const addable = regions.filter((region) => !value.includes(region));
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= value.length) {
+      return;
+    }
+    const next = value.slice();
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className={`region-priority${disabled ? ' is-disabled' : ''}`}>
+      <ol className="region-priority__list">
+        {value.map((region, index) => (
+          <li key={region} className="region-priority__item">
+            <span className="region-priority__rank">{index + 1}</span>
+            <span className="region-priority__name">{region}</span>
+            <button
+              type="button"
+              className="region-priority__action"
+              onClick={() => move(index, -1)}
+              disabled={disabled || index === 0}
+              aria-label={`Move ${region} up`}
+              title="Move up"
+            >
+              ▴
+            </button>
+            <button
+              type="button"
+              className="region-priority__action"
+              onClick={() => move(index, 1)}
+              disabled={disabled || index === value.length - 1}
+              aria-label={`Move ${region} down`}
+              title="Move down"
+            >
+              ▾
+            </button>
+            <button
+              type="button"
+              className="region-priority__action"
+              onClick={() => onChange(value.filter((entry) => entry !== region))}
+              disabled={disabled}
+              aria-label={`Remove ${region}`}
+              title="Remove"
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ol>
+      <select
+        className="region-priority__add"
+        value=""
+        disabled={disabled || addable.length === 0}
+        onChange={(event) => {
+          if (event.target.value) {
+            onChange([...value, event.target.value]);
+          }
+        }}
+        aria-label="Add region to priority"
+      >
+        <option value="">Add region…</option>
+        {addable.map((region) => (
+          <option key={region} value={region}>
+            {region}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { open } from '@tauri-apps/plugin-dialog';
 
-import { CANONICAL_REGION_LIST, type AppSettings, type DatVariant, type RedumpSystem } from '../shared';
+import { canonicalRegionList, type AppSettings, type DatVariant, type RedumpSystem } from '../shared';
 import { DatVariantToggle } from './DatVariantToggle';
+import { RegionGroupsEditor } from './RegionGroupsEditor';
+import { RegionOverridesEditor } from './RegionOverridesEditor';
 
 export type ThemeMode = 'dark' | 'light';
 
@@ -88,6 +90,8 @@ export function SettingsModal({
     );
   }, [systemQuery, systems]);
 
+  const regionList = useMemo(() => canonicalRegionList(draft.regionOverrides), [draft.regionOverrides]);
+
   const visibleSummary = draft.showAllSystems
     ? 'All systems'
     : `${draft.visibleSystemSlugs.length} of ${systems.length} selected`;
@@ -342,7 +346,7 @@ export function SettingsModal({
               <button
                 type="button"
                 className="button secondary"
-                onClick={() => setDraft((current) => ({ ...current, defaultRegions: [...CANONICAL_REGION_LIST] }))}
+                onClick={() => setDraft((current) => ({ ...current, defaultRegions: [...regionList] }))}
                 disabled={saving}
               >
                 Select All
@@ -361,7 +365,7 @@ export function SettingsModal({
             Used when a DAT is loaded. Only regions present in that DAT are applied. Leave empty to keep all games.
           </p>
           <div className="regions-grid">
-            {CANONICAL_REGION_LIST.map((region) => {
+            {regionList.map((region) => {
               const checked = draft.defaultRegions.includes(region);
               return (
                 <label key={region} className={`region-item ${checked ? 'selected' : ''}`}>
@@ -380,6 +384,25 @@ export function SettingsModal({
         </section>
         </div>
 
+        <section className="settings-section settings-regions">
+          <h3>Regions</h3>
+          <p className="panel-description">
+            Teach the parser region tokens it does not know, such as <code>(Scand)</code>. Map a token to an existing
+            region or type a new name to declare it, or add regions matched by their own name. Tokens are matched
+            case-insensitively. The loaded DAT is read again when you save. Region groups appear as one-click toggles
+            above the region list.
+          </p>
+          <RegionOverridesEditor
+            value={draft.regionOverrides}
+            onChange={(regionOverrides) => setDraft((current) => ({ ...current, regionOverrides }))}
+            disabled={saving}
+          />
+          <RegionGroupsEditor
+            value={draft.regionGroups}
+            onChange={(regionGroups) => setDraft((current) => ({ ...current, regionGroups }))}
+            disabled={saving}
+          />
+        </section>
         </div>
 
         <footer className="settings-modal__footer">
@@ -0,0 +1,108 @@
+import { useEffect, useMemo, useState } from 'react';
+import { validateTitlePattern, type TitlePatternLists } from '../shared';
+import { datAPI } from './datApi';
+
+interface TitlePatternEditorProps {
+  value: TitlePatternLists;
+  onChange: (value: TitlePatternLists) => void;
+  disabled?: boolean;
+}
+
+type PatternListKey = keyof TitlePatternLists;
+
+const LIST_LABELS: Record<PatternListKey, string> = {
+  include: 'Always include',
+  exclude: 'Always exclude'
+};
+
+function splitPatterns(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export function TitlePatternEditor({ value, onChange, disabled = false }: TitlePatternEditorProps) {
+  const includeText = value.include.join('\n');
+  const excludeText = value.exclude.join('\n');
+  const [drafts, setDrafts] = useState<Record<PatternListKey, string>>({
+    include: includeText,
+    exclude: excludeText
+  });
+
+  useEffect(() => {
+    setDrafts((current) => ({ ...current, include: includeText }));
+  }, [includeText]);
+
+  useEffect(() => {
+    setDrafts((current) => ({ ...current, exclude: excludeText }));
+  }, [excludeText]);
+
+  // The backend filters with the Rust `regex` crate, which rejects some patterns RegExp accepts.
+  const [backendErrors, setBackendErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    const patterns = [...splitPatterns(drafts.include), ...splitPatterns(drafts.exclude)];
+    datAPI
+      .validateTitlePatterns(patterns)
+      .then((found) => {
+        if (!cancelled) {
+          setBackendErrors(Object.fromEntries(found.map(({ pattern, error }) => [pattern, error])));
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setBackendErrors({});
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [drafts]);
+
+  const errors = useMemo(() => {
+    const result: Record<PatternListKey, string[]> = { include: [], exclude: [] };
+    (Object.keys(LIST_LABELS) as PatternListKey[]).forEach((key) => {
+      splitPatterns(drafts[key]).forEach((pattern) => {
+        const message = validateTitlePattern(pattern) ?? backendErrors[pattern];
+        if (message) {
+          result[key].push(`${pattern}: ${message}`);
+        }
+      });
+    });
+    return result;
+  }, [backendErrors, drafts]);
+
+  const commit = (key: PatternListKey) => {
+    const patterns = splitPatterns(drafts[key]);
+    if (patterns.join('\n') !== (key === 'include' ? includeText : excludeText)) {
+      onChange({ ...value, [key]: patterns });
+    }
+  };
+
+  return (
+    <div className="title-patterns">
+      {(Object.keys(LIST_LABELS) as PatternListKey[]).map((key) => (
+        <label key={key} className="title-patterns__field">
+          <span className="title-patterns__label">{LIST_LABELS[key]}</span>
+          <textarea
+            className="title-patterns__input"
+            value={drafts[key]}
+            rows={4}
+            spellCheck={false}
+            disabled={disabled}
+            placeholder={key === 'include' ? 'Tokimeki*\n/^Sakura Taisen/' : 'Demo Disc\n/\\(Kiosk\\)/'}
+            onChange={(event) => setDrafts((current) => ({ ...current, [key]: event.target.value }))}
+            onBlur={() => commit(key)}
+          />
+          {errors[key].map((message) => (
+            <span key={message} className="title-patterns__error" role="alert">
+              {message}
+            </span>
+          ))}
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useRef } from 'react';
+
+export type TriState = 'off' | 'include' | 'exclude';
+
+const NEXT_STATE: Record<TriState, TriState> = {
+  off: 'include',
+  include: 'exclude',
+  exclude: 'off'
+};
+
+const STATE_TITLES: Record<TriState, string> = {
+  off: 'Not filtered — click to include',
+  include: 'Included — click to exclude',
+  exclude: 'Excluded — click to clear'
+};
+
+const numberFormatter = new Intl.NumberFormat();
+
+interface TriStateCheckboxProps {
+  label: string;
+  value: TriState;
+  onChange: (value: TriState) => void;
+  disabled?: boolean;
+  count?: number;
+  /** Replaces the count while set, e.g. a hover hint. */
+  hint?: string;
+  onHoverChange?: (hovering: boolean) => void;
+}
+
+export function TriStateCheckbox({
+  label,
+  value,
+  onChange,
+  disabled = false,
+  count,
+  hint,
+  onHoverChange
+}: TriStateCheckboxProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (inputRef.current) {
+      inputRef.current.indeterminate = value === 'exclude';
+    }
+  }, [value]);
+
+  const stateClass = value === 'include' ? ' selected' : value === 'exclude' ? ' excluded' : '';
+
+  return (
+    <label
+      className={`region-item${stateClass}${disabled ? ' is-disabled' : ''}`}
+      title={STATE_TITLES[value]}
+      onMouseEnter={onHoverChange ? () => onHoverChange(true) : undefined}
+      onMouseLeave={onHoverChange ? () => onHoverChange(false) : undefined}
+    >
+      <input
+        ref={inputRef}
+        type="checkbox"
+        value={label}
+        checked={value === 'include'}
+        disabled={disabled}
+        aria-checked={value === 'exclude' ? 'mixed' : value === 'include'}
+        onChange={() => onChange(NEXT_STATE[value])}
+      />
+      <span>{label}</span>
+      {hint ? (
+        <span className="region-item__count is-hint">{hint}</span>
+      ) : (
+        count !== undefined && <span className="region-item__count">{numberFormatter.format(count)}</span>
+      )}
+    </label>
+  );
+}
@@ -1,4 +1,4 @@
-import { invoke } from '@tauri-apps/api/core';
+import { invoke, isTauri } from '@tauri-apps/api/core';
 import { listen, type UnlistenFn } from '@tauri-apps/api/event';
 
 import type {
@@ -10,18 +10,29 @@ import type {
   ExtraDownloadKind,
   DownloadExtraResponse,
   DatLoadProgress,
+  DiffDatsResponse,
+  FilterOptions,
   FilterPreviewResponse,
+  GetGameResponse,
   GetSettingsResponse,
+  ListDatVersionsResponse,
   ListSystemsResponse,
   LoadFromPathResponse,
   OpenDatResponse,
-  SaveFilterResponse
+  PatternError,
+  PickDatFileResponse,
+  SaveFilterResponse,
+  ValidateDatResponse
 } from '../shared';
+import { createLocalDatSource } from './localDat';
+
+// The browser build has no backend, so DATs opened there are parsed and filtered in a Web Worker.
+const localDat = isTauri() ? null : createLocalDatSource();
 
 export const datAPI = {
   ping: (): Promise<string> => invoke('ping'),
 
-  openDat: (): Promise<OpenDatResponse> => invoke('open_dat'),
+  openDat: (): Promise<OpenDatResponse> => (localDat ? localDat.openDat() : invoke('open_dat')),
 
   loadDatFromPath: (filePath: string): Promise<LoadFromPathResponse> => {
     if (!filePath) {
@@ -32,12 +43,42 @@ export const datAPI = {
 
   getCurrentDat: (): Promise<CurrentDatResponse> => invoke('get_current'),
 
-  previewFilter: (regions: string[]): Promise<FilterPreviewResponse> =>
-    invoke('preview_filter', { regions }),
-
-  saveFiltered: (regions: string[], targetPath?: string): Promise<SaveFilterResponse> =>
-    invoke('save_filtered', {
+  previewFilter: (regions: string[], options?: FilterOptions): Promise<FilterPreviewResponse> =>
+    localDat
+      ? localDat.previewFilter(regions, options)
+      : invoke('preview_filter', { regions, options: options ?? null }),
+
+  validateDat: (): Promise<ValidateDatResponse> => invoke('validate_dat'),
+
+  // The browser build filters with the renderer's RegExp, which the editors already check.
+  validateTitlePatterns: (patterns: string[]): Promise<PatternError[]> =>
+    localDat ? Promise.resolve([]) : invoke('validate_title_patterns', { patterns }),
+  validateSerialPattern: (pattern: string): Promise<string | null> =>
+    localDat ? Promise.resolve(null) : invoke('validate_serial_pattern', { pattern }),
+
+  getGame: (index: number): Promise<GetGameResponse> => invoke('get_game', { index }),
+
+  saveFiltered: (regions: string[], options?: FilterOptions, targetPath?: string): Promise<SaveFilterResponse> =>
+    localDat
+      ? localDat.saveFiltered(regions, options)
+      : invoke('save_filtered', {
+          regions,
+          options: options ?? null,
+          targetPath: targetPath ?? null
+        }),
+
+  saveMerged: (
+    filePaths: string[],
+    regions: string[],
+    name?: string,
+    options?: FilterOptions,
+    targetPath?: string
+  ): Promise<SaveFilterResponse> =>
+    invoke('save_merged', {
+      filePaths,
       regions,
+      name: name ?? null,
+      options: options ?? null,
       targetPath: targetPath ?? null
     }),
 
@@ -62,6 +103,14 @@ export const datAPI = {
   downloadExtra: (slug: string, kind: ExtraDownloadKind): Promise<DownloadExtraResponse> =>
     invoke('download_extra', { slug, kind }),
 
+  listDatVersions: (slug: string, serialVersion?: boolean): Promise<ListDatVersionsResponse> =>
+    invoke('list_dat_versions', { slug, serialVersion: serialVersion ?? null }),
+
+  pickDatFile: (): Promise<PickDatFileResponse> => invoke('pick_dat_file'),
+
+  diffDats: (leftPath: string, rightPath: string): Promise<DiffDatsResponse> =>
+    invoke('diff_dats', { leftPath, rightPath }),
+
   getAppVersion: (): Promise<string> => invoke('get_app_version'),
 
   getAppUpdateStatus: (): Promise<AppUpdateStatus> => invoke('get_app_update_status'),
@@ -86,6 +135,9 @@ export const datAPI = {
   },
 
   onDatLoadProgress: (callback: (progress: DatLoadProgress) => void): (() => void) => {
+    if (localDat) {
+      return localDat.onDatLoadProgress(callback);
+    }
     let unlisten: UnlistenFn | undefined;
     void listen<DatLoadProgress>('dat:load-progress', (event) => {
       callback(event.payload);
@@ -0,0 +1,106 @@
+import {
+  filterDatByRegions,
+  parseDat,
+  previewFilter,
+  type DatLoadProgress,
+  type FilterOptions,
+  type FilterPreview,
+  type FilteredDatResult,
+  type LoadedDatPayload,
+  type ParsedDat,
+  type RegionOverrides
+} from '../shared';
+
+export type DatWorkerTask =
+  | { kind: 'parse'; input: string | Blob; filename: string; regionOverrides?: RegionOverrides }
+  | { kind: 'preview' | 'filter'; regions: string[]; options?: FilterOptions };
+
+export type DatWorkerRequest = DatWorkerTask & { id: number };
+
+export type DatWorkerPreview = Omit<FilterPreview, 'games'>;
+
+export type DatWorkerResponse =
+  | { id: number; type: 'progress'; progress: DatLoadProgress }
+  | { id: number; type: 'result'; result: LoadedDatPayload | DatWorkerPreview | FilteredDatResult }
+  | { id: number; type: 'error'; error: string };
+
+interface DatWorkerScope {
+  onmessage: ((event: MessageEvent<DatWorkerRequest>) => void) | null;
+  postMessage(message: DatWorkerResponse): void;
+}
+
+const scope = self as unknown as DatWorkerScope;
+
+let current: { parsed: ParsedDat; filename: string } | null = null;
+
+async function parse(
+  id: number,
+  input: string | Blob,
+  filename: string,
+  regionOverrides?: RegionOverrides
+): Promise<LoadedDatPayload> {
+  let text = input;
+  if (typeof text !== 'string') {
+    scope.postMessage({ id, type: 'progress', progress: { phase: 'reading', message: 'Reading DAT…' } });
+    text = await text.text();
+  }
+
+  scope.postMessage({ id, type: 'progress', progress: { phase: 'parsing', percent: 0, message: 'Parsing DAT…' } });
+  let reported = 0;
+  const parsed = parseDat(
+    text,
+    (processed, total) => {
+      const percent = Math.floor((processed / total) * 100);
+      if (percent > reported) {
+        reported = percent;
+        scope.postMessage({ id, type: 'progress', progress: { phase: 'parsing', percent, message: 'Parsing DAT…' } });
+      }
+    },
+    regionOverrides
+  );
+  current = { parsed, filename };
+
+  return {
+    filePath: filename,
+    originalFilename: filename,
+    header: parsed.header,
+    regions: parsed.availableRegions,
+    regionCounts: Object.fromEntries(Array.from(parsed.index.regions, ([region, games]) => [region, games.length])),
+    languages: parsed.availableLanguages,
+    tags: parsed.availableTags,
+    categories: parsed.availableCategories,
+    serialPrefixes: parsed.availableSerialPrefixes,
+    totalGames: parsed.games.length,
+    descriptor: parsed.descriptor,
+    normalizedDescriptor: parsed.normalizedDescriptor,
+    versionLabel: parsed.versionLabel
+  };
+}
+
+function loaded(): { parsed: ParsedDat; filename: string } {
+  if (!current) {
+    throw new Error('No DAT loaded.');
+  }
+  return current;
+}
+
+async function run(request: DatWorkerRequest): Promise<LoadedDatPayload | DatWorkerPreview | FilteredDatResult> {
+  if (request.kind === 'parse') {
+    return parse(request.id, request.input, request.filename, request.regionOverrides);
+  }
+  const { parsed, filename } = loaded();
+  if (request.kind === 'filter') {
+    return filterDatByRegions(parsed, request.regions, filename, request.options);
+  }
+  // Previews run on every filter change; the game list stays in the worker.
+  const preview = previewFilter(parsed, request.regions, filename, request.options);
+  return { filename: preview.filename, header: preview.header, summary: preview.summary };
+}
+
+scope.onmessage = (event) => {
+  const { id } = event.data;
+  run(event.data).then(
+    (result) => scope.postMessage({ id, type: 'result', result }),
+    (err: unknown) => scope.postMessage({ id, type: 'error', error: err instanceof Error ? err.message : String(err) })
+  );
+};
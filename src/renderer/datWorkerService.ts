@@ -0,0 +1,122 @@
+import type {
+  DatLoadProgress,
+  FilterOptions,
+  FilteredDatResult,
+  LoadedDatPayload,
+  RegionOverrides
+} from '../shared';
+import type { DatWorkerPreview, DatWorkerResponse, DatWorkerTask } from './datWorker';
+
+export interface DatWorkerTaskOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: DatLoadProgress) => void;
+}
+
+interface PendingTask {
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (progress: DatLoadProgress) => void;
+  cleanup: () => void;
+}
+
+function cancelledError(): DOMException {
+  return new DOMException('DAT processing was cancelled.', 'AbortError');
+}
+
+/**
+ * Runs `parseDat`/`filterDatByRegions` off the UI thread. The worker keeps the last parsed
+ * DAT, so `filter` works on whatever `parse` loaded most recently. Cancelling terminates the
+ * worker, which drops every queued task and the loaded DAT with it.
+ */
+export function createDatWorkerService() {
+  let worker: Worker | null = null;
+  let nextId = 0;
+  const pending = new Map<number, PendingTask>();
+
+  const rejectAll = (error: unknown) => {
+    for (const task of pending.values()) {
+      task.cleanup();
+      task.reject(error);
+    }
+    pending.clear();
+  };
+
+  const terminate = (error: unknown) => {
+    worker?.terminate();
+    worker = null;
+    rejectAll(error);
+  };
+
+  const handleMessage = (event: MessageEvent<DatWorkerResponse>) => {
+    const message = event.data;
+    const task = pending.get(message.id);
+    if (!task) {
+      return;
+    }
+    if (message.type === 'progress') {
+      task.onProgress?.(message.progress);
+      return;
+    }
+    pending.delete(message.id);
+    task.cleanup();
+    if (message.type === 'result') {
+      task.resolve(message.result);
+    } else {
+      task.reject(new Error(message.error));
+    }
+  };
+
+  const ensureWorker = (): Worker => {
+    if (!worker) {
+      worker = new Worker(new URL('./datWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = handleMessage;
+      worker.onerror = (event) => terminate(new Error(event.message || 'DAT worker failed.'));
+    }
+    return worker;
+  };
+
+  const run = <T>(task: DatWorkerTask, { signal, onProgress }: DatWorkerTaskOptions = {}): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(cancelledError());
+        return;
+      }
+      const id = (nextId += 1);
+      const abort = () => terminate(cancelledError());
+      signal?.addEventListener('abort', abort, { once: true });
+      pending.set(id, {
+        resolve: resolve as (result: unknown) => void,
+        reject,
+        onProgress,
+        cleanup: () => signal?.removeEventListener('abort', abort)
+      });
+      ensureWorker().postMessage({ ...task, id });
+    });
+
+  return {
+    parse: (
+      input: string | Blob,
+      filename: string,
+      options?: DatWorkerTaskOptions,
+      regionOverrides?: RegionOverrides
+    ): Promise<LoadedDatPayload> => run({ kind: 'parse', input, filename, regionOverrides }, options),
+
+    preview: (
+      regions: string[],
+      filterOptions?: FilterOptions,
+      options?: DatWorkerTaskOptions
+    ): Promise<DatWorkerPreview> => run({ kind: 'preview', regions, options: filterOptions }, options),
+
+    filter: (
+      regions: string[],
+      filterOptions?: FilterOptions,
+      options?: DatWorkerTaskOptions
+    ): Promise<FilteredDatResult> => run({ kind: 'filter', regions, options: filterOptions }, options),
+
+    cancel: () => terminate(cancelledError()),
+
+    dispose: () => terminate(new Error('DAT worker was disposed.'))
+  };
+}
+
+export type DatWorkerService = ReturnType<typeof createDatWorkerService>;
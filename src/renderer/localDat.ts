@@ -0,0 +1,103 @@
+import type {
+  DatLoadProgress,
+  FilterOptions,
+  FilterPreviewResponse,
+  OpenDatResponse,
+  SaveFilterResponse
+} from '../shared';
+import { createDatWorkerService } from './datWorkerService';
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function pickLocalDatFile(): Promise<File | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.dat,.xml,.txt';
+    input.addEventListener('change', () => resolve(input.files?.[0] ?? null), { once: true });
+    input.addEventListener('cancel', () => resolve(null), { once: true });
+    input.click();
+  });
+}
+
+function downloadFile(content: string, filename: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/plain;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Loads, previews and saves DATs through the Web Worker service when the renderer runs without
+ * the Tauri backend (the browser build). Mirrors the matching `datAPI` responses.
+ */
+export function createLocalDatSource() {
+  const service = createDatWorkerService();
+  const progressListeners = new Set<(progress: DatLoadProgress) => void>();
+  let parsing: AbortController | null = null;
+
+  return {
+    openDat: async (): Promise<OpenDatResponse> => {
+      const file = await pickLocalDatFile();
+      if (!file) {
+        return { canceled: true };
+      }
+
+      // Opening another file cancels a parse that is still running.
+      parsing?.abort();
+      const controller = new AbortController();
+      parsing = controller;
+      try {
+        const data = await service.parse(file, file.name, {
+          signal: controller.signal,
+          onProgress: (progress) => progressListeners.forEach((listener) => listener(progress))
+        });
+        return { canceled: false, data };
+      } catch (err) {
+        return controller.signal.aborted ? { canceled: true } : { canceled: false, error: errorMessage(err) };
+      } finally {
+        if (parsing === controller) {
+          parsing = null;
+        }
+      }
+    },
+
+    previewFilter: async (regions: string[], options?: FilterOptions): Promise<FilterPreviewResponse> => {
+      try {
+        const { header, summary, filename } = await service.preview(regions, options);
+        return { success: true, header, summary, filename };
+      } catch (err) {
+        return { success: false, error: errorMessage(err) };
+      }
+    },
+
+    saveFiltered: async (regions: string[], options?: FilterOptions): Promise<SaveFilterResponse> => {
+      try {
+        const result = await service.filter(regions, options);
+        // Browsers only take a file name, so the folders of a filename template are dropped.
+        const filename = result.filename.split('/').pop() || result.filename;
+        downloadFile(result.content, filename);
+        return {
+          success: true,
+          header: result.header,
+          summary: result.summary,
+          filename,
+          outputFormat: result.outputFormat
+        };
+      } catch (err) {
+        return { success: false, error: `Failed to save filtered DAT file: ${errorMessage(err)}` };
+      }
+    },
+
+    onDatLoadProgress: (callback: (progress: DatLoadProgress) => void): (() => void) => {
+      progressListeners.add(callback);
+      return () => {
+        progressListeners.delete(callback);
+      };
+    }
+  };
+}
@@ -1,4 +1,4 @@
-import type { AppSettings, DatVariant, LoadedDatPayload } from '../shared';
+import { DEFAULT_REGION_PRIORITY, type AppSettings, type DatVariant, type LoadedDatPayload } from '../shared';
 import { datAPI } from './datApi';
 
 export const DEFAULT_REGIONS = ['USA', 'World'];
@@ -10,7 +10,14 @@ export const DEFAULT_APP_SETTINGS: AppSettings = {
   showAllSystems: true,
   visibleSystemSlugs: [],
   preferSerialVersion: false,
-  systemDatVariants: {}
+  systemDatVariants: {},
+  regionPriority: [...DEFAULT_REGION_PRIORITY],
+  systemTitlePatterns: {},
+  headerTemplate: {},
+  filenameTemplate: null,
+  systemFilenameTemplates: {},
+  regionOverrides: { synonyms: {}, regions: [] },
+  regionGroups: []
 };
 
 export function resolveDatVariant(
@@ -90,6 +97,13 @@ export async function loadAppSettings(): Promise<AppSettings> {
     visibleSystemSlugs,
     showAllSystems: settings.showAllSystems ?? visibleSystemSlugs.length === 0,
     preferSerialVersion: settings.preferSerialVersion ?? false,
-    systemDatVariants: settings.systemDatVariants ?? {}
+    systemDatVariants: settings.systemDatVariants ?? {},
+    regionPriority: settings.regionPriority ?? [...DEFAULT_REGION_PRIORITY],
+    systemTitlePatterns: settings.systemTitlePatterns ?? {},
+    headerTemplate: settings.headerTemplate ?? {},
+    filenameTemplate: settings.filenameTemplate ?? null,
+    systemFilenameTemplates: settings.systemFilenameTemplates ?? {},
+    regionOverrides: settings.regionOverrides ?? { synonyms: {}, regions: [] },
+    regionGroups: settings.regionGroups ?? []
   };
 }
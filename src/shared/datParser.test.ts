@@ -1,7 +1,20 @@
 import assert from 'node:assert/strict';
 import { describe, it } from 'node:test';
 
-import { filterDatByRegions, parseDat } from './datParser';
+import {
+  CANONICAL_REGION_LIST,
+  canonicalRegionList,
+  diffDats,
+  filterDatByRegions,
+  mergeDats,
+  parseDat,
+  previewFilter,
+  renderFilenameTemplate,
+  resolveRegionGroups,
+  validateDat,
+  validateSerialPattern,
+  validateTitlePattern
+} from './datParser';
 
 const SAMPLE_DAT = `<?xml version="1.0"?>
 <!DOCTYPE datafile PUBLIC "-//Logiqx//DTD ROM Management Datafile//EN" "http://www.logiqx.com/Dats/datafile.dtd">
@@ -50,6 +63,136 @@ describe('parseDat', () => {
     assert.deepEqual(parsed.games[1]?.regions, ['USA', 'Europe']);
   });
 
+  it('honors user region synonyms and custom regions', () => {
+    const xml = `<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Nordic Quest (Scand)"><rom name="Nordic Quest (Scand)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Nordic Quest (USA)"><rom name="Nordic Quest (USA)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Lowlands (benelux)"><rom name="Lowlands (benelux)" size="1" crc="cccccccc"/></game>
+  <game name="Continental (PAL)"><rom name="Continental (PAL)" size="1" crc="dddddddd"/></game>
+</datafile>`;
+    const overrides = { synonyms: { 'Scand.': 'Scandinavia', pal: 'PAL Territories' }, regions: ['Benelux'] };
+
+    const builtIn = parseDat(xml);
+    assert.deepEqual(builtIn.games[0]?.regions, []);
+    assert.deepEqual(builtIn.games[0]?.tags, [{ key: 'Scand', label: 'Scand' }]);
+    assert.deepEqual(builtIn.games[3]?.regions, ['Europe']);
+
+    const parsed = parseDat(xml, undefined, overrides);
+    assert.deepEqual(
+      parsed.games.map((game) => game.regions),
+      [['Scandinavia'], ['USA'], ['Benelux'], ['PAL Territories']]
+    );
+    assert.deepEqual(parsed.games[0]?.tags, []);
+    assert.deepEqual(parsed.availableRegions, ['Benelux', 'PAL Territories', 'Scandinavia', 'USA']);
+
+    const result = filterDatByRegions(parsed, ['scand', 'USA'], undefined, {
+      oneGameOneRom: true,
+      regionPriority: ['Scandinavia', 'USA']
+    });
+    assert.deepEqual(
+      result.games.map((game) => game.name),
+      ['Nordic Quest (Scand)']
+    );
+    assert.deepEqual(result.summary.selectedRegions, ['Scandinavia', 'USA']);
+
+    const regions = canonicalRegionList(overrides);
+    assert.ok(['Benelux', 'PAL Territories', 'Scandinavia'].every((region) => regions.includes(region)));
+    assert.ok(!CANONICAL_REGION_LIST.includes('Scandinavia'));
+  });
+
+  it('reads <machine> elements and maps ISO-3166 region codes', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <machine name="Puzzler (1994)(Acme)(DE)(De)"><rom name="puzzler.bin" size="1" crc="aaaaaaaa"/></machine>
+  <machine name="Racer (1995)(Acme)(US-GB)" cloneof="Racer (1995)(Acme)(JP)"><rom name="racer.bin" size="1" crc="bbbbbbbb"/></machine>
+  <machine name="Racer (1995)(Acme)(JP)"><rom name="racer-jp.bin" size="1" crc="cccccccc"/></machine>
+</datafile>`);
+
+    assert.deepEqual(
+      parsed.games.map((game) => [game.element, game.regions]),
+      [
+        ['machine', ['Germany']],
+        ['machine', ['USA', 'United Kingdom']],
+        ['machine', ['Japan']]
+      ]
+    );
+    assert.deepEqual(parsed.games[0]?.languages, ['De']);
+
+    const result = filterDatByRegions(parsed, ['USA', 'Germany']);
+    assert.match(result.content, /<machine name="Racer \(1995\)\(Acme\)\(US-GB\)" cloneof="Racer \(1995\)\(Acme\)\(JP\)">/);
+    assert.doesNotMatch(result.content, /<game /);
+
+    const text = filterDatByRegions(parsed, ['Japan'], undefined, { outputFormat: 'clrmamepro' });
+    assert.match(text.content, /\r\nmachine \(\r\n\tname "Racer \(1995\)\(Acme\)\(JP\)"/);
+  });
+
+  it('keeps interleaved <game> and <machine> entries in source order through a round trip', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Alpha (USA)"><rom name="alpha.bin" size="1" crc="aaaaaaaa"/></game>
+  <machine name="Bravo (USA)"><rom name="bravo.bin" size="1" crc="bbbbbbbb"/></machine>
+  <game name="Charlie (USA)"><rom name="charlie.bin" size="1" crc="cccccccc"/></game>
+  <machine name="Delta (USA)"/>
+</datafile>`);
+    const expected = [
+      ['game', 'Alpha (USA)'],
+      ['machine', 'Bravo (USA)'],
+      ['game', 'Charlie (USA)'],
+      ['machine', 'Delta (USA)']
+    ];
+
+    assert.deepEqual(
+      parsed.games.map((game) => [game.element, game.name]),
+      expected
+    );
+
+    const result = filterDatByRegions(parsed, ['USA']);
+    const roundTrip = parseDat(result.content);
+    assert.deepEqual(
+      roundTrip.games.map((game) => [game.element, game.name]),
+      expected
+    );
+    assert.match(result.content, /<game name="Charlie \(USA\)">\r\n\t\t<rom name="charlie.bin"/);
+  });
+
+  it('parses language lists and collects available languages', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Example (Europe) (En,Fr,De)"><rom name="Example (Europe)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Other (Disc 1) (Japan) (Ja+En)"><rom name="Other (Japan)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Plain (USA)"><rom name="Plain (USA)" size="1" crc="cccccccc"/></game>
+</datafile>`);
+
+    assert.deepEqual(parsed.games[0]?.languages, ['En', 'Fr', 'De']);
+    assert.deepEqual(parsed.games[1]?.languages, ['Ja', 'En']);
+    assert.deepEqual(parsed.games[2]?.languages, []);
+    assert.deepEqual(parsed.availableLanguages, ['De', 'En', 'Fr', 'Ja', 'Unknown']);
+  });
+
+  it('reports parse progress per game through the optional callback', () => {
+    const calls: Array<[number, number]> = [];
+    const parsed = parseDat(
+      `<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Alpha (USA)"><rom name="Alpha (USA).bin" size="1" crc="aaaaaaaa"/></game>
+  <game name="Beta (Japan)"><rom name="Beta (Japan).bin" size="1" crc="bbbbbbbb"/></game>
+</datafile>`,
+      (processed, total) => calls.push([processed, total])
+    );
+
+    assert.equal(parsed.games.length, 2);
+    assert.deepEqual(calls, [
+      [1, 2],
+      [2, 2]
+    ]);
+  });
+
   it('throws when the datafile root is missing', () => {
     assert.throws(() => parseDat('<root></root>'), /missing <datafile>/);
   });
@@ -67,8 +210,30 @@ describe('filterDatByRegions', () => {
     assert.match(result.header.name!, /\(USA\)/);
     assert.match(result.header.description!, /\(1\)/);
     assert.match(result.filename, /Microsoft - Xbox \(USA\) - Datfile \(1\)/);
-    assert.match(result.xml, /<game name="Halo \(USA\)">/);
-    assert.doesNotMatch(result.xml, /Forza Motorsport/);
+    assert.match(result.content, /<game name="Halo \(USA\)">/);
+    assert.doesNotMatch(result.content, /Forza Motorsport/);
+  });
+
+  it('indexes games by region and previews without building the output', () => {
+    const parsed = parseDat(SAMPLE_DAT);
+
+    assert.deepEqual(parsed.index.regions.get('USA'), [0]);
+    assert.deepEqual(parsed.index.regions.get('Unknown'), [3]);
+    assert.deepEqual(parsed.index.units, [[0], [1], [2], [3]]);
+
+    const source = 'Microsoft - Xbox - Datfile (4) (2025-11-07).dat';
+    const options = { excludedRegions: ['Japan'] };
+    const preview = previewFilter(parsed, ['USA', 'Europe'], source, options);
+    const result = filterDatByRegions(parsed, ['USA', 'Europe'], source, options);
+
+    assert.equal('content' in preview, false);
+    assert.equal(preview.filename, result.filename);
+    assert.deepEqual(preview.header, result.header);
+    assert.deepEqual(preview.summary, result.summary);
+    assert.deepEqual(
+      preview.games.map((game) => game.name),
+      ['Halo (USA)', 'Forza Motorsport (Europe)']
+    );
   });
 
   it('preserves serial/version descriptors, tags, and filenames', () => {
@@ -110,8 +275,8 @@ describe('filterDatByRegions', () => {
     assert.equal(result.games.length, 1);
     assert.match(result.header.description!, /Datfile \(serial,version\)/);
     assert.match(result.filename, /Datfile \(serial,version\)/);
-    assert.match(result.xml, /<serial>SCUS-94300<\/serial>/);
-    assert.doesNotMatch(result.xml, /Tekken/);
+    assert.match(result.content, /<serial>SCUS-94300<\/serial>/);
+    assert.doesNotMatch(result.content, /Tekken/);
   });
 
   it('returns all games when no regions are selected', () => {
@@ -135,7 +300,714 @@ describe('filterDatByRegions', () => {
     const parsed = parseDat(SAMPLE_DAT);
     const result = filterDatByRegions(parsed, ['Europe'], 'source.dat');
 
-    assert.match(result.xml, /^<\?xml version="1.0"\?>\r\n<!DOCTYPE datafile/);
-    assert.match(result.xml, /\r\n\t<game name="Forza Motorsport \(Europe\)">/);
+    assert.match(result.content, /^<\?xml version="1.0"\?>\r\n<!DOCTYPE datafile/);
+    assert.match(result.content, /\r\n\t<game name="Forza Motorsport \(Europe\)">/);
+  });
+
+  it('keeps one release per title in 1G1R mode using the region priority', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Racer (Japan)"><rom name="Racer (Japan)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Racer (Europe) (En,Fr,De)"><rom name="Racer (Europe)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Racer (USA)"><rom name="Racer (USA)" size="1" crc="cccccccc"/></game>
+  <game name="Quest (Disc 1) (Europe)"><rom name="Quest (Disc 1) (Europe)" size="1" crc="dddddddd"/></game>
+  <game name="Quest (Disc 2) (Europe)"><rom name="Quest (Disc 2) (Europe)" size="1" crc="eeeeeeee"/></game>
+  <game name="Quest (Disc 1) (Japan)"><rom name="Quest (Disc 1) (Japan)" size="1" crc="ffffffff"/></game>
+</datafile>`);
+
+    const result = filterDatByRegions(parsed, ['USA', 'Europe', 'Japan'], 'source.dat', {
+      oneGameOneRom: true,
+      regionPriority: ['USA', 'World', 'Europe', 'Japan']
+    });
+
+    assert.deepEqual(
+      result.games.map((game) => game.name),
+      ['Racer (USA)', 'Quest (Disc 1) (Europe)', 'Quest (Disc 2) (Europe)']
+    );
+    assert.equal(result.summary.collapsedGames, 3);
+    assert.equal(result.summary.removedGames, 3);
+  });
+
+  it('groups revisions across regions in 1G1R mode and prefers the latest revision on a tie', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Racer (Europe) (Rev 1)"><rom name="Racer (Europe) (Rev 1)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Racer (USA)"><rom name="Racer (USA)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Racer (Japan) (Demo)"><rom name="Racer (Japan) (Demo)" size="1" crc="cccccccc"/></game>
+  <game name="Quest (World)"><rom name="Quest (World)" size="1" crc="dddddddd"/></game>
+  <game name="Quest (World) (Rev 2)"><rom name="Quest (World) (Rev 2)" size="1" crc="eeeeeeee"/></game>
+  <game name="Quest (World) (Rev 1)"><rom name="Quest (World) (Rev 1)" size="1" crc="ffffffff"/></game>
+</datafile>`);
+
+    const result = filterDatByRegions(parsed, ['USA', 'Europe', 'Japan', 'World'], 'source.dat', {
+      oneGameOneRom: true,
+      regionPriority: ['USA', 'World', 'Europe', 'Japan']
+    });
+
+    assert.deepEqual(
+      result.games.map((game) => game.name),
+      ['Racer (USA)', 'Racer (Japan) (Demo)', 'Quest (World) (Rev 2)']
+    );
+    assert.equal(result.summary.collapsedGames, 3);
+  });
+
+  it('does not collapse titles when 1G1R is off', () => {
+    const parsed = parseDat(SAMPLE_DAT);
+    const result = filterDatByRegions(parsed, [], 'source.dat', { regionPriority: ['Japan'] });
+
+    assert.equal(result.games.length, 4);
+    assert.equal(result.summary.collapsedGames, 0);
+  });
+
+  it('combines the language selection with the region selection', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Alpha (Europe) (En,Fr,De)"><rom name="Alpha (Europe)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Beta (Europe) (Fr,De)"><rom name="Beta (Europe)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Gamma (USA)"><rom name="Gamma (USA)" size="1" crc="cccccccc"/></game>
+  <game name="Delta (Japan) (En,Ja)"><rom name="Delta (Japan)" size="1" crc="dddddddd"/></game>
+</datafile>`);
+
+    const result = filterDatByRegions(parsed, ['Europe', 'USA'], 'source.dat', { languages: ['En'] });
+
+    assert.deepEqual(
+      result.games.map((game) => game.name),
+      ['Alpha (Europe) (En,Fr,De)']
+    );
+    assert.deepEqual(result.summary.selectedLanguages, ['En']);
+  });
+
+  it('parses release tags and filters them with include/exclude sets', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Alpha (USA)"><rom name="Alpha (USA)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Alpha (USA) (Beta 2)"><rom name="Alpha (USA) (Beta 2)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Alpha (USA) (Proto) (Demo)"><rom name="Alpha (USA) (Proto) (Demo)" size="1" crc="cccccccc"/></game>
+  <game name="Gamma (USA) (En,Fr) (Limited Edition) (Unl)"><rom name="Gamma (USA) (Unl)" size="1" crc="dddddddd"/></game>
+  <game name="Delta (USA) (Rev 1)"><rom name="Delta (USA) (Rev 1)" size="1" crc="eeeeeeee"/></game>
+</datafile>`);
+
+    assert.deepEqual(parsed.games[1].tags, [{ key: 'Beta', label: 'Beta 2', value: '2' }]);
+    // Parentheticals outside the known tag families stay tags keyed by their own label.
+    assert.deepEqual(parsed.games[3].tags, [
+      { key: 'Limited Edition', label: 'Limited Edition' },
+      { key: 'Unl', label: 'Unl' }
+    ]);
+    assert.deepEqual(parsed.availableTags, ['Beta', 'Demo', 'Limited Edition', 'Proto', 'Rev', 'Unl']);
+
+    const excluded = filterDatByRegions(parsed, ['USA'], 'source.dat', { excludeTags: ['Beta', 'Proto', 'Demo'] });
+    assert.deepEqual(
+      excluded.games.map((game) => game.name),
+      ['Alpha (USA)', 'Gamma (USA) (En,Fr) (Limited Edition) (Unl)', 'Delta (USA) (Rev 1)']
+    );
+    assert.deepEqual(excluded.summary.tagExclusionCounts, { Beta: 1, Proto: 1, Demo: 1 });
+
+    const included = filterDatByRegions(parsed, ['USA'], 'source.dat', {
+      includeTags: ['Rev', 'Unl'],
+      excludeTags: ['Unl']
+    });
+    assert.deepEqual(
+      included.games.map((game) => game.name),
+      ['Delta (USA) (Rev 1)']
+    );
+
+    const limited = filterDatByRegions(parsed, ['USA'], 'source.dat', { includeTags: ['Limited Edition'] });
+    assert.deepEqual(
+      limited.games.map((game) => game.name),
+      ['Gamma (USA) (En,Fr) (Limited Edition) (Unl)']
+    );
+  });
+
+  it('keeps only the latest revision of each title and region', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Title (USA)"><rom name="Title (USA)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Title (USA) (Rev 2)"><rom name="Title (USA) (Rev 2)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Title (USA) (Rev 1)"><rom name="Title (USA) (Rev 1)" size="1" crc="cccccccc"/></game>
+  <game name="Title (Europe) (En,Fr)"><rom name="Title (Europe)" size="1" crc="dddddddd"/></game>
+  <game name="Other (Japan) (v1.10)"><rom name="Other (Japan) (v1.10)" size="1" crc="eeeeeeee"/></game>
+  <game name="Other (Japan) (v1.2)"><rom name="Other (Japan) (v1.2)" size="1" crc="ffffffff"/></game>
+</datafile>`);
+
+    const result = filterDatByRegions(parsed, [], 'source.dat', { latestRevisionOnly: true });
+
+    assert.deepEqual(
+      result.games.map((game) => game.name),
+      ['Title (USA) (Rev 2)', 'Title (Europe) (En,Fr)', 'Other (Japan) (v1.10)']
+    );
+    assert.equal(result.summary.supersededRevisions, 3);
+
+    const untouched = filterDatByRegions(parsed, [], 'source.dat');
+    assert.equal(untouched.games.length, 6);
+    assert.equal(untouched.summary.supersededRevisions, 0);
+  });
+
+  it('groups multi-disc sets and keeps or drops them as a whole', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Epic (Europe) (Disc 1)"><rom name="Epic (Europe) (Disc 1)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Epic (Europe) (Disc 2)"><rom name="Epic (Europe) (Disc 2)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Epic (USA) (Disc 1)"><rom name="Epic (USA) (Disc 1)" size="1" crc="cccccccc"/></game>
+  <game name="Saga (Japan) (Disc 1)"><rom name="Saga (Japan) (Disc 1)" size="1" crc="dddddddd"/></game>
+  <game name="Solo (Japan)"><rom name="Solo (Japan)" size="1" crc="eeeeeeee"/></game>
+  <game name="Saga (Japan) (Disc 2)"><rom name="Saga (Japan) (Disc 2)" size="1" crc="ffffffff"/></game>
+</datafile>`);
+
+    assert.deepEqual(parsed.games[1].discSet, { key: 'Epic (Europe)', disc: 2, total: 2 });
+    assert.deepEqual(parsed.games[2].discSet, { key: 'Epic (USA)', disc: 1, total: 1 });
+    assert.equal(parsed.games[4].discSet, undefined);
+
+    const collapsed = filterDatByRegions(parsed, [], 'source.dat', {
+      oneGameOneRom: true,
+      regionPriority: ['USA', 'Europe', 'Japan']
+    });
+    assert.deepEqual(
+      collapsed.games.map((game) => game.name),
+      ['Epic (USA) (Disc 1)', 'Saga (Japan) (Disc 1)', 'Solo (Japan)', 'Saga (Japan) (Disc 2)']
+    );
+    assert.equal(collapsed.summary.collapsedGames, 2);
+    assert.equal(collapsed.summary.multiDiscSets, 1);
+    assert.equal(collapsed.summary.multiDiscGames, 2);
+  });
+
+  it('applies title include and exclude patterns around the region selection', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Racer (USA)"><rom name="Racer (USA)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Racer Turbo (USA)"><rom name="Racer Turbo (USA)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Shrine Maiden (Japan)"><rom name="Shrine Maiden (Japan)" size="1" crc="cccccccc"/></game>
+  <game name="Sound Test (Japan)"><rom name="Sound Test (Japan)" size="1" crc="dddddddd"/></game>
+  <game name="Quiz Night (USA)"><rom name="Quiz Night (USA)" size="1" crc="eeeeeeee"/></game>
+</datafile>`);
+
+    const result = filterDatByRegions(parsed, ['USA'], 'source.dat', {
+      includeTitles: ['shrine maiden', '/^Sound (Test|Check)/'],
+      excludeTitles: ['racer turbo*', '/quiz/i']
+    });
+
+    assert.deepEqual(
+      result.games.map((game) => game.name),
+      ['Racer (USA)', 'Shrine Maiden (Japan)', 'Sound Test (Japan)']
+    );
+    assert.equal(result.summary.titleIncludedGames, 2);
+    assert.equal(result.summary.titleExcludedGames, 2);
+
+    assert.equal(validateTitlePattern('Racer*'), null);
+    assert.match(validateTitlePattern('/[unclosed/') ?? '', /Invalid regular expression/);
+    assert.throws(
+      () => filterDatByRegions(parsed, ['USA'], 'source.dat', { includeTitles: ['/[unclosed/'] }),
+      /Invalid regular expression/
+    );
+  });
+
+  it('collects categories and combines the category selection with the region selection', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Racer (USA)"><category>Games</category><rom name="Racer (USA)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Racer (USA) (Demo)"><category>Demos</category><rom name="Racer (USA) (Demo)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Racer (Europe)"><category>Games</category><rom name="Racer (Europe)" size="1" crc="cccccccc"/></game>
+  <game name="Mystery (USA)"><rom name="Mystery (USA)" size="1" crc="dddddddd"/></game>
+</datafile>`);
+
+    assert.deepEqual(parsed.availableCategories, ['Demos', 'Games', 'Unknown']);
+
+    const result = filterDatByRegions(parsed, ['USA'], 'source.dat', { categories: ['Games', 'Unknown'] });
+    assert.deepEqual(
+      result.games.map((game) => game.name),
+      ['Racer (USA)', 'Mystery (USA)']
+    );
+    assert.deepEqual(result.summary.selectedCategories, ['Games', 'Unknown']);
+  });
+
+  it('supports all/exclusive match modes and excluded regions in the label', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Alpha (USA)"><rom name="Alpha (USA)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Beta (USA, Europe)"><rom name="Beta (USA, Europe)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Gamma (Europe)"><rom name="Gamma (Europe)" size="1" crc="cccccccc"/></game>
+  <game name="Delta (USA, Japan)"><rom name="Delta (USA, Japan)" size="1" crc="dddddddd"/></game>
+</datafile>`);
+    const names = (result: { games: { name: string }[] }) => result.games.map((game) => game.name);
+
+    const exclusive = filterDatByRegions(parsed, ['USA'], 'source.dat', { matchMode: 'exclusive' });
+    assert.deepEqual(names(exclusive), ['Alpha (USA)']);
+    assert.equal(exclusive.summary.regionLabel, 'USA only');
+    assert.equal(exclusive.header.name, 'Test System (USA only)');
+
+    const all = filterDatByRegions(parsed, ['USA', 'Europe'], 'source.dat', { matchMode: 'all' });
+    assert.deepEqual(names(all), ['Beta (USA, Europe)']);
+    assert.equal(all.summary.regionLabel, 'USA + Europe');
+
+    const excluded = filterDatByRegions(parsed, ['USA'], 'source.dat', { excludedRegions: ['Japan'] });
+    assert.deepEqual(names(excluded), ['Alpha (USA)', 'Beta (USA, Europe)']);
+    assert.equal(excluded.summary.regionLabel, 'USA; excl. Japan');
+    assert.deepEqual(excluded.summary.excludedRegions, ['Japan']);
+
+    const onlyExcluded = filterDatByRegions(parsed, [], 'source.dat', { excludedRegions: ['USA'] });
+    assert.deepEqual(names(onlyExcluded), ['Gamma (Europe)']);
+    assert.equal(onlyExcluded.summary.regionLabel, 'excl. USA');
+  });
+
+  it('prints fully selected region groups by name in the label', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Alpha (Europe)"><rom name="Alpha (Europe)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Beta (Germany)"><rom name="Beta (Germany)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Gamma (USA)"><rom name="Gamma (USA)" size="1" crc="cccccccc"/></game>
+  <game name="Delta (Canada)"><rom name="Delta (Canada)" size="1" crc="dddddddd"/></game>
+  <game name="Epsilon (Japan)"><rom name="Epsilon (Japan)" size="1" crc="eeeeeeee"/></game>
+  <game name="Zeta (Europe, Germany)"><rom name="Zeta (Europe, Germany)" size="1" crc="ffffffff"/></game>
+</datafile>`);
+    const label = (regions: string[], options: Parameters<typeof filterDatByRegions>[3] = {}) =>
+      filterDatByRegions(parsed, regions, 'source.dat', options).summary.regionLabel;
+
+    assert.deepEqual(
+      resolveRegionGroups(parsed.availableRegions).map((group) => [group.name, group.regions]),
+      [
+        ['PAL', ['Europe', 'Germany']],
+        ['NTSC-U', ['USA', 'Canada']],
+        ['NTSC-J', ['Japan']],
+        ['Asia-all', ['Japan']]
+      ]
+    );
+    assert.equal(label(['USA', 'Europe', 'Germany']), 'USA, PAL');
+    assert.equal(label(['Europe', 'Germany'], { matchMode: 'exclusive' }), 'PAL only');
+    assert.equal(label(['Europe', 'Germany'], { matchMode: 'all' }), 'Europe + Germany');
+    assert.equal(label(['Japan'], { excludedRegions: ['USA', 'Canada'] }), 'Japan; excl. NTSC-U');
+    assert.equal(label(['Europe', 'USA']), 'Europe, USA');
+
+    const regionGroups = [
+      { name: 'NTSC-U', regions: ['USA'] },
+      { name: 'Western', regions: ['USA', 'Europe', 'Germany', 'Brazil'] }
+    ];
+    assert.equal(label(['USA', 'Canada'], { regionGroups }), 'USA, Canada');
+    assert.equal(label(['Germany', 'USA', 'Europe', 'Japan'], { regionGroups }), 'Western, Japan');
+  });
+
+  it('parses serials and versions and filters by serial prefix and pattern', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Racer (USA)"><serial>SLUS-00001</serial><version>1.01</version><rom name="Racer (USA)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Racer (Europe)"><serial>SLES-00002, SLES-00003</serial><rom name="Racer (Europe)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Puzzle (Japan)"><serial>SLPS-00004</serial><rom name="Puzzle (Japan)" size="1" crc="cccccccc"/></game>
+  <game name="Homebrew (USA)"><rom name="Homebrew (USA)" size="1" crc="dddddddd"/></game>
+  <game name="Sports (USA)"><serial>SCUS-94001</serial><rom name="Sports (USA)" size="1" crc="eeeeeeee"/></game>
+</datafile>`);
+    const names = (options: Parameters<typeof filterDatByRegions>[3]) =>
+      filterDatByRegions(parsed, [], 'source.dat', options).games.map((game) => game.name);
+
+    assert.deepEqual(parsed.games[0]?.serials, ['SLUS-00001']);
+    assert.equal(parsed.games[0]?.version, '1.01');
+    assert.deepEqual(parsed.games[1]?.serials, ['SLES-00002', 'SLES-00003']);
+    assert.deepEqual(parsed.games[3]?.serials, []);
+    assert.equal(parsed.games[3]?.version, undefined);
+    assert.deepEqual(parsed.availableSerialPrefixes, ['SCUS', 'SLES', 'SLPS', 'SLUS']);
+
+    const byPrefix = filterDatByRegions(parsed, [], 'source.dat', { serialPrefixes: ['slus', 'SCUS'] });
+    assert.deepEqual(
+      byPrefix.games.map((game) => game.name),
+      ['Racer (USA)', 'Sports (USA)']
+    );
+    assert.deepEqual(byPrefix.summary.selectedSerialPrefixes, ['SLUS', 'SCUS']);
+
+    const byPattern = filterDatByRegions(parsed, [], 'source.dat', { serialPattern: '^sles-0000[3]$' });
+    assert.deepEqual(
+      byPattern.games.map((game) => game.name),
+      ['Racer (Europe)']
+    );
+    assert.equal(byPattern.summary.serialPattern, '^sles-0000[3]$');
+    assert.deepEqual(names({ serialPrefixes: ['SLUS', 'SCUS'], serialPattern: '-9' }), ['Sports (USA)']);
+
+    assert.notEqual(validateSerialPattern('('), null);
+    assert.throws(
+      () => filterDatByRegions(parsed, [], 'source.dat', { serialPattern: '(' }),
+      /Invalid regular expression/
+    );
+  });
+
+  it('sums ROM sizes and filters by minimum and maximum size', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Small (USA)"><rom name="Small (USA).bin" size="1000" crc="aaaaaaaa"/></game>
+  <game name="Big (USA)"><rom name="Big (USA) (Track 1).bin" size="3000" crc="bbbbbbbb"/><rom name="Big (USA) (Track 2).bin" size="2500" crc="cccccccc"/></game>
+  <game name="Epic (USA) (Disc 1)"><rom name="Epic (USA) (Disc 1).bin" size="3000" crc="dddddddd"/></game>
+  <game name="Epic (USA) (Disc 2)"><rom name="Epic (USA) (Disc 2).bin" size="3000" crc="eeeeeeee"/></game>
+  <game name="Unsized (USA)"><rom name="Unsized (USA).bin" crc="ffffffff"/></game>
+</datafile>`);
+    const run = (options: Parameters<typeof filterDatByRegions>[3]) =>
+      filterDatByRegions(parsed, [], 'source.dat', options);
+    const names = (options: Parameters<typeof filterDatByRegions>[3]) => run(options).games.map((game) => game.name);
+
+    assert.deepEqual(
+      parsed.games.map((game) => game.totalSize),
+      [1000, 5500, 3000, 3000, 0]
+    );
+
+    const all = run({});
+    assert.equal(all.summary.initialSize, 12500);
+    assert.equal(all.summary.filteredSize, 12500);
+    assert.equal(all.summary.sizeExcludedGames, 0);
+
+    const capped = run({ maxSize: 5500 });
+    assert.deepEqual(
+      capped.games.map((game) => game.name),
+      ['Small (USA)', 'Big (USA)', 'Unsized (USA)']
+    );
+    assert.equal(capped.summary.sizeExcludedGames, 2);
+    assert.equal(capped.summary.filteredSize, 6500);
+    assert.equal(capped.summary.initialSize, 12500);
+
+    assert.deepEqual(names({ minSize: 1 }), [
+      'Small (USA)',
+      'Big (USA)',
+      'Epic (USA) (Disc 1)',
+      'Epic (USA) (Disc 2)'
+    ]);
+    assert.deepEqual(names({ minSize: 2000, maxSize: 5999 }), ['Big (USA)']);
+  });
+
+  it('writes cloneof/romof attributes in parent/clone export mode', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Racer (Japan)"><rom name="Racer (Japan)" size="1" crc="aaaaaaaa"/></game>
+  <game name="Racer (USA)"><rom name="Racer (USA)" size="1" crc="bbbbbbbb"/></game>
+  <game name="Epic (Europe) (Disc 1)"><rom name="Epic (Europe) (Disc 1)" size="1" crc="cccccccc"/></game>
+  <game name="Epic (Europe) (Disc 2)"><rom name="Epic (Europe) (Disc 2)" size="1" crc="dddddddd"/></game>
+  <game name="Epic (USA) (Disc 1)"><rom name="Epic (USA) (Disc 1)" size="1" crc="eeeeeeee"/></game>
+  <game name="Epic (USA) (Disc 2)"><rom name="Epic (USA) (Disc 2)" size="1" crc="ffffffff"/></game>
+  <game name="Solo (Japan)"><rom name="Solo (Japan)" size="1" crc="abababab"/></game>
+</datafile>`);
+
+    const result = filterDatByRegions(parsed, [], 'source.dat', {
+      exportMode: 'parentClone',
+      regionPriority: ['USA', 'Europe', 'Japan']
+    });
+
+    assert.match(result.content, /<game name="Racer \(Japan\)" cloneof="Racer \(USA\)" romof="Racer \(USA\)">/);
+    assert.match(result.content, /<game name="Racer \(USA\)">/);
+    assert.match(
+      result.content,
+      /<game name="Epic \(Europe\) \(Disc 2\)" cloneof="Epic \(USA\) \(Disc 2\)" romof="Epic \(USA\) \(Disc 2\)">/
+    );
+    assert.match(result.content, /<game name="Solo \(Japan\)">/);
+    assert.equal(result.summary.cloneGames, 3);
+
+    const flat = filterDatByRegions(parsed, [], 'source.dat');
+    assert.doesNotMatch(flat.content, /cloneof=/);
+    assert.equal(flat.summary.cloneGames, 0);
+  });
+
+  it('diffs two DATs by name and ROM hashes', () => {
+    const previous = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Kept (USA)"><rom name="Kept (USA).bin" size="1" crc="11111111"/></game>
+  <game name="Patched (USA)"><rom name="Patched (USA).bin" size="1" crc="22222222"/></game>
+  <game name="Old Name (USA)"><rom name="Old Name (USA).bin" size="1" crc="33333333" sha1="AAAA"/></game>
+  <game name="Dropped (USA)"><rom name="Dropped (USA).bin" size="1" crc="44444444"/></game>
+</datafile>`);
+    const next = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name></header>
+  <game name="Kept (USA)"><rom name="Kept (USA).bin" size="1" crc="11111111"/></game>
+  <game name="Patched (USA)"><rom name="Patched (USA).bin" size="1" crc="55555555"/></game>
+  <game name="New Name (USA)"><rom name="New Name (USA).bin" size="1" crc="33333333" sha1="aaaa"/></game>
+  <game name="Fresh (USA)"><serial>SLUS-00006</serial><rom name="Fresh (USA).bin" size="1" crc="66666666"/></game>
+</datafile>`);
+
+    const diff = diffDats(previous, next);
+
+    assert.equal(diff.unchanged, 1);
+    assert.deepEqual(diff.rehashed, [{ kind: 'rehashed', name: 'Patched (USA)', serials: [] }]);
+    assert.deepEqual(diff.renamed, [
+      { kind: 'renamed', name: 'New Name (USA)', previousName: 'Old Name (USA)', serials: [] }
+    ]);
+    assert.deepEqual(diff.added, [{ kind: 'added', name: 'Fresh (USA)', serials: ['SLUS-00006'] }]);
+    assert.deepEqual(diff.removed, [{ kind: 'removed', name: 'Dropped (USA)', serials: [] }]);
+  });
+
+  it('merges several DATs, dropping games with identical ROM hashes', () => {
+    const first = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>System A</name><version>2024-01-01</version><author>Redump</author></header>
+  <game name="Shared (USA)"><rom name="Shared (USA).bin" size="1" crc="11111111"/></game>
+  <game name="Only A (Japan)"><rom name="Only A (Japan).bin" size="1" crc="22222222"/></game>
+</datafile>`);
+    const second = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>System B</name><version>2024-02-01</version><author>Redump</author></header>
+  <game name="Shared (USA) (Alt)"><rom name="Shared (USA).bin" size="1" crc="11111111"/></game>
+  <game name="Only B (USA)"><rom name="Only B (USA).bin" size="1" crc="33333333"/></game>
+</datafile>`);
+
+    const result = mergeDats([first, second], ['USA'], { name: 'Combined' });
+
+    assert.deepEqual(
+      result.games.map((game) => game.name),
+      ['Shared (USA)', 'Only B (USA)']
+    );
+    assert.equal(result.summary.initialGames, 3);
+    assert.equal(result.header.name, 'Combined (USA)');
+    assert.equal(result.header.description, 'Combined (USA) - Datfile (2) (2024-02-01)');
+    assert.equal(result.header.author, 'Redump');
+    assert.match(result.content, /<game name="Only B \(USA\)">/);
+    assert.throws(() => mergeDats([], ['USA']), /at least one DAT/);
+  });
+
+  it('writes ClrMamePro text when that output format is selected', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name><description>Test System - Datfile (2) (2024-01-01)</description><version>2024-01-01</version></header>
+  <game name="Racer (Japan)"><category>Games</category><description>Racer (Japan)</description><rom name="Racer (Japan) (Track 1).bin" size="10" crc="aaaaaaaa" md5="bb" sha1="cc"/></game>
+  <game name="Racer (USA)"><category>Games</category><description>Racer (USA)</description><rom name="Racer (USA).bin" size="20" crc="dddddddd"/></game>
+</datafile>`);
+
+    const result = filterDatByRegions(parsed, [], 'Test System - Datfile (2) (2024-01-01).xml', {
+      outputFormat: 'clrmamepro',
+      exportMode: 'parentClone',
+      regionPriority: ['USA', 'Japan']
+    });
+
+    assert.equal(result.outputFormat, 'clrmamepro');
+    assert.ok(result.content.startsWith('clrmamepro (\r\n\tname "Test System"\r\n'));
+    assert.match(result.content, /\tversion "2024-01-01"\r\n\)/);
+    assert.ok(
+      result.content.includes(
+        [
+          'game (',
+          '\tname "Racer (Japan)"',
+          '\tdescription "Racer (Japan)"',
+          '\tcategory "Games"',
+          '\tcloneof "Racer (USA)"',
+          '\tromof "Racer (USA)"',
+          '\trom ( name "Racer (Japan) (Track 1).bin" size 10 crc aaaaaaaa md5 bb sha1 cc )',
+          ')'
+        ].join('\r\n')
+      )
+    );
+    assert.doesNotMatch(result.content, /<datafile>/);
+    assert.equal(result.filename, 'Test System - Datfile (2) (2024-01-01).dat');
+
+    const logiqx = filterDatByRegions(parsed, [], 'Test System - Datfile (2) (2024-01-01).xml');
+    assert.equal(logiqx.filename, 'Test System - Datfile (2) (2024-01-01).xml');
+  });
+
+  it('exports CSV and JSON game lists from the filtered games', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header><name>Test System</name><description>Test System - Datfile (2) (2024-01-01)</description><version>2024-01-01</version></header>
+  <game name="Racer, The (USA)"><category>Games</category><serial>SLUS-00001, SLUS-00002</serial><rom name="Racer (Track 1).bin" size="10" crc="AAAAAAAA" md5="bb" sha1="cc"/><rom name="Racer (Track 2).bin" size="32" crc="dddddddd"/></game>
+  <game name="Puzzle (Japan)"><category>Demos</category><rom name="Puzzle (Japan).bin" size="5" crc="eeeeeeee"/></game>
+</datafile>`);
+    const source = 'Test System - Datfile (2) (2024-01-01).xml';
+
+    const csv = filterDatByRegions(parsed, ['USA'], source, { outputFormat: 'csv' });
+    assert.equal(
+      csv.content,
+      [
+        'name,serials,regions,category,romCount,totalSize,crc,md5,sha1',
+        '"Racer, The (USA)","SLUS-00001, SLUS-00002",USA,Games,2,42,aaaaaaaa,bb,cc',
+        ''
+      ].join('\r\n')
+    );
+    assert.equal(csv.filename, 'Test System (USA) - Datfile (1) (2024-01-01).csv');
+
+    const json = filterDatByRegions(parsed, ['USA'], source, { outputFormat: 'json' });
+    const document = JSON.parse(json.content);
+    assert.deepEqual(document.summary, json.summary);
+    assert.deepEqual(document.games, [
+      {
+        name: 'Racer, The (USA)',
+        serials: ['SLUS-00001', 'SLUS-00002'],
+        regions: ['USA'],
+        category: 'Games',
+        romCount: 2,
+        totalSize: 42,
+        crc: 'aaaaaaaa',
+        md5: 'bb',
+        sha1: 'cc'
+      }
+    ]);
+    assert.equal(json.filename, 'Test System (USA) - Datfile (1) (2024-01-01).json');
+  });
+
+  it('parses ClrMamePro text DATs into the same shape as Logiqx XML', () => {
+    const parsed = parseDat(`clrmamepro (
+\tname "Test System"
+\tdescription "Test System - Datfile (3) (2024-01-01)"
+\tversion 2024-01-01
+)
+
+game (
+\tname "Racer (USA)"
+\tdescription "Racer (USA)"
+\tcategory Games
+\trom ( name "Racer (USA) (Track 1).bin" size 10 crc aaaaaaaa md5 bb sha1 cc )
+\trom ( name "Racer (USA) (Track 2).bin" size 20 crc dddddddd )
+)
+
+game (
+\tname "Epic (Japan) (Disc 1)"
+\trom ( name "Epic (Japan) (Disc 1).bin" size 1 crc eeeeeeee )
+)
+
+game (
+\tname "Epic (Japan) (Disc 2)"
+\trom ( name "Epic (Japan) (Disc 2).bin" size 1 crc ffffffff )
+)
+`);
+
+    assert.equal(parsed.header.name, 'Test System');
+    assert.equal(parsed.versionLabel, '2024-01-01');
+    assert.deepEqual(parsed.availableRegions, ['Japan', 'USA']);
+    assert.deepEqual(
+      parsed.games.map((game) => game.name),
+      ['Racer (USA)', 'Epic (Japan) (Disc 1)', 'Epic (Japan) (Disc 2)']
+    );
+    assert.equal(parsed.games[0].category, 'Games');
+    assert.deepEqual(parsed.games[0].roms[0].attributes, {
+      name: 'Racer (USA) (Track 1).bin',
+      size: '10',
+      crc: 'aaaaaaaa',
+      md5: 'bb',
+      sha1: 'cc'
+    });
+    assert.equal(parsed.games[0].roms.length, 2);
+    assert.equal(parsed.games[1].discSet?.total, 2);
+
+    const result = filterDatByRegions(parsed, ['USA'], 'Test System - Datfile (3) (2024-01-01).dat');
+    assert.match(result.content, /<rom name="Racer \(USA\) \(Track 2\).bin" size="20" crc="dddddddd"\/>/);
+
+    assert.throws(() => parseDat('clrmamepro ( name "Broken )'), /unterminated quoted string/);
+    assert.throws(() => parseDat('clrmamepro ( name Broken'), /unterminated block/);
+  });
+
+  it('renders header templates without changing the suggested filename', () => {
+    const parsed = parseDat(SAMPLE_DAT);
+    const baseFilename = 'Microsoft - Xbox - Datfile (4) (2025-11-07 05-38-55).dat';
+    const plain = previewFilter(parsed, ['USA'], baseFilename);
+    const result = filterDatByRegions(parsed, ['USA'], baseFilename, {
+      headerTemplate: {
+        name: '  ',
+        description: '{system} [{regions}] {count} games ({version}) {unknown}',
+        author: 'Our Team',
+        homepage: 'https://wiki.example.org/{descriptor}',
+        comment: 'Filtered to {regions} on {date}'
+      }
+    });
+
+    assert.equal(result.header.name, 'Microsoft - Xbox (USA)');
+    assert.equal(result.header.description, 'Microsoft - Xbox [USA] 1 games (2025-11-07 05-38-55) {unknown}');
+    assert.equal(result.header.author, 'Our Team');
+    assert.equal(result.header.homepage, 'https://wiki.example.org/Datfile');
+    assert.match(result.header.extra.comment, /^Filtered to USA on \d{4}-\d{2}-\d{2}$/);
+    assert.equal(result.filename, plain.filename);
+    assert.match(result.content, /<author>Our Team<\/author>/);
+    assert.match(
+      result.content,
+      /<header>\s*<name>[^]*<\/homepage>\s*<comment>Filtered to USA on [^<]*<\/comment>\s*<\/header>/
+    );
+
+    const clrmamepro = filterDatByRegions(parsed, ['USA'], baseFilename, {
+      outputFormat: 'clrmamepro',
+      headerTemplate: { comment: 'Filtered to {regions}' }
+    });
+    assert.match(clrmamepro.content, /\tcomment "Filtered to USA"\r\n\)/);
+  });
+
+  it('renders filename templates into sanitized relative paths', () => {
+    const parsed = parseDat(SAMPLE_DAT);
+    const baseFilename = 'Microsoft - Xbox - Datfile (4) (2025-11-07 05-38-55).dat';
+    const plain = previewFilter(parsed, ['USA'], baseFilename);
+
+    const templated = previewFilter(parsed, ['USA', 'Europe'], baseFilename, {
+      filenameTemplate: '{slug}/{system} [{regions}] {version}.dat',
+      systemSlug: 'xbox'
+    });
+    assert.equal(templated.filename, 'xbox/Microsoft - Xbox [USA, Europe] 2025-11-07 05-38-55.dat');
+
+    const localFile = previewFilter(parsed, ['USA'], baseFilename, {
+      filenameTemplate: '{slug}/../{default}',
+      outputFormat: 'csv'
+    });
+    assert.equal(localFile.filename, plain.filename.replace(/\.dat$/, '.csv'));
+
+    const tokens = {
+      default: 'Default',
+      slug: 'a/b',
+      system: 'Sys: Name',
+      regions: 'USA',
+      count: '1',
+      version: 'v1',
+      descriptor: 'Datfile',
+      date: '2026-01-01'
+    };
+    assert.equal(renderFilenameTemplate('{slug}/{system}. {unknown}', tokens), 'a b/Sys Name. {unknown}.dat');
+    assert.equal(renderFilenameTemplate('{system}.json', tokens, ['.xml', '.dat']), 'Sys Name.xml');
+    assert.equal(renderFilenameTemplate(' . / .. ', tokens), null);
+    const long = renderFilenameTemplate(`${'x'.repeat(300)}/${'y'.repeat(300)}`, tokens) ?? '';
+    assert.deepEqual(long.split('/').map((segment) => segment.length), [200, 200]);
+    assert.ok(long.endsWith('y.dat'));
+  });
+});
+
+describe('validateDat', () => {
+  it('reports header, name, ROM and hash problems with the game they belong to', () => {
+    const parsed = parseDat(`<?xml version="1.0"?>
+<datafile>
+  <header>
+    <name>Test System</name>
+    <description>Test System - Datfile (1) (2024-01-01)</description>
+    <version>2024-01-01</version>
+  </header>
+  <game name="Halo (USA)">
+    <rom name="Halo (USA).iso" size="10" crc="aaaaaaaa" md5="bb" sha1="cc"/>
+  </game>
+  <game name="Halo (USA)">
+    <rom name="Halo (USA) (Alt).iso" size="10" crc="aaaaaaaa" md5="bb" sha1="cc"/>
+  </game>
+  <game name="Racer: Turbo (Europe)">
+    <rom name="Racer: Turbo (Europe).iso" size="5" crc="dddddddd"/>
+  </game>
+  <game name="Demo Disc">
+    <rom name="Demo Disc.iso" size="0" crc="00000000" md5="ee" sha1="ff"/>
+  </game>
+  <game name="Demo Disc 2">
+    <rom name="Demo Disc 2.iso" size="0" crc="00000000" md5="ee" sha1="ff"/>
+  </game>
+</datafile>`);
+
+    const findings = validateDat(parsed);
+    assert.deepEqual(
+      findings.map((finding) => [finding.rule, finding.severity, finding.gameIndex ?? null]),
+      [
+        ['missingHeaderField', 'warning', null],
+        ['duplicateName', 'error', 1],
+        ['duplicateHash', 'warning', 1],
+        ['illegalName', 'error', 2],
+        ['illegalName', 'error', 2],
+        ['missingRomField', 'warning', 2],
+        ['missingRegion', 'info', 3],
+        ['missingRegion', 'info', 4]
+      ]
+    );
+    assert.match(findings[0].message, /<author>/);
+    assert.equal(findings[2].message, 'Shares 1 ROM hash with "Halo (USA)".');
+    assert.equal(findings[3].message, 'Game name contains ":".');
+    assert.equal(findings[5].message, 'ROM "Racer: Turbo (Europe).iso" has no md5, sha1.');
+    assert.equal(findings[6].gameName, 'Demo Disc');
   });
 });
@@ -60,12 +60,114 @@ const REGION_SYNONYMS = new Map<string, string>([
   ['united states', 'USA']
 ]);
 
-const DEFAULT_REGION = 'Unknown';
+const ISO_REGION_CODES = new Map<string, string>([
+  ['AU', 'Australia'],
+  ['BE', 'Belgium'],
+  ['BR', 'Brazil'],
+  ['CA', 'Canada'],
+  ['CH', 'Switzerland'],
+  ['CN', 'China'],
+  ['CZ', 'Czech Republic'],
+  ['DE', 'Germany'],
+  ['DK', 'Denmark'],
+  ['ES', 'Spain'],
+  ['EU', 'Europe'],
+  ['FI', 'Finland'],
+  ['FR', 'France'],
+  ['GB', 'United Kingdom'],
+  ['GR', 'Greece'],
+  ['HK', 'Hong Kong'],
+  ['IE', 'Ireland'],
+  ['IT', 'Italy'],
+  ['JP', 'Japan'],
+  ['KR', 'Korea'],
+  ['MX', 'Mexico'],
+  ['NL', 'Netherlands'],
+  ['NO', 'Norway'],
+  ['NZ', 'New Zealand'],
+  ['PL', 'Poland'],
+  ['PT', 'Portugal'],
+  ['RU', 'Russia'],
+  ['SE', 'Sweden'],
+  ['TW', 'Taiwan'],
+  ['US', 'USA'],
+  ['ZA', 'South Africa']
+]);
 
-const CANONICAL_REGIONS = new Set<string>([...new Set(REGION_SYNONYMS.values())]);
-CANONICAL_REGIONS.add(DEFAULT_REGION);
+const DEFAULT_REGION = 'Unknown';
 
-export const CANONICAL_REGION_LIST = Array.from(CANONICAL_REGIONS).sort((a, b) => a.localeCompare(b));
+/** Longest file or folder name a filename template may produce, extension included. */
+const MAX_FILENAME_SEGMENT_LENGTH = 200;
+
+const LOGIQX_REQUIRED_HEADER_FIELDS = ['name', 'description', 'version', 'author'] as const;
+const ROM_REQUIRED_FIELDS = ['size', 'crc', 'md5', 'sha1'];
+const WINDOWS_ILLEGAL_CHARACTERS = /[<>:"/\\|?*\u0000-\u001f]/g;
+const WINDOWS_RESERVED_NAMES = /^(?:con|prn|aux|nul|com[1-9]|lpt[1-9])(?:\..*)?$/i;
+const DEFAULT_LANGUAGE = 'Unknown';
+const DEFAULT_CATEGORY = 'Unknown';
+
+export const DEFAULT_REGION_PRIORITY = ['USA', 'World', 'Europe', 'Japan'];
+
+export const BUILT_IN_REGION_GROUPS: RegionGroup[] = [
+  {
+    name: 'PAL',
+    regions: [
+      'Europe',
+      'Australia',
+      'New Zealand',
+      'United Kingdom',
+      'Ireland',
+      'Germany',
+      'France',
+      'Spain',
+      'Portugal',
+      'Italy',
+      'Netherlands',
+      'Belgium',
+      'Switzerland',
+      'Denmark',
+      'Finland',
+      'Norway',
+      'Sweden',
+      'Poland',
+      'Czech Republic',
+      'Greece',
+      'Russia',
+      'South Africa'
+    ]
+  },
+  { name: 'NTSC-U', regions: ['USA', 'Canada', 'Mexico', 'Brazil', 'Latin America'] },
+  { name: 'NTSC-J', regions: ['Japan', 'Asia', 'Korea', 'Taiwan', 'Hong Kong'] },
+  { name: 'Asia-all', regions: ['Asia', 'Japan', 'Korea', 'China', 'Taiwan', 'Hong Kong'] }
+];
+
+const LANGUAGE_SEGMENT_PATTERN = /^[A-Z][a-z](?:-[A-Z][a-z]+)?(?:\s*[,+]\s*[A-Z][a-z](?:-[A-Z][a-z]+)?)*$/;
+
+const TAG_FAMILIES: Array<[RegExp, string]> = [
+  [/^beta\b/i, 'Beta'],
+  [/^proto(?:type)?\b/i, 'Proto'],
+  [/^demo\b/i, 'Demo'],
+  [/^kiosk\b/i, 'Kiosk'],
+  [/^sample\b/i, 'Sample'],
+  [/^unl(?:icensed)?\b/i, 'Unl'],
+  [/^alt\b/i, 'Alt'],
+  [/^rev\b/i, 'Rev'],
+  [/^disc\b/i, 'Disc'],
+  [/^promo\b/i, 'Promo'],
+  [/^debug\b/i, 'Debug'],
+  [/^pirate\b/i, 'Pirate'],
+  [/^v(?=\d)/i, 'Version']
+];
+
+const REVISION_TAG_KEYS = new Set(['Rev', 'Version']);
+
+const DEFAULT_REGION_TABLE = createRegionTable();
+
+export const CANONICAL_REGION_LIST = canonicalRegionList();
+
+const CLRMAMEPRO_SNIFF_PATTERN = /^\uFEFF?\s*(?:clrmamepro|game|machine|resource)\s*\(/i;
+const CLRMAMEPRO_GAME_BLOCKS = new Set(['game', 'machine', 'resource']);
+const CLRMAMEPRO_GAME_ATTRIBUTES = new Set(['name', 'cloneof', 'romof', 'sampleof']);
 
 const xmlParser = new XMLParser({
   ignoreAttributes: false,
@@ -87,6 +189,9 @@ const xmlBuilder = new XMLBuilder({
 type RawValue = string | number | boolean | null | undefined;
 type RawRecord = Record<string, any>;
 
+type ClrMameProToken = '(' | ')' | { text: string };
+type ClrMameProEntry = [string, string | ClrMameProEntry[]];
+
 export interface DatHeader {
   name: string;
   description?: string;
@@ -102,100 +207,632 @@ export interface DatRom {
   attributes: Record<string, string>;
 }
 
+export interface DatTag {
+  key: string;
+  label: string;
+  value?: string;
+}
+
+export interface DiscSet {
+  key: string;
+  disc: number;
+  total: number;
+}
+
+export type DatGameElement = 'game' | 'machine';
+
 export interface DatGame {
   name: string;
+  element: DatGameElement;
   description?: string;
   category?: string;
+  /** Serials from the `<serial>` element of Serial/Version DATs, e.g. `SLUS-00001`. */
+  serials: string[];
+  version?: string;
   roms: DatRom[];
+  /** Sum of the ROM `size` attributes in bytes; missing or invalid sizes count as 0. */
+  totalSize: number;
   regions: string[];
+  languages: string[];
+  tags: DatTag[];
+  discSet?: DiscSet;
   raw: RawRecord;
 }
 
+export interface DatIndex {
+  /** Game indices per effective region, language, tag key and category. */
+  regions: Map<string, number[]>;
+  languages: Map<string, number[]>;
+  tags: Map<string, number[]>;
+  categories: Map<string, number[]>;
+  /** Game indices per upper-case serial prefix, such as `SLUS`. */
+  serialPrefixes: Map<string, number[]>;
+  /** Disc-set units as game indices, in DAT order. */
+  units: number[][];
+}
+
 export interface ParsedDat {
   header: DatHeader;
   games: DatGame[];
+  index: DatIndex;
   availableRegions: string[];
+  availableLanguages: string[];
+  availableTags: string[];
+  availableCategories: string[];
+  availableSerialPrefixes: string[];
   descriptor: string;
   normalizedDescriptor: string;
   versionLabel?: string;
   rawRootExtras: Record<string, unknown>;
+  regionTable: RegionTable;
+}
+
+export type RegionMatchMode = 'any' | 'all' | 'exclusive';
+
+/** User additions to the built-in region synonyms, applied when a DAT is parsed. */
+export interface RegionOverrides {
+  /** Region token (matched case-insensitively) mapped to the canonical region it stands for. */
+  synonyms: Record<string, string>;
+  /** Extra canonical regions, recognized by name even without a synonym. */
+  regions: string[];
+}
+
+/** Named set of regions that can be toggled together and is printed by name in region labels. */
+export interface RegionGroup {
+  name: string;
+  regions: string[];
+}
+
+/** Token lookup and canonical set a DAT was parsed with; filtering reuses it. */
+export interface RegionTable {
+  synonyms: Map<string, string>;
+  canonical: Set<string>;
+}
+
+export type DatExportMode = 'flat' | 'parentClone';
+
+export type DatOutputFormat = 'logiqx' | 'clrmamepro' | 'csv' | 'json';
+
+export const HEADER_TEMPLATE_FIELDS = [
+  'name',
+  'description',
+  'version',
+  'date',
+  'author',
+  'homepage',
+  'url',
+  'comment'
+] as const;
+
+export type HeaderTemplateField = (typeof HEADER_TEMPLATE_FIELDS)[number];
+
+/** Per-field header templates; blank or missing fields keep the default header value. */
+export type DatHeaderTemplate = Partial<Record<HeaderTemplateField, string>>;
+
+export const HEADER_TEMPLATE_TOKENS = ['system', 'regions', 'count', 'version', 'descriptor', 'date'] as const;
+
+export type HeaderTemplateTokens = Record<(typeof HEADER_TEMPLATE_TOKENS)[number], string>;
+
+export const FILENAME_TEMPLATE_TOKENS = [
+  'default',
+  'slug',
+  'system',
+  'regions',
+  'count',
+  'version',
+  'descriptor',
+  'date'
+] as const;
+
+export type FilenameTemplateTokens = Record<(typeof FILENAME_TEMPLATE_TOKENS)[number], string>;
+
+export interface FilterOptions {
+  matchMode?: RegionMatchMode;
+  excludedRegions?: string[];
+  oneGameOneRom?: boolean;
+  regionPriority?: string[];
+  languages?: string[];
+  categories?: string[];
+  includeTags?: string[];
+  excludeTags?: string[];
+  latestRevisionOnly?: boolean;
+  includeTitles?: string[];
+  excludeTitles?: string[];
+  exportMode?: DatExportMode;
+  outputFormat?: DatOutputFormat;
+  headerTemplate?: DatHeaderTemplate;
+  /** Relative output path with `{token}` placeholders; `/` separates subfolders. */
+  filenameTemplate?: string;
+  /** Redump system slug for the `{slug}` filename token. */
+  systemSlug?: string;
+  /** User-defined region groups, used next to the built-in ones when labelling the selection. */
+  regionGroups?: RegionGroup[];
+  /** Keeps games with a serial starting with one of these prefixes, e.g. `SLUS`. */
+  serialPrefixes?: string[];
+  /** Case-insensitive regular expression at least one serial of a game must match. */
+  serialPattern?: string;
+  /** Size bounds in bytes; multi-disc sets are measured as a whole. */
+  minSize?: number;
+  maxSize?: number;
 }
 
 export interface FilterSummary {
   initialGames: number;
   filteredGames: number;
   removedGames: number;
+  collapsedGames: number;
+  supersededRevisions: number;
+  multiDiscSets: number;
+  multiDiscGames: number;
+  titleIncludedGames: number;
+  titleExcludedGames: number;
+  sizeExcludedGames: number;
+  /** Total ROM size in bytes of the source and of the filtered games. */
+  initialSize: number;
+  filteredSize: number;
+  exportMode: DatExportMode;
+  cloneGames: number;
   selectedRegions: string[];
+  excludedRegions: string[];
+  matchMode: RegionMatchMode;
+  selectedLanguages: string[];
+  selectedCategories: string[];
+  selectedSerialPrefixes: string[];
+  serialPattern?: string;
+  includedTags: string[];
+  excludedTags: string[];
+  tagExclusionCounts: Record<string, number>;
   regionLabel: string;
   descriptor: string;
   normalizedDescriptor: string;
   versionLabel?: string;
 }
 
-export interface FilteredDatResult {
-  xml: string;
+export interface GameListRow {
+  name: string;
+  serials: string[];
+  regions: string[];
+  category: string | null;
+  romCount: number;
+  totalSize: number;
+  crc: string | null;
+  md5: string | null;
+  sha1: string | null;
+}
+
+export interface FilterPreview {
   filename: string;
   header: DatHeader;
   games: DatGame[];
   summary: FilterSummary;
 }
 
-export function parseDat(xmlInput: string): ParsedDat {
+export interface FilteredDatResult extends FilterPreview {
+  /** The filtered DAT or game list, serialized in `outputFormat`. */
+  content: string;
+  outputFormat: DatOutputFormat;
+}
+
+export type DatDiffKind = 'added' | 'removed' | 'renamed' | 'rehashed';
+
+export interface DatDiffEntry {
+  kind: DatDiffKind;
+  name: string;
+  previousName?: string;
+  /** Serials of the game in the newer DAT, or in the older one for removed games. */
+  serials: string[];
+}
+
+export interface MergeOptions extends FilterOptions {
+  name?: string;
+}
+
+export interface DatDiff {
+  added: DatDiffEntry[];
+  removed: DatDiffEntry[];
+  renamed: DatDiffEntry[];
+  rehashed: DatDiffEntry[];
+  unchanged: number;
+}
+
+export type DatValidationSeverity = 'error' | 'warning' | 'info';
+
+export type DatValidationRule =
+  | 'missingHeaderField'
+  | 'duplicateName'
+  | 'illegalName'
+  | 'missingRegion'
+  | 'missingRomField'
+  | 'duplicateHash';
+
+export interface DatValidationFinding {
+  rule: DatValidationRule;
+  severity: DatValidationSeverity;
+  message: string;
+  /** Index into `ParsedDat.games`; header findings have none. */
+  gameIndex?: number;
+  gameName?: string;
+}
+
+export type ParseProgressCallback = (processed: number, total: number) => void;
+
+export function parseDat(
+  xmlInput: string,
+  onProgress?: ParseProgressCallback,
+  regionOverrides?: RegionOverrides
+): ParsedDat {
+  const regions = regionOverrides ? createRegionTable(regionOverrides) : DEFAULT_REGION_TABLE;
+  if (CLRMAMEPRO_SNIFF_PATTERN.test(xmlInput)) {
+    return parseClrMameProDat(xmlInput, regions, onProgress);
+  }
+
   const parsed = xmlParser.parse(xmlInput);
   if (!parsed?.datafile) {
     throw new Error('Invalid DAT: missing <datafile> root node.');
   }
 
-  const { header: rawHeader = {}, game: rawGame = [], ...rootExtras } = parsed.datafile as RawRecord;
+  const {
+    header: rawHeader = {},
+    game: rawGame = [],
+    machine: rawMachine = [],
+    ...rootExtras
+  } = parsed.datafile as RawRecord;
 
   const header = normalizeHeader(rawHeader);
-  const versionLabel = header.version ?? header.date;
 
-  const gamesArray = toArray(rawGame).map((entry) => normalizeGame(entry));
+  const rawEntries = orderRawEntries(xmlInput, toArray(rawGame), toArray(rawMachine));
+  const gamesArray = rawEntries.map(([entry, element], index) => {
+    const game = normalizeGame(entry, element, regions);
+    onProgress?.(index + 1, rawEntries.length);
+    return game;
+  });
+  assignDiscSetTotals(gamesArray);
 
-  const availableRegionSet = new Set<string>();
-  for (const game of gamesArray) {
-    if (game.regions.length === 0) {
-      availableRegionSet.add(DEFAULT_REGION);
+  return buildParsedDat(header, gamesArray, rootExtras, regions);
+}
+
+/**
+ * The XML parser groups `<game>` and `<machine>` entries by element, so a DAT that mixes them is
+ * put back in source order from a scan of the opening tags.
+ */
+function orderRawEntries(
+  xmlInput: string,
+  games: RawRecord[],
+  machines: RawRecord[]
+): Array<[RawRecord, DatGameElement]> {
+  const queues: Record<DatGameElement, RawRecord[]> = { game: games, machine: machines };
+  const taken: Record<DatGameElement, number> = { game: 0, machine: 0 };
+  const entries: Array<[RawRecord, DatGameElement]> = [];
+  if (games.length > 0 && machines.length > 0) {
+    for (const element of scanEntryElements(xmlInput)) {
+      if (taken[element] < queues[element].length) {
+        entries.push([queues[element][taken[element]++], element]);
+      }
+    }
+  }
+  // Entries the scan missed keep their order within their element.
+  (['game', 'machine'] as const).forEach((element) => {
+    queues[element].slice(taken[element]).forEach((entry) => entries.push([entry, element]));
+  });
+  return entries;
+}
+
+function scanEntryElements(xmlInput: string): DatGameElement[] {
+  const elements: DatGameElement[] = [];
+  const pattern = /<(game|machine)(?=[\s/>])[^>]*>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xmlInput))) {
+    const element = match[1] as DatGameElement;
+    elements.push(element);
+    if (!match[0].endsWith('/>')) {
+      const close = xmlInput.indexOf(`</${element}>`, pattern.lastIndex);
+      if (close === -1) {
+        break;
+      }
+      pattern.lastIndex = close;
+    }
+  }
+  return elements;
+}
+
+function parseClrMameProDat(input: string, regions: RegionTable, onProgress?: ParseProgressCallback): ParsedDat {
+  const entries = parseClrMameProBlock(tokenizeClrMamePro(input), { index: 0 }, false);
+  let rawHeader: RawRecord = {};
+  const gamesArray: DatGame[] = [];
+  entries.forEach(([key, value], index) => {
+    if (key === 'clrmamepro' && typeof value !== 'string') {
+      rawHeader = Object.fromEntries(value.filter((entry) => typeof entry[1] === 'string'));
+    } else if (CLRMAMEPRO_GAME_BLOCKS.has(key) && typeof value !== 'string') {
+      const element = key === 'machine' ? 'machine' : 'game';
+      gamesArray.push(normalizeGame(clrMameProGameToRaw(value), element, regions));
+    }
+    onProgress?.(index + 1, entries.length);
+  });
+  assignDiscSetTotals(gamesArray);
+
+  return buildParsedDat(normalizeHeader(rawHeader), gamesArray, {}, regions);
+}
+
+function tokenizeClrMamePro(input: string): ClrMameProToken[] {
+  const tokens: ClrMameProToken[] = [];
+  const pattern = /\s*(?:"([^"]*)"|([()])|([^\s()"]+))/y;
+  while (pattern.lastIndex < input.length) {
+    const start = pattern.lastIndex;
+    const match = pattern.exec(input);
+    if (!match) {
+      if (input.slice(start).trim()) {
+        throw new Error('Invalid ClrMamePro DAT: unterminated quoted string.');
+      }
+      break;
+    }
+    if (match[2]) {
+      tokens.push(match[2] as '(' | ')');
     } else {
-      game.regions.forEach((region) => availableRegionSet.add(region));
+      tokens.push({ text: match[1] ?? match[3] });
     }
   }
+  return tokens;
+}
+
+function parseClrMameProBlock(
+  tokens: ClrMameProToken[],
+  cursor: { index: number },
+  nested: boolean
+): ClrMameProEntry[] {
+  const entries: ClrMameProEntry[] = [];
+  while (cursor.index < tokens.length) {
+    const keyToken = tokens[cursor.index];
+    if (keyToken === ')' && nested) {
+      cursor.index += 1;
+      return entries;
+    }
+    if (typeof keyToken === 'string') {
+      throw new Error('Invalid ClrMamePro DAT: unexpected parenthesis.');
+    }
+    const key = keyToken.text;
+    cursor.index += 1;
+    const valueToken = tokens[cursor.index];
+    if (valueToken === '(') {
+      cursor.index += 1;
+      entries.push([key, parseClrMameProBlock(tokens, cursor, true)]);
+    } else if (valueToken !== undefined && valueToken !== ')') {
+      entries.push([key, valueToken.text]);
+      cursor.index += 1;
+    } else {
+      throw new Error(`Invalid ClrMamePro DAT: missing value for "${key}".`);
+    }
+  }
+  if (nested) {
+    throw new Error('Invalid ClrMamePro DAT: unterminated block.');
+  }
+  return entries;
+}
+
+function clrMameProGameToRaw(entries: ClrMameProEntry[]): RawRecord {
+  const raw: RawRecord = {};
+  const appendChild = (key: string, value: RawValue | RawRecord) => {
+    raw[key] = key in raw ? [...toArray(raw[key]), value] : value;
+  };
+  for (const [key, value] of entries) {
+    if (typeof value !== 'string') {
+      appendChild(
+        key,
+        Object.fromEntries(
+          value.filter((entry) => typeof entry[1] === 'string').map(([field, text]) => [`@_${field}`, text])
+        )
+      );
+    } else if (CLRMAMEPRO_GAME_ATTRIBUTES.has(key)) {
+      raw[`@_${key}`] = value;
+    } else {
+      appendChild(key, value);
+    }
+  }
+  return raw;
+}
+
+function assignDiscSetTotals(games: DatGame[]): void {
+  for (const unit of groupDiscSets(games)) {
+    unit.forEach((gameIndex) => {
+      const { discSet } = games[gameIndex];
+      if (discSet) {
+        discSet.total = unit.length;
+      }
+    });
+  }
+}
+
+function buildParsedDat(
+  header: DatHeader,
+  gamesArray: DatGame[],
+  rawRootExtras: Record<string, unknown>,
+  regionTable: RegionTable
+): ParsedDat {
+  const versionLabel = header.version ?? header.date;
+  const index = buildDatIndex(gamesArray);
 
   const { originalDescriptor, normalizedDescriptor } = deriveDescriptors(header, gamesArray.length);
 
-  const availableRegions = Array.from(availableRegionSet).sort((a, b) => a.localeCompare(b));
+  const sortedKeys = (entries: Map<string, number[]>) =>
+    Array.from(entries.keys()).sort((a, b) => a.localeCompare(b));
+  const availableRegions = sortedKeys(index.regions);
+  const availableLanguages = sortedKeys(index.languages);
+  const availableTags = sortedKeys(index.tags);
+  const availableCategories = sortedKeys(index.categories);
+  const availableSerialPrefixes = sortedKeys(index.serialPrefixes);
 
   return {
     header,
     games: gamesArray,
+    index,
     availableRegions,
+    availableLanguages,
+    availableTags,
+    availableCategories,
+    availableSerialPrefixes,
     descriptor: originalDescriptor,
     normalizedDescriptor,
     versionLabel,
-    rawRootExtras: rootExtras
+    rawRootExtras,
+    regionTable
+  };
+}
+
+function buildDatIndex(games: DatGame[]): DatIndex {
+  const index: DatIndex = {
+    regions: new Map(),
+    languages: new Map(),
+    tags: new Map(),
+    categories: new Map(),
+    serialPrefixes: new Map(),
+    units: groupDiscSets(games)
+  };
+  const add = (entries: Map<string, number[]>, key: string, gameIndex: number) => {
+    const list = entries.get(key);
+    if (list) {
+      list.push(gameIndex);
+    } else {
+      entries.set(key, [gameIndex]);
+    }
   };
+  games.forEach((game, gameIndex) => {
+    effectiveRegions(game).forEach((region) => add(index.regions, region, gameIndex));
+    effectiveLanguages(game).forEach((language) => add(index.languages, language, gameIndex));
+    new Set(game.tags.map((tag) => tag.key)).forEach((key) => add(index.tags, key, gameIndex));
+    add(index.categories, effectiveCategory(game), gameIndex);
+    new Set(game.serials.map(serialPrefix).filter((prefix) => prefix !== null)).forEach((prefix) =>
+      add(index.serialPrefixes, prefix, gameIndex)
+    );
+  });
+  return index;
+}
+
+function lookupIndex(entries: Map<string, number[]>, keys: Iterable<string>): Set<number> {
+  const result = new Set<number>();
+  for (const key of keys) {
+    entries.get(key)?.forEach((gameIndex) => result.add(gameIndex));
+  }
+  return result;
+}
+
+function matchRegionIndex(index: DatIndex, selection: string[], matchMode: RegionMatchMode): Set<number> | null {
+  if (selection.length === 0) {
+    return null;
+  }
+  if (matchMode === 'all') {
+    const [first, ...rest] = selection.map((region) => new Set(index.regions.get(region)));
+    return new Set(Array.from(first).filter((gameIndex) => rest.every((matches) => matches.has(gameIndex))));
+  }
+  const matches = lookupIndex(index.regions, selection);
+  if (matchMode === 'exclusive') {
+    const others = Array.from(index.regions.keys()).filter((region) => !selection.includes(region));
+    lookupIndex(index.regions, others).forEach((gameIndex) => matches.delete(gameIndex));
+  }
+  return matches;
 }
 
 export function filterDatByRegions(
   parsed: ParsedDat,
   selectedRegions: string[],
-  baseFilename?: string
+  baseFilename?: string,
+  options: FilterOptions = {}
 ): FilteredDatResult {
-  const canonicalSelections = Array.from(
-    new Set(
-      (selectedRegions ?? [])
-        .map((value) => normalizeRegionToken(value) ?? value)
-        .filter((value): value is string => !!value)
-    )
+  const { parents, ...preview } = selectFilteredDat(parsed, selectedRegions, baseFilename, options);
+  const outputFormat = options.outputFormat ?? 'logiqx';
+  const content = OUTPUT_WRITERS[outputFormat].write(
+    preview.header,
+    preview.games,
+    parents,
+    parsed.rawRootExtras,
+    preview.summary
   );
+  return { content, outputFormat, ...preview };
+}
 
-  const normalizedSelection = new Set(canonicalSelections);
-  const selectionActive = normalizedSelection.size > 0;
+/** Computes the filtered header, filename and summary without serializing the output. */
+export function previewFilter(
+  parsed: ParsedDat,
+  selectedRegions: string[],
+  baseFilename?: string,
+  options: FilterOptions = {}
+): FilterPreview {
+  const { filename, header, games, summary } = selectFilteredDat(parsed, selectedRegions, baseFilename, options);
+  return { filename, header, games, summary };
+}
 
-  const games = selectionActive
-    ? parsed.games.filter((game) => game.regions.some((region) => normalizedSelection.has(region)))
-    : parsed.games.slice();
+function selectFilteredDat(
+  parsed: ParsedDat,
+  selectedRegions: string[],
+  baseFilename: string | undefined,
+  options: FilterOptions
+): FilterPreview & { parents: Map<DatGame, string> } {
+  const { regionTable } = parsed;
+  const canonicalSelections = canonicalizeRegions(selectedRegions, regionTable);
+
+  const matchMode = options.matchMode ?? 'any';
+  const excludedRegions = canonicalizeRegions(options.excludedRegions, regionTable).filter(
+    (region) => !canonicalSelections.includes(region)
+  );
+
+  const selectedLanguages = Array.from(new Set((options.languages ?? []).filter(Boolean)));
+  const selectedCategories = Array.from(new Set((options.categories ?? []).filter(Boolean)));
+  const selectedSerialPrefixes = Array.from(
+    new Set((options.serialPrefixes ?? []).map((prefix) => prefix.trim().toUpperCase()).filter(Boolean))
+  );
+  const serialPattern = options.serialPattern?.trim() || undefined;
+  // An invalid serial pattern throws rather than filtering without it.
+  const serialMatcher = serialPattern ? new RegExp(serialPattern, 'i') : null;
+
+  const { index } = parsed;
+  const regionMatches = matchRegionIndex(index, canonicalSelections, matchMode);
+  const excludedMatches = lookupIndex(index.regions, excludedRegions);
+  const languageMatches = selectedLanguages.length > 0 ? lookupIndex(index.languages, selectedLanguages) : null;
+  const categoryMatches = selectedCategories.length > 0 ? lookupIndex(index.categories, selectedCategories) : null;
+  const serialPrefixMatches =
+    selectedSerialPrefixes.length > 0 ? lookupIndex(index.serialPrefixes, selectedSerialPrefixes) : null;
+  const unitMatches = (unit: number[], matches: Set<number> | null) =>
+    matches === null || unit.some((gameIndex) => matches.has(gameIndex));
+
+  const units = index.units.map((unit) => unit.map((gameIndex) => parsed.games[gameIndex]));
+  const selectionMatches = units.filter((_unit, position) => {
+    const unit = index.units[position];
+    return (
+      unitMatches(unit, regionMatches) &&
+      !unitMatches(unit, excludedMatches) &&
+      unitMatches(unit, languageMatches) &&
+      unitMatches(unit, categoryMatches) &&
+      unitMatches(unit, serialPrefixMatches) &&
+      (serialMatcher === null ||
+        unit.some((gameIndex) => parsed.games[gameIndex].serials.some((serial) => serialMatcher.test(serial))))
+    );
+  });
+
+  const includedTags = Array.from(new Set((options.includeTags ?? []).filter(Boolean)));
+  const excludedTags = Array.from(new Set((options.excludeTags ?? []).filter(Boolean)));
+  const { units: tagMatches, exclusionCounts: tagExclusionCounts } = filterByTags(
+    selectionMatches,
+    includedTags,
+    excludedTags
+  );
+
+  const includeTitleMatchers = compileTitlePatterns(options.includeTitles);
+  const excludeTitleMatchers = compileTitlePatterns(options.excludeTitles);
+  const tagMatchSet = new Set(tagMatches);
+  const titleIncludes = units.filter(
+    (unit) => !tagMatchSet.has(unit) && unitMatchesTitle(unit, includeTitleMatchers)
+  );
+  const titleIncludeSet = new Set(titleIncludes);
+  const titlePool = units.filter((unit) => tagMatchSet.has(unit) || titleIncludeSet.has(unit));
+  const titleMatches = titlePool.filter((unit) => !unitMatchesTitle(unit, excludeTitleMatchers));
+  const sizeMatches = titleMatches.filter((unit) => unitWithinSize(unit, options.minSize, options.maxSize));
+
+  const regionPriority = canonicalizeRegions(options.regionPriority ?? DEFAULT_REGION_PRIORITY, regionTable);
+  const revisionMatches = options.latestRevisionOnly ? keepLatestRevisions(sizeMatches, regionTable) : sizeMatches;
+  const keptUnits = options.oneGameOneRom
+    ? collapseToOneGamePerTitle(revisionMatches, regionPriority, regionTable)
+    : revisionMatches;
+  const keptGames = new Set(keptUnits.flat());
+  const games = parsed.games.filter((game) => keptGames.has(game));
+  const multiDiscUnits = keptUnits.filter((unit) => unit.length > 1);
 
   if (games.length === 0) {
     throw new Error('No games match the selected region filters.');
@@ -205,58 +842,538 @@ export function filterDatByRegions(
   const descriptorNormalized =
     parsed.normalizedDescriptor || normalizeDescriptorLabel(descriptorOriginal);
 
-  const header = buildFilteredHeader(
+  const regionGroups = resolveRegionGroups(parsed.availableRegions, options.regionGroups);
+  const regionLabel = createRegionLabel(canonicalSelections, matchMode, excludedRegions, regionGroups);
+  const defaultHeader = buildFilteredHeader(
     parsed.header,
     games.length,
-    canonicalSelections,
+    regionLabel,
     descriptorOriginal,
     parsed.versionLabel
   );
+  const header = applyHeaderTemplate(defaultHeader, options.headerTemplate, {
+    system: parsed.header.name,
+    regions: regionLabel,
+    count: String(games.length),
+    version: resolveHeaderVersion(parsed.header, parsed.versionLabel),
+    descriptor: descriptorOriginal,
+    date: todayIsoDate()
+  });
 
-  const filteredDatafile = {
-    ...parsed.rawRootExtras,
-    header: headerToXmlNode(header),
-    game: games.map((game) => cloneDeep(game.raw))
-  };
-
-  const xmlContent = xmlBuilder.build({ datafile: filteredDatafile });
-  let xml = [XML_DECLARATION, DATAFILE_DOCTYPE, xmlContent].join('\n');
-  xml = xml.replace(/&apos;/g, "'");
-  xml = xml.replace(/\r?\n/g, '\r\n');
-
-  const filename = deriveFilteredFilename(
-    baseFilename,
-    header.description,
-    header.name,
-    descriptorNormalized,
-    games.length,
-    parsed.versionLabel
-  );
+  const exportMode = options.exportMode ?? 'flat';
+  const parents =
+    exportMode === 'parentClone' ? assignParents(games, regionPriority, regionTable) : new Map<DatGame, string>();
 
   const summary: FilterSummary = {
     initialGames: parsed.games.length,
     filteredGames: games.length,
     removedGames: parsed.games.length - games.length,
+    collapsedGames: countGames(revisionMatches) - games.length,
+    supersededRevisions: countGames(sizeMatches) - countGames(revisionMatches),
+    multiDiscSets: multiDiscUnits.length,
+    multiDiscGames: countGames(multiDiscUnits),
+    titleIncludedGames: countGames(titleIncludes),
+    titleExcludedGames: countGames(titlePool) - countGames(titleMatches),
+    sizeExcludedGames: countGames(titleMatches) - countGames(sizeMatches),
+    initialSize: sumGameSizes(parsed.games),
+    filteredSize: sumGameSizes(games),
+    exportMode,
+    cloneGames: parents.size,
     selectedRegions: canonicalSelections,
-    regionLabel: createRegionLabel(canonicalSelections),
+    excludedRegions,
+    matchMode,
+    selectedLanguages,
+    selectedCategories,
+    selectedSerialPrefixes,
+    ...(serialPattern && { serialPattern }),
+    includedTags,
+    excludedTags,
+    tagExclusionCounts,
+    regionLabel,
     descriptor: descriptorOriginal,
     normalizedDescriptor: descriptorNormalized,
     versionLabel: parsed.versionLabel
   };
 
+  const extensions = OUTPUT_WRITERS[options.outputFormat ?? 'logiqx'].extensions;
+  const defaultFilename = deriveFilteredFilename(
+    baseFilename,
+    defaultHeader.description,
+    defaultHeader.name,
+    descriptorNormalized,
+    games.length,
+    parsed.versionLabel,
+    extensions
+  );
+  const filenameTemplate = options.filenameTemplate?.trim();
+  const filename =
+    (filenameTemplate &&
+      renderFilenameTemplate(
+        filenameTemplate,
+        {
+          default: defaultFilename.replace(/\.[^.]+$/, ''),
+          slug: options.systemSlug ?? '',
+          system: parsed.header.name,
+          regions: regionLabel,
+          count: String(games.length),
+          version: resolveHeaderVersion(parsed.header, parsed.versionLabel),
+          descriptor: descriptorNormalized,
+          date: todayIsoDate()
+        },
+        extensions
+      )) ||
+    defaultFilename;
+
   return {
-    xml,
     filename,
     header,
     games,
-    summary
+    summary,
+    parents
+  };
+}
+
+export function mergeDats(
+  dats: ParsedDat[],
+  selectedRegions: string[],
+  options: MergeOptions = {}
+): FilteredDatResult {
+  if (dats.length === 0) {
+    throw new Error('Choose at least one DAT to merge.');
+  }
+
+  const seenSignatures = new Set<string>();
+  const games: DatGame[] = [];
+  dats.forEach((dat, index) => {
+    dat.games.forEach((game) => {
+      const signature = romHashSignature(game);
+      if (signature && seenSignatures.has(signature)) {
+        return;
+      }
+      if (signature) {
+        seenSignatures.add(signature);
+      }
+      // Keep disc sets from different systems apart even when their titles match.
+      games.push(
+        game.discSet ? { ...game, discSet: { ...game.discSet, key: `${index}:${game.discSet.key}` } } : game
+      );
+    });
+  });
+
+  const name = options.name?.trim() || dats.map((dat) => dat.header.name).join(' + ');
+  const versionLabels = dats.map((dat) => dat.versionLabel).filter((label): label is string => Boolean(label));
+  const version = versionLabels.sort().pop() ?? new Date().toISOString().split('T')[0];
+  const authors = Array.from(new Set(dats.map((dat) => dat.header.author).filter(Boolean)));
+  const header: DatHeader = {
+    name,
+    description: `${name} - Datfile (${games.length}) (${version})`,
+    version,
+    author: authors.length > 0 ? authors.join(', ') : undefined,
+    extra: {}
   };
+
+  return filterDatByRegions(
+    buildParsedDat(header, games, {}, dats[0].regionTable),
+    selectedRegions,
+    undefined,
+    options
+  );
 }
 
 export function getAvailableRegions(parsed: ParsedDat): string[] {
   return parsed.availableRegions;
 }
 
+export function getAvailableLanguages(parsed: ParsedDat): string[] {
+  return parsed.availableLanguages;
+}
+
+export function getAvailableCategories(parsed: ParsedDat): string[] {
+  return parsed.availableCategories;
+}
+
+export function getAvailableSerialPrefixes(parsed: ParsedDat): string[] {
+  return parsed.availableSerialPrefixes;
+}
+
+export function getAvailableTags(parsed: ParsedDat): string[] {
+  return parsed.availableTags;
+}
+
+export function diffDats(a: ParsedDat, b: ParsedDat): DatDiff {
+  const diff: DatDiff = { added: [], removed: [], renamed: [], rehashed: [], unchanged: 0 };
+  const previousByName = new Map<string, DatGame>();
+  a.games.forEach((game) => {
+    if (!previousByName.has(game.name)) {
+      previousByName.set(game.name, game);
+    }
+  });
+
+  const matched = new Set<DatGame>();
+  const unmatchedNext: DatGame[] = [];
+  b.games.forEach((game) => {
+    const previous = previousByName.get(game.name);
+    if (!previous || matched.has(previous)) {
+      unmatchedNext.push(game);
+      return;
+    }
+    matched.add(previous);
+    if (romHashSignature(previous) === romHashSignature(game)) {
+      diff.unchanged += 1;
+    } else {
+      diff.rehashed.push({ kind: 'rehashed', name: game.name, serials: game.serials });
+    }
+  });
+
+  const previousBySignature = new Map<string, DatGame[]>();
+  a.games.forEach((game) => {
+    const signature = romHashSignature(game);
+    if (matched.has(game) || !signature) {
+      return;
+    }
+    const bucket = previousBySignature.get(signature) ?? [];
+    bucket.push(game);
+    previousBySignature.set(signature, bucket);
+  });
+
+  unmatchedNext.forEach((game) => {
+    const previous = previousBySignature.get(romHashSignature(game))?.shift();
+    if (previous) {
+      matched.add(previous);
+      diff.renamed.push({ kind: 'renamed', name: game.name, previousName: previous.name, serials: game.serials });
+    } else {
+      diff.added.push({ kind: 'added', name: game.name, serials: game.serials });
+    }
+  });
+
+  a.games.forEach((game) => {
+    if (!matched.has(game)) {
+      diff.removed.push({ kind: 'removed', name: game.name, serials: game.serials });
+    }
+  });
+
+  return diff;
+}
+
+export function validateDat(parsed: ParsedDat): DatValidationFinding[] {
+  const findings: DatValidationFinding[] = [];
+  LOGIQX_REQUIRED_HEADER_FIELDS.forEach((field) => {
+    if (!parsed.header[field]?.trim()) {
+      findings.push({
+        rule: 'missingHeaderField',
+        severity: 'warning',
+        message: `Header has no <${field}>, which the Logiqx DTD requires.`
+      });
+    }
+  });
+
+  const firstByName = new Map<string, number>();
+  const firstByHash = new Map<string, number>();
+  parsed.games.forEach((game, gameIndex) => {
+    const report = (rule: DatValidationRule, severity: DatValidationSeverity, message: string) =>
+      findings.push({ rule, severity, message, gameIndex, gameName: game.name });
+
+    const firstIndex = firstByName.get(game.name);
+    if (firstIndex === undefined) {
+      firstByName.set(game.name, gameIndex);
+    } else {
+      report('duplicateName', 'error', `Game name is already used by entry ${firstIndex + 1}.`);
+    }
+
+    const nameProblems = windowsNameProblems(game.name);
+    if (nameProblems.length > 0) {
+      report('illegalName', 'error', `Game name ${joinProblems(nameProblems)}.`);
+    }
+
+    if (game.regions.length === 0) {
+      report('missingRegion', 'info', `Game name has no region, so it is filtered as ${DEFAULT_REGION}.`);
+    }
+
+    const sharedHashes = new Map<number, number>();
+    game.roms.forEach((rom, romIndex) => {
+      const romName = rom.attributes.name || `#${romIndex + 1}`;
+      const romProblems = romName.split(/[\\/]/).flatMap(windowsNameProblems);
+      if (romProblems.length > 0) {
+        report('illegalName', 'error', `ROM "${romName}" ${joinProblems(Array.from(new Set(romProblems)))}.`);
+      }
+
+      const missing = ROM_REQUIRED_FIELDS.filter((field) => !rom.attributes[field]);
+      if (missing.length > 0) {
+        report('missingRomField', 'warning', `ROM "${romName}" has no ${missing.join(', ')}.`);
+      }
+
+      const hashKey = romHashKey(rom);
+      if (!hashKey) {
+        return;
+      }
+      const owner = firstByHash.get(hashKey);
+      if (owner === undefined) {
+        firstByHash.set(hashKey, gameIndex);
+      } else if (owner !== gameIndex) {
+        sharedHashes.set(owner, (sharedHashes.get(owner) ?? 0) + 1);
+      }
+    });
+
+    sharedHashes.forEach((count, owner) => {
+      const noun = count === 1 ? 'ROM hash' : 'ROM hashes';
+      report('duplicateHash', 'warning', `Shares ${count} ${noun} with "${parsed.games[owner].name}".`);
+    });
+  });
+
+  return findings;
+}
+
+export function compileTitlePattern(pattern: string): RegExp {
+  const trimmed = pattern.trim();
+  const regexLiteral = /^\/(.+)\/([a-z]*)$/.exec(trimmed);
+  if (regexLiteral) {
+    return new RegExp(regexLiteral[1], regexLiteral[2].replace(/[gy]/g, ''));
+  }
+  if (/[*?]/.test(trimmed)) {
+    const source = trimmed
+      .split('')
+      .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : escapeRegExp(char)))
+      .join('');
+    return new RegExp(`^${source}$`, 'i');
+  }
+  return new RegExp(escapeRegExp(trimmed), 'i');
+}
+
+export function validateTitlePattern(pattern: string): string | null {
+  try {
+    compileTitlePattern(pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export function validateSerialPattern(pattern: string): string | null {
+  try {
+    new RegExp(pattern.trim(), 'i');
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/** Throws on the first pattern that does not compile rather than filtering without it. */
+function compileTitlePatterns(patterns: string[] | undefined): RegExp[] {
+  return (patterns ?? []).filter((pattern) => pattern.trim()).map(compileTitlePattern);
+}
+
+function unitMatchesTitle(unit: DatGame[], matchers: RegExp[]): boolean {
+  return matchers.length > 0 && unit.some((game) => matchers.some((matcher) => matcher.test(game.name)));
+}
+
+function groupDiscSets(games: DatGame[]): number[][] {
+  const units: number[][] = [];
+  const unitsBySetKey = new Map<string, number[]>();
+  games.forEach((game, gameIndex) => {
+    const existing = game.discSet ? unitsBySetKey.get(game.discSet.key) : undefined;
+    if (existing) {
+      existing.push(gameIndex);
+      return;
+    }
+    const unit = [gameIndex];
+    units.push(unit);
+    if (game.discSet) {
+      unitsBySetKey.set(game.discSet.key, unit);
+    }
+  });
+  return units;
+}
+
+function countGames(units: DatGame[][]): number {
+  return units.reduce((total, unit) => total + unit.length, 0);
+}
+
+function sumGameSizes(games: DatGame[]): number {
+  return games.reduce((total, game) => total + game.totalSize, 0);
+}
+
+function unitWithinSize(unit: DatGame[], minSize: number | undefined, maxSize: number | undefined): boolean {
+  const size = sumGameSizes(unit);
+  return (minSize === undefined || size >= minSize) && (maxSize === undefined || size <= maxSize);
+}
+
+function filterByTags(
+  units: DatGame[][],
+  includedTags: string[],
+  excludedTags: string[]
+): { units: DatGame[][]; exclusionCounts: Record<string, number> } {
+  const exclusionCounts: Record<string, number> = Object.fromEntries(excludedTags.map((tag) => [tag, 0]));
+  if (includedTags.length === 0 && excludedTags.length === 0) {
+    return { units, exclusionCounts };
+  }
+
+  const included = new Set(includedTags);
+  const excluded = new Set(excludedTags);
+  const kept = units.filter((unit) => {
+    const keys = new Set(unit.flatMap((game) => game.tags.map((tag) => tag.key)));
+    if (included.size > 0 && !includedTags.some((tag) => keys.has(tag))) {
+      return false;
+    }
+    let dropped = false;
+    for (const tag of excluded) {
+      if (keys.has(tag)) {
+        exclusionCounts[tag] += unit.length;
+        dropped = true;
+      }
+    }
+    return !dropped;
+  });
+
+  return { units: kept, exclusionCounts };
+}
+
+function effectiveRegions(game: DatGame): string[] {
+  return game.regions.length > 0 ? game.regions : [DEFAULT_REGION];
+}
+
+function effectiveLanguages(game: DatGame): string[] {
+  return game.languages.length > 0 ? game.languages : [DEFAULT_LANGUAGE];
+}
+
+function effectiveCategory(game: DatGame): string {
+  return game.category?.trim() || DEFAULT_CATEGORY;
+}
+
+/**
+ * Groups releases of one title: the name without its region, language, disc and revision
+ * parentheticals, so `Racer (USA)` and `Racer (Europe) (Rev 1)` share a key while `(Demo)` or
+ * `(Beta)` still tell games apart.
+ */
+function deriveTitleKey(name: string, regions: RegionTable): string {
+  return name
+    .replace(/\s*\(([^()]+)\)/g, (segment, inside: string) => {
+      const key = normalizeTag(inside.trim()).key;
+      return isRegionSegment(inside, regions) ||
+        LANGUAGE_SEGMENT_PATTERN.test(inside.trim()) ||
+        key === 'Disc' ||
+        REVISION_TAG_KEYS.has(key)
+        ? ''
+        : segment;
+    })
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+function canonicalizeRegions(values: string[] | undefined, regions: RegionTable): string[] {
+  return Array.from(
+    new Set(
+      (values ?? [])
+        .map((value) => normalizeRegionToken(value, regions) ?? value)
+        .filter((value): value is string => !!value)
+    )
+  );
+}
+
+function createRegionRanker(regionPriority: string[]): (game: DatGame) => number {
+  const rankByRegion = new Map(regionPriority.map((region, index) => [region, index]));
+  return (game) =>
+    Math.min(...effectiveRegions(game).map((region) => rankByRegion.get(region) ?? regionPriority.length));
+}
+
+function collapseToOneGamePerTitle(
+  units: DatGame[][],
+  regionPriority: string[],
+  regions: RegionTable
+): DatGame[][] {
+  const rankOf = createRegionRanker(regionPriority);
+
+  // Region priority decides first; among equally ranked releases the latest revision wins.
+  const chosen = new Map<string, { unit: DatGame[]; rank: number; revision: number[] }>();
+  for (const unit of units) {
+    const key = deriveTitleKey(unit[0].name, regions);
+    const rank = Math.min(...unit.map(rankOf));
+    const revision = revisionRank(unit[0]);
+    const current = chosen.get(key);
+    if (
+      !current ||
+      rank < current.rank ||
+      (rank === current.rank && compareRevisionRanks(revision, current.revision) > 0)
+    ) {
+      chosen.set(key, { unit, rank, revision });
+    }
+  }
+
+  const kept = new Set(Array.from(chosen.values(), (entry) => entry.unit));
+  return units.filter((unit) => kept.has(unit));
+}
+
+function assignParents(games: DatGame[], regionPriority: string[], regions: RegionTable): Map<DatGame, string> {
+  const rankOf = createRegionRanker(regionPriority);
+  const groups = new Map<string, DatGame[]>();
+  for (const game of games) {
+    const key = `${deriveTitleKey(game.name, regions)}#${game.discSet?.disc ?? 0}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(game);
+    } else {
+      groups.set(key, [game]);
+    }
+  }
+
+  const parents = new Map<DatGame, string>();
+  for (const group of groups.values()) {
+    if (group.length < 2) {
+      continue;
+    }
+    const parent = group.reduce((best, game) => (rankOf(game) < rankOf(best) ? game : best));
+    group.filter((game) => game !== parent).forEach((game) => parents.set(game, parent.name));
+  }
+  return parents;
+}
+
+function keepLatestRevisions(units: DatGame[][], regions: RegionTable): DatGame[][] {
+  const latest = new Map<string, { unit: DatGame[]; rank: number[] }>();
+  for (const unit of units) {
+    const key = deriveRevisionGroupKey(unit[0], regions);
+    const rank = revisionRank(unit[0]);
+    const current = latest.get(key);
+    if (!current || compareRevisionRanks(rank, current.rank) > 0) {
+      latest.set(key, { unit, rank });
+    }
+  }
+
+  const kept = new Set(Array.from(latest.values(), (entry) => entry.unit));
+  return units.filter((unit) => kept.has(unit));
+}
+
+function deriveRevisionGroupKey(game: DatGame, regionTable: RegionTable): string {
+  const title = deriveTitleKey(game.name, regionTable);
+  const regions = game.regions.length > 0 ? [...game.regions].sort() : [DEFAULT_REGION];
+  return `${title}|${regions.join(',')}`;
+}
+
+function revisionRank(game: DatGame): number[] {
+  const revision = game.tags.find((tag) => tag.key === 'Rev')?.value;
+  const version = game.tags.find((tag) => tag.key === 'Version')?.value;
+  return [parseOrdinalToken(revision), ...(version ?? '').split('.').map((part) => parseInt(part, 10) || 0)];
+}
+
+function parseOrdinalToken(token: string | undefined): number {
+  if (!token) {
+    return 0;
+  }
+  if (/^\d+$/.test(token)) {
+    return parseInt(token, 10);
+  }
+  return /^[A-Z]$/i.test(token) ? token.toUpperCase().charCodeAt(0) - 64 : 0;
+}
+
+function compareRevisionRanks(a: number[], b: number[]): number {
+  for (let index = 0; index < Math.max(a.length, b.length); index += 1) {
+    const difference = (a[index] ?? 0) - (b[index] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
 function normalizeHeader(rawHeader: RawRecord): DatHeader {
   const headerEntries: DatHeader['extra'] = {};
   const header: DatHeader = {
@@ -300,30 +1417,104 @@ function normalizeHeader(rawHeader: RawRecord): DatHeader {
   return header;
 }
 
-function normalizeGame(rawGame: RawRecord): DatGame {
+function normalizeGame(rawGame: RawRecord, element: DatGameElement, regionTable: RegionTable): DatGame {
   const name = typeof rawGame?.['@_name'] === 'string' ? rawGame['@_name'] : coerceText(rawGame.name);
   const description = coerceText(rawGame.description);
   const category = coerceText(rawGame.category);
+  const serials = splitSerials(coerceText(rawGame.serial));
+  const version = coerceText(rawGame.version) || undefined;
   const romEntries = toArray(rawGame.rom).map((rom) => ({
     attributes: mapRomAttributes(rom)
   }));
+  const totalSize = romEntries.reduce(
+    (total, rom) => total + (Number.parseInt(rom.attributes.size ?? '', 10) || 0),
+    0
+  );
 
   const regions =
-    extractRegions(name) ??
-    extractRegions(description) ??
-    (romEntries.length > 0 ? extractRegions(romEntries[0].attributes.name) : null) ??
+    extractRegions(name, regionTable) ??
+    extractRegions(description, regionTable) ??
+    (romEntries.length > 0 ? extractRegions(romEntries[0].attributes.name, regionTable) : null) ??
     [];
+  const languages = extractLanguages(name) ?? extractLanguages(description) ?? [];
+  const tags = extractTags(name, regionTable);
+  const discSet = deriveDiscSet(name, tags);
 
   return {
     name,
+    element,
     description,
     category,
+    serials,
+    version,
     roms: romEntries,
+    totalSize,
     regions: regions.length > 0 ? regions : [],
+    languages,
+    tags,
+    discSet,
     raw: rawGame
   };
 }
 
+function splitSerials(value: string | undefined): string[] {
+  return Array.from(new Set((value ?? '').split(',').map((serial) => serial.trim()).filter(Boolean)));
+}
+
+/** Letters a serial starts with, upper-cased: `SLUS-00001` gives `SLUS`. */
+function serialPrefix(serial: string): string | null {
+  const match = /^[a-z]+/i.exec(serial);
+  return match ? match[0].toUpperCase() : null;
+}
+
+function romHashKey(rom: DatRom): string | null {
+  const { size, crc, md5, sha1 } = rom.attributes;
+  // Empty files share every hash, so they say nothing about duplicated dumps.
+  if (size === '0') {
+    return null;
+  }
+  if (sha1) {
+    return `sha1:${sha1.toLowerCase()}`;
+  }
+  if (md5) {
+    return `md5:${md5.toLowerCase()}`;
+  }
+  return crc && size ? `crc:${crc.toLowerCase()}:${size}` : null;
+}
+
+function windowsNameProblems(name: string): string[] {
+  const problems: string[] = [];
+  const illegal = Array.from(new Set(name.match(WINDOWS_ILLEGAL_CHARACTERS) ?? []));
+  if (illegal.length > 0) {
+    const listed = illegal.map((char) =>
+      char < ' ' ? `U+${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}` : `"${char}"`
+    );
+    problems.push(`contains ${listed.join(' ')}`);
+  }
+  if (/[. ]$/.test(name)) {
+    problems.push('ends with a dot or space');
+  }
+  if (WINDOWS_RESERVED_NAMES.test(name)) {
+    problems.push('is a reserved Windows device name');
+  }
+  return problems;
+}
+
+function joinProblems(problems: string[]): string {
+  return problems.length > 1 ? `${problems.slice(0, -1).join(', ')} and ${problems[problems.length - 1]}` : problems[0];
+}
+
+function romHashSignature(game: DatGame): string {
+  const hashes = game.roms
+    .map((rom) =>
+      ['crc', 'md5', 'sha1']
+        .map((key) => rom.attributes[key]?.toLowerCase() ?? '')
+        .join(':')
+    )
+    .filter((hash) => hash !== '::');
+  return hashes.sort().join('|');
+}
+
 function mapRomAttributes(rawRom: RawRecord): Record<string, string> {
   const attributes: Record<string, string> = {};
   if (!rawRom) {
@@ -340,7 +1531,7 @@ function mapRomAttributes(rawRom: RawRecord): Record<string, string> {
   return attributes;
 }
 
-function extractRegions(input?: string): string[] | null {
+function extractRegions(input: string | undefined, regions: RegionTable): string[] | null {
   if (!input) {
     return null;
   }
@@ -353,7 +1544,9 @@ function extractRegions(input?: string): string[] | null {
       continue;
     }
 
-    const normalizedTokens = tokens.map((token) => normalizeRegionToken(token)).filter((token): token is string => !!token);
+    const normalizedTokens = tokens
+      .map((token) => normalizeRegionToken(token, regions))
+      .filter((token): token is string => !!token);
     if (normalizedTokens.length > 0) {
       const unique = Array.from(new Set(normalizedTokens));
       return unique;
@@ -363,37 +1556,128 @@ function extractRegions(input?: string): string[] | null {
   return null;
 }
 
+function extractLanguages(input?: string): string[] | null {
+  if (!input) {
+    return null;
+  }
+
+  for (const match of input.matchAll(/\(([^()]+)\)/g)) {
+    const inside = match[1].trim();
+    if (LANGUAGE_SEGMENT_PATTERN.test(inside)) {
+      const codes = inside
+        .split(/[,+]/g)
+        .map((code) => code.trim())
+        .filter(Boolean);
+      return Array.from(new Set(codes));
+    }
+  }
+
+  return null;
+}
+
+function extractTags(input: string, regions: RegionTable): DatTag[] {
+  const tags: DatTag[] = [];
+  for (const match of input.matchAll(/\(([^()]+)\)/g)) {
+    const inside = match[1].trim();
+    if (!inside || isRegionSegment(inside, regions) || LANGUAGE_SEGMENT_PATTERN.test(inside)) {
+      continue;
+    }
+    tags.push(normalizeTag(inside));
+  }
+  return tags;
+}
+
+function deriveDiscSet(name: string, tags: DatTag[]): DiscSet | undefined {
+  const discTag = tags.find((tag) => tag.key === 'Disc');
+  if (!discTag) {
+    return undefined;
+  }
+  const key = name
+    .replace(/\s*\(([^()]+)\)/g, (segment, inside: string) => (inside.trim() === discTag.label ? '' : segment))
+    .replace(/\s+/g, ' ')
+    .trim();
+  return { key, disc: parseOrdinalToken(discTag.value), total: 1 };
+}
+
+function normalizeTag(label: string): DatTag {
+  for (const [pattern, key] of TAG_FAMILIES) {
+    const match = label.match(pattern);
+    if (match) {
+      const value = label.slice(match[0].length).trim();
+      return value ? { key, label, value } : { key, label };
+    }
+  }
+  return { key: label, label };
+}
+
+function isRegionSegment(segment: string, regions: RegionTable): boolean {
+  const tokens = tokenizeRegionSegment(segment);
+  return tokens.length > 0 && tokens.every((token) => normalizeRegionToken(token, regions) !== null);
+}
+
 function tokenizeRegionSegment(segment: string): string[] {
   return segment
     .split(/[/,&]/g)
     .map((part) => part.trim())
     .flatMap((part) => part.split(/\s{2,}/g))
     .map((part) => part.trim())
+    .flatMap((part) => (/^[A-Z]{2}(?:-[A-Z]{2})+$/.test(part) ? part.split('-') : [part]))
     .filter(Boolean);
 }
 
-function normalizeRegionToken(token: string | undefined): string | null {
-  if (!token) {
-    return null;
-  }
-  const cleaned = token.replace(/\.+/g, '').replace(/\s+/g, ' ').trim();
+function normalizeRegionToken(token: string | undefined, regions: RegionTable): string | null {
+  const cleaned = cleanRegionToken(token);
   if (!cleaned) {
     return null;
   }
 
-  const lower = cleaned.toLowerCase();
-  const synonym = REGION_SYNONYMS.get(lower);
+  const synonym = regions.synonyms.get(cleaned.toLowerCase()) ?? ISO_REGION_CODES.get(cleaned);
   if (synonym) {
     return synonym;
   }
 
-  if (CANONICAL_REGIONS.has(cleaned)) {
+  if (regions.canonical.has(cleaned)) {
     return cleaned;
   }
 
   return null;
 }
 
+function cleanRegionToken(token: string | undefined): string {
+  return (token ?? '').replace(/\.+/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Builds the region lookup from the built-in synonyms plus user overrides. Custom regions and
+ * synonym targets become canonical; user entries win over built-in ones for the same token.
+ */
+function createRegionTable(overrides?: RegionOverrides): RegionTable {
+  const synonyms = new Map(REGION_SYNONYMS);
+  for (const region of overrides?.regions ?? []) {
+    const cleaned = cleanRegionToken(region);
+    if (cleaned) {
+      synonyms.set(cleaned.toLowerCase(), cleaned);
+    }
+  }
+  for (const [token, region] of Object.entries(overrides?.synonyms ?? {})) {
+    const cleanedToken = cleanRegionToken(token);
+    const cleanedRegion = cleanRegionToken(region);
+    if (cleanedToken && cleanedRegion) {
+      synonyms.set(cleanedToken.toLowerCase(), cleanedRegion);
+    }
+  }
+
+  const canonical = new Set(synonyms.values());
+  canonical.add(DEFAULT_REGION);
+  return { synonyms, canonical };
+}
+
+/** Canonical regions, sorted, including any declared by user overrides. */
+export function canonicalRegionList(overrides?: RegionOverrides): string[] {
+  const { canonical } = overrides ? createRegionTable(overrides) : DEFAULT_REGION_TABLE;
+  return Array.from(canonical).sort((a, b) => a.localeCompare(b));
+}
+
 function deriveDescriptors(
   header: DatHeader,
   totalGames: number
@@ -454,13 +1738,12 @@ function normalizeDescriptorLabel(label: string): string {
 function buildFilteredHeader(
   header: DatHeader,
   filteredCount: number,
-  selectedRegions: string[],
+  regionLabel: string,
   descriptorOriginal: string,
   versionLabel?: string
 ): DatHeader {
-  const regionLabel = createRegionLabel(selectedRegions);
   const systemName = header.name;
-  const version = versionLabel ?? header.version ?? header.date ?? new Date().toISOString().split('T')[0];
+  const version = resolveHeaderVersion(header, versionLabel);
   const decoratedSystem = regionLabel ? `${systemName} (${regionLabel})` : systemName;
   const description = `${decoratedSystem} - ${descriptorOriginal} (${filteredCount}) (${version})`;
 
@@ -472,12 +1755,209 @@ function buildFilteredHeader(
   };
 }
 
+function resolveHeaderVersion(header: DatHeader, versionLabel?: string): string {
+  return versionLabel ?? header.version ?? header.date ?? todayIsoDate();
+}
+
+function todayIsoDate(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/** Replaces `{token}` placeholders; unknown tokens are left as written. */
+export function renderHeaderTemplate(template: string, tokens: HeaderTemplateTokens): string {
+  return replaceTemplateTokens(template, tokens).trim();
+}
+
+function replaceTemplateTokens(template: string, tokens: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, token: string) =>
+    Object.prototype.hasOwnProperty.call(tokens, token) ? tokens[token] : match
+  );
+}
+
+function applyHeaderTemplate(
+  header: DatHeader,
+  template: DatHeaderTemplate | undefined,
+  tokens: HeaderTemplateTokens
+): DatHeader {
+  const result: DatHeader = { ...header, extra: { ...header.extra } };
+  HEADER_TEMPLATE_FIELDS.forEach((field) => {
+    const source = template?.[field]?.trim();
+    if (!source) {
+      return;
+    }
+    const value = renderHeaderTemplate(source, tokens);
+    if (field === 'comment') {
+      result.extra.comment = value;
+    } else if (field === 'name') {
+      result.name = value || header.name;
+    } else {
+      result[field] = value || undefined;
+    }
+  });
+  return result;
+}
+
+interface DatOutputWriter {
+  /** Accepted file extensions; the first is used when the source extension is not accepted. */
+  extensions: string[];
+  write(
+    header: DatHeader,
+    games: DatGame[],
+    parents: Map<DatGame, string>,
+    rawRootExtras: Record<string, unknown>,
+    summary: FilterSummary
+  ): string;
+}
+
+const OUTPUT_WRITERS: Record<DatOutputFormat, DatOutputWriter> = {
+  logiqx: { extensions: ['.dat', '.xml'], write: writeLogiqxDat },
+  clrmamepro: { extensions: ['.dat'], write: writeClrMameProDat },
+  csv: { extensions: ['.csv'], write: (_header, games) => writeGameListCsv(games) },
+  json: {
+    extensions: ['.json'],
+    write: (_header, games, _parents, _rawRootExtras, summary) => writeGameListJson(games, summary)
+  }
+};
+
+const CLRMAMEPRO_HEADER_FIELDS = ['name', 'description', 'version', 'date', 'author', 'homepage', 'url'] as const;
+const CLRMAMEPRO_GAME_FIELDS = ['description', 'category', 'serial', 'version'];
+const CLRMAMEPRO_ROM_FIELDS = ['name', 'size', 'crc', 'md5', 'sha1'];
+
+function writeLogiqxDat(
+  header: DatHeader,
+  games: DatGame[],
+  parents: Map<DatGame, string>,
+  rawRootExtras: Record<string, unknown>
+): string {
+  const datafile: string = xmlBuilder.build({ datafile: { ...rawRootExtras, header: headerToXmlNode(header) } });
+  // The builder groups repeated keys, so entries are built one at a time to keep `<game>` and
+  // `<machine>` elements in their original order.
+  const entries = games.map((game) => {
+    const raw = cloneDeep(game.raw);
+    const parent = parents.get(game);
+    const node = parent ? { '@_name': raw['@_name'], ...raw, '@_cloneof': parent, '@_romof': parent } : raw;
+    const wrapped: string = xmlBuilder.build({ datafile: { [game.element]: node } });
+    return wrapped.slice('<datafile>\n'.length, -'</datafile>\n'.length);
+  });
+  const closing = datafile.lastIndexOf('</datafile>');
+  const xmlContent = datafile.slice(0, closing) + entries.join('') + datafile.slice(closing);
+  let xml = [XML_DECLARATION, DATAFILE_DOCTYPE, xmlContent].join('\n');
+  xml = xml.replace(/&apos;/g, "'");
+  return xml.replace(/\r?\n/g, '\r\n');
+}
+
+function writeClrMameProDat(header: DatHeader, games: DatGame[], parents: Map<DatGame, string>): string {
+  const lines = ['clrmamepro ('];
+  CLRMAMEPRO_HEADER_FIELDS.forEach((field) => {
+    const value = header[field];
+    if (value) {
+      lines.push(`\t${field} ${quoteClrMameProValue(value)}`);
+    }
+  });
+  if (header.extra.comment) {
+    lines.push(`\tcomment ${quoteClrMameProValue(header.extra.comment)}`);
+  }
+  lines.push(')');
+
+  games.forEach((game) => {
+    lines.push('', `${game.element} (`, `\tname ${quoteClrMameProValue(game.name)}`);
+    CLRMAMEPRO_GAME_FIELDS.forEach((field) => {
+      const value = coerceText(game.raw[field]);
+      if (value) {
+        lines.push(`\t${field} ${quoteClrMameProValue(value)}`);
+      }
+    });
+    const parent = parents.get(game);
+    if (parent) {
+      lines.push(`\tcloneof ${quoteClrMameProValue(parent)}`, `\tromof ${quoteClrMameProValue(parent)}`);
+    }
+    game.roms.forEach((rom) => {
+      const keys = [
+        ...CLRMAMEPRO_ROM_FIELDS.filter((key) => key in rom.attributes),
+        ...Object.keys(rom.attributes)
+          .filter((key) => !CLRMAMEPRO_ROM_FIELDS.includes(key))
+          .sort()
+      ];
+      const fields = keys.map((key) =>
+        key === 'name'
+          ? `name ${quoteClrMameProValue(rom.attributes[key])}`
+          : `${key} ${formatClrMameProToken(rom.attributes[key])}`
+      );
+      lines.push(`\trom ( ${fields.join(' ')} )`);
+    });
+    lines.push(')');
+  });
+
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+function quoteClrMameProValue(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+function formatClrMameProToken(value: string): string {
+  return value && !/[\s"()]/.test(value) ? value : quoteClrMameProValue(value);
+}
+
+const GAME_LIST_COLUMNS = [
+  'name',
+  'serials',
+  'regions',
+  'category',
+  'romCount',
+  'totalSize',
+  'crc',
+  'md5',
+  'sha1'
+] as const;
+
+function buildGameListRow(game: DatGame): GameListRow {
+  const primary = game.roms[0]?.attributes ?? {};
+  return {
+    name: game.name,
+    serials: game.serials,
+    regions: game.regions,
+    category: game.category ?? null,
+    romCount: game.roms.length,
+    totalSize: game.totalSize,
+    crc: primary.crc?.toLowerCase() ?? null,
+    md5: primary.md5?.toLowerCase() ?? null,
+    sha1: primary.sha1?.toLowerCase() ?? null
+  };
+}
+
+function writeGameListCsv(games: DatGame[]): string {
+  const lines = [GAME_LIST_COLUMNS.join(',')];
+  games.forEach((game) => {
+    const row = buildGameListRow(game);
+    lines.push(
+      GAME_LIST_COLUMNS.map((column) => {
+        const value = row[column];
+        return formatCsvField(Array.isArray(value) ? value.join(', ') : String(value ?? ''));
+      }).join(',')
+    );
+  });
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+function writeGameListJson(games: DatGame[], summary: FilterSummary): string {
+  return `${JSON.stringify({ summary, games: games.map(buildGameListRow) }, null, 2)}\n`;
+}
+
+function formatCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
 function headerToXmlNode(header: DatHeader): RawRecord {
   const { extra, ...known } = header;
+  // Logiqx places <comment> after the known fields; a comment added by a header template would
+  // otherwise lead the header.
+  const { comment, ...extras } = extra;
   const node: RawRecord = {};
   for (const [key, value] of Object.entries({
-    ...extra,
-    ...known
+    ...extras,
+    ...known,
+    ...(comment !== undefined && { comment })
   })) {
     if (key === 'extra') {
       continue;
@@ -489,12 +1969,68 @@ function headerToXmlNode(header: DatHeader): RawRecord {
   return node;
 }
 
-function createRegionLabel(selectedRegions: string[]): string {
-  if (!selectedRegions || selectedRegions.length === 0) {
-    return '';
+/**
+ * Combines the built-in region groups with user-defined ones (which replace a built-in group of the
+ * same name) and narrows each group to the regions a DAT actually has. Groups left empty are dropped.
+ */
+export function resolveRegionGroups(availableRegions: string[], customGroups: RegionGroup[] = []): RegionGroup[] {
+  const available = new Set(availableRegions);
+  const customNames = new Set(customGroups.map((group) => group.name));
+  return [...BUILT_IN_REGION_GROUPS.filter((group) => !customNames.has(group.name)), ...customGroups]
+    .map((group) => ({ name: group.name, regions: group.regions.filter((region) => available.has(region)) }))
+    .filter((group) => group.name.trim() && group.regions.length > 0);
+}
+
+/**
+ * Describes a region selection. Fully selected groups covering two or more regions are printed by
+ * name in `any` and `exclusive` mode; `all` mode keeps every region, since a group name would read
+ * as "any of these".
+ */
+export function createRegionLabel(
+  selectedRegions: string[],
+  matchMode: RegionMatchMode = 'any',
+  excludedRegions: string[] = [],
+  regionGroups: RegionGroup[] = []
+): string {
+  let label = '';
+  if (selectedRegions.length > 0) {
+    if (matchMode === 'all') {
+      label = selectedRegions.join(' + ');
+    } else if (matchMode === 'exclusive') {
+      label = `${collapseRegionGroups(selectedRegions, regionGroups).join(', ')} only`;
+    } else {
+      label = collapseRegionGroups(selectedRegions, regionGroups).join(', ');
+    }
+  }
+
+  if (excludedRegions.length > 0) {
+    const exclusion = `excl. ${collapseRegionGroups(excludedRegions, regionGroups).join(', ')}`;
+    label = label ? `${label}; ${exclusion}` : exclusion;
+  }
+
+  return label;
+}
+
+/** Replaces fully contained groups with their name, larger groups first, keeping selection order. */
+function collapseRegionGroups(regions: string[], regionGroups: RegionGroup[]): string[] {
+  const groupOf = new Map<string, string>();
+  const bySize = regionGroups
+    .filter((group) => group.regions.length > 1)
+    .sort((a, b) => b.regions.length - a.regions.length);
+  for (const group of bySize) {
+    if (group.regions.every((region) => regions.includes(region) && !groupOf.has(region))) {
+      group.regions.forEach((region) => groupOf.set(region, group.name));
+    }
   }
 
-  return selectedRegions.join(', ');
+  const labels: string[] = [];
+  for (const region of regions) {
+    const label = groupOf.get(region) ?? region;
+    if (!labels.includes(label)) {
+      labels.push(label);
+    }
+  }
+  return labels;
 }
 
 function sanitizeFilename(input: string): string {
@@ -504,16 +2040,58 @@ function sanitizeFilename(input: string): string {
     .trim();
 }
 
+/**
+ * Renders a filename template into a relative path joined with `/`. Only separators written in the
+ * template create folders; separators inside token values are sanitized like any other character.
+ * Each segment is capped at {@link MAX_FILENAME_SEGMENT_LENGTH}, and the file gets the first accepted
+ * extension unless it already ends with one. Returns `null` when nothing usable remains.
+ */
+export function renderFilenameTemplate(
+  template: string,
+  tokens: FilenameTemplateTokens,
+  extensions: string[] = ['.dat']
+): string | null {
+  const segments = template
+    .split(/[\\/]/)
+    .map((segment) => sanitizePathSegment(replaceTemplateTokens(segment, tokens)))
+    .filter(Boolean);
+  const file = segments.pop();
+  if (!file) {
+    return null;
+  }
+
+  const currentExtension = file.match(/\.[^. ]+$/)?.[0] ?? '';
+  const knownExtensions = Object.values(OUTPUT_WRITERS).flatMap((writer) => writer.extensions);
+  const stem = knownExtensions.includes(currentExtension.toLowerCase())
+    ? file.slice(0, -currentExtension.length)
+    : file;
+  const extension = extensions.includes(currentExtension.toLowerCase()) ? currentExtension : extensions[0];
+  const cappedStem = stem.slice(0, MAX_FILENAME_SEGMENT_LENGTH - extension.length).trimEnd();
+  if (!cappedStem) {
+    return null;
+  }
+
+  const folders = segments.map((segment) => segment.slice(0, MAX_FILENAME_SEGMENT_LENGTH).trimEnd());
+  return [...folders, `${cappedStem}${extension}`].join('/');
+}
+
+function sanitizePathSegment(segment: string): string {
+  // Windows drops trailing dots and spaces, which also turns `.` and `..` into nothing.
+  return sanitizeFilename(segment).replace(/[. ]+$/, '');
+}
+
 function deriveFilteredFilename(
   baseFilename: string | undefined,
   headerDescription: string | undefined,
   decoratedSystem: string,
   descriptorNormalized: string,
   filteredCount: number,
-  versionLabel?: string
+  versionLabel?: string,
+  extensions: string[] = ['.dat']
 ): string {
   const extensionMatch = baseFilename?.match(/(\.[^.]+)$/);
-  const extension = extensionMatch ? extensionMatch[1] : '.dat';
+  const extension =
+    extensionMatch && extensions.includes(extensionMatch[1].toLowerCase()) ? extensionMatch[1] : extensions[0];
   const baseWithoutExtension =
     baseFilename && extensionMatch ? baseFilename.slice(0, -extensionMatch[1].length) : baseFilename;
 
@@ -1,4 +1,15 @@
-import type { DatHeader, FilterSummary } from './datParser';
+import type {
+  DatDiff,
+  DatHeader,
+  DatHeaderTemplate,
+  DatOutputFormat,
+  DatRom,
+  DatValidationFinding,
+  FilterOptions,
+  FilterSummary,
+  RegionGroup,
+  RegionOverrides
+} from './datParser';
 
 export const IPC_CHANNELS = {
   openDat: 'dat:open',
@@ -43,6 +54,13 @@ export interface LoadedDatPayload {
   originalFilename: string;
   header: DatHeader;
   regions: string[];
+  /** Games per region, counting games without a region under Unknown. */
+  regionCounts: Record<string, number>;
+  languages: string[];
+  tags: string[];
+  categories: string[];
+  /** Upper-case serial prefixes found in Serial/Version DATs, such as `SLUS`. */
+  serialPrefixes: string[];
   totalGames: number;
   descriptor: string;
   normalizedDescriptor: string;
@@ -68,6 +86,7 @@ export interface CurrentDatResponse {
 
 export interface FilterPreviewRequest {
   regions: string[];
+  options?: FilterOptions;
 }
 
 export interface FilterPreviewResponse {
@@ -78,8 +97,45 @@ export interface FilterPreviewResponse {
   filename?: string;
 }
 
+export interface ValidateDatResponse {
+  success: boolean;
+  error?: string;
+  findings?: DatValidationFinding[];
+}
+
+/** A title pattern the backend's regex engine cannot compile, with the reason. */
+export interface PatternError {
+  pattern: string;
+  error: string;
+}
+
+export interface DatGameDetails {
+  index: number;
+  name: string;
+  description?: string;
+  category?: string;
+  serials: string[];
+  version?: string;
+  regions: string[];
+  languages: string[];
+  roms: DatRom[];
+  /** The game element as stored in the source DAT; ClrMamePro entries are shown as converted XML. */
+  rawXml: string;
+}
+
+export interface GetGameResponse {
+  success: boolean;
+  error?: string;
+  game?: DatGameDetails;
+}
+
 export type DatVariant = 'standard' | 'serial';
 
+export interface TitlePatternLists {
+  include: string[];
+  exclude: string[];
+}
+
 export interface AppSettings {
   defaultRegions: string[];
   defaultSaveDir: string | null;
@@ -87,6 +143,15 @@ export interface AppSettings {
   visibleSystemSlugs: string[];
   preferSerialVersion: boolean;
   systemDatVariants: Record<string, DatVariant>;
+  regionPriority: string[];
+  systemTitlePatterns: Record<string, TitlePatternLists>;
+  headerTemplate: DatHeaderTemplate;
+  /** Applies to every system without its own entry in `systemFilenameTemplates`. */
+  filenameTemplate: string | null;
+  systemFilenameTemplates: Record<string, string>;
+  regionOverrides: RegionOverrides;
+  /** User-defined region groups; one named like a built-in group replaces it. */
+  regionGroups: RegionGroup[];
 }
 
 export interface GetSettingsResponse {
@@ -96,6 +161,7 @@ export interface GetSettingsResponse {
 
 export interface SaveFilterRequest {
   regions: string[];
+  options?: FilterOptions;
   targetPath?: string;
 }
 
@@ -107,6 +173,8 @@ export interface SaveFilterResponse {
   header?: DatHeader;
   summary?: FilterSummary;
   filename?: string;
+  /** Format of the saved file, so a CSV or JSON export is not reported as a DAT. */
+  outputFormat?: DatOutputFormat;
 }
 
 export type RedumpSystemListSource = 'live' | 'cache' | 'bundled';
@@ -173,3 +241,27 @@ export interface DownloadExtraResponse {
   savedPath?: string;
   filename?: string;
 }
+
+export interface CachedDatVersion {
+  filePath: string;
+  filename: string;
+  fetchedAt?: string;
+  current: boolean;
+}
+
+export interface ListDatVersionsResponse {
+  success: boolean;
+  error?: string;
+  versions: CachedDatVersion[];
+}
+
+export interface PickDatFileResponse {
+  canceled: boolean;
+  filePath?: string;
+}
+
+export interface DiffDatsResponse {
+  success: boolean;
+  error?: string;
+  diff?: DatDiff;
+}